@@ -0,0 +1,183 @@
+import { promises as fs } from 'fs';
+import { dirname, join, normalize, sep } from 'path';
+import { EmmettError } from '@event-driven-io/emmett';
+import { generateUUID } from './utils';
+
+/**
+ * Storage for message payloads too large to publish (claim checks)
+ *
+ * Stored payloads are not deleted by the message bus, since every subscriber
+ * of an event reads them. Expire them in the store instead, e.g. with a GCS
+ * lifecycle rule.
+ */
+export interface BlobStore {
+  /**
+   * Store a payload
+   *
+   * @param key - Unique key of the payload
+   * @param data - The payload
+   */
+  put(key: string, data: Buffer): Promise<void>;
+
+  /**
+   * Read a stored payload
+   *
+   * @param key - Key of the payload
+   * @returns The payload
+   * @throws Error if the payload does not exist
+   */
+  get(key: string): Promise<Buffer>;
+}
+
+/**
+ * Claim checks for payloads above a size threshold
+ */
+export interface ClaimCheckOptions {
+  /**
+   * Store receiving the payloads
+   */
+  store: BlobStore;
+
+  /**
+   * Minimum size in bytes of payloads to store instead of publishing them,
+   * just below the 10 MB Pub/Sub message limit by default
+   * @default 9437184 (9 MiB)
+   */
+  thresholdBytes?: number;
+
+  /**
+   * Prefix of the keys of stored payloads
+   * @default "claim-checks/"
+   */
+  keyPrefix?: string;
+}
+
+/**
+ * Default claim check threshold, leaving room for attributes below the
+ * 10 MB Pub/Sub message limit
+ */
+const DEFAULT_THRESHOLD_BYTES = 9 * 1024 * 1024;
+
+/**
+ * Store a payload reaching the claim check threshold
+ *
+ * @param messageType - The message type
+ * @param data - The (possibly compressed) payload
+ * @param options - Claim check options
+ * @returns The data to publish (empty when stored), with the claim check key when stored
+ */
+export async function checkInPayload(
+  messageType: string,
+  data: Buffer,
+  options: ClaimCheckOptions,
+): Promise<{ data: Buffer; claimCheck?: string }> {
+  if (data.length < (options.thresholdBytes ?? DEFAULT_THRESHOLD_BYTES)) {
+    return { data };
+  }
+
+  const key = `${options.keyPrefix ?? 'claim-checks/'}${messageType}/${generateUUID()}`;
+  await options.store.put(key, data);
+  return { data: Buffer.alloc(0), claimCheck: key };
+}
+
+/**
+ * Read the payload of a message, following its claim check
+ *
+ * @param data - The message data
+ * @param claimCheck - The claimCheck attribute (undefined for inline payloads)
+ * @param store - Store the payload was checked in to
+ * @returns The payload
+ * @throws EmmettError if the message has a claim check but no store is configured
+ */
+export async function checkOutPayload(
+  data: Buffer,
+  claimCheck: string | undefined,
+  store: BlobStore | undefined,
+): Promise<Buffer> {
+  if (!claimCheck) {
+    return data;
+  }
+  if (!store) {
+    throw new EmmettError(
+      `Message payload ${claimCheck} is in a claim check store, but none is configured`,
+    );
+  }
+  return store.get(claimCheck);
+}
+
+/**
+ * Blob store keeping payloads as files in a directory
+ *
+ * Meant for tests and local development; all instances must share the
+ * directory.
+ *
+ * @example
+ * ```typescript
+ * const messageBus = getPubSubMessageBus({
+ *   pubsub,
+ *   claimCheck: { store: new FileBlobStore('.emmett/claim-checks') },
+ * });
+ * ```
+ */
+export class FileBlobStore implements BlobStore {
+  constructor(private readonly directory: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.getFilePath(key);
+    await fs.mkdir(dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.getFilePath(key));
+  }
+
+  /**
+   * Get the path of a payload file, rejecting keys outside the directory
+   */
+  private getFilePath(key: string): string {
+    const filePath = normalize(join(this.directory, key));
+    if (!filePath.startsWith(normalize(this.directory) + sep)) {
+      throw new EmmettError(`Invalid blob key ${key}`);
+    }
+    return filePath;
+  }
+}
+
+/**
+ * Subset of a @google-cloud/storage Bucket used by GcsBlobStore
+ */
+export interface GcsBucket {
+  file(name: string): {
+    save(data: Buffer): Promise<void>;
+    download(): Promise<[Buffer]>;
+  };
+}
+
+/**
+ * Blob store keeping payloads in a Google Cloud Storage bucket
+ *
+ * @example
+ * ```typescript
+ * import { Storage } from '@google-cloud/storage';
+ *
+ * const messageBus = getPubSubMessageBus({
+ *   pubsub,
+ *   claimCheck: {
+ *     store: new GcsBlobStore(new Storage().bucket('myapp-claim-checks')),
+ *   },
+ * });
+ * ```
+ */
+export class GcsBlobStore implements BlobStore {
+  constructor(private readonly bucket: GcsBucket) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await this.bucket.file(key).save(data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const [data] = await this.bucket.file(key).download();
+    return data;
+  }
+}
@@ -0,0 +1,285 @@
+import { EmmettError } from '@event-driven-io/emmett';
+import type { PubSubMessageEnvelope } from './types';
+import { inferMessageKind } from './messageTypeRegistry';
+
+/**
+ * Content type of structured-mode CloudEvents
+ */
+export const CLOUDEVENTS_CONTENT_TYPE = 'application/cloudevents+json';
+
+/**
+ * Prefix of the PubSub attributes carrying binary-mode CloudEvent attributes
+ */
+export const CLOUDEVENTS_ATTRIBUTE_PREFIX = 'ce-';
+
+/**
+ * Maximum size in bytes of a PubSub attribute value
+ */
+const MAX_ATTRIBUTE_VALUE_BYTES = 1024;
+
+/**
+ * How CloudEvents are mapped to PubSub messages
+ *
+ * - "binary": the event data is the message data, datacontenttype is the
+ *   content-type attribute and the other CloudEvent attributes are "ce-"
+ *   prefixed PubSub attributes (as delivered by Eventarc)
+ * - "structured": the whole CloudEvent is the message data as JSON, with a
+ *   content-type attribute of application/cloudevents+json
+ */
+export type CloudEventsMode = 'binary' | 'structured';
+
+/**
+ * Publish messages as CloudEvents 1.0
+ */
+export interface CloudEventsOptions {
+  /**
+   * CloudEvent source, a URI-reference identifying the producer (e.g.
+   * "//orders.myapp.example.com")
+   */
+  source: string;
+
+  /**
+   * Mapping of CloudEvents to PubSub messages
+   * @default "binary"
+   */
+  mode?: CloudEventsMode;
+}
+
+/**
+ * CloudEvent 1.0 in its JSON format
+ *
+ * Emmett envelope fields without a CloudEvents equivalent are extension
+ * attributes: emmettkind, emmettversion, emmettmetadata (JSON),
+ * correlationid and causationid.
+ */
+export interface CloudEvent {
+  specversion: string;
+  id: string;
+  source: string;
+  type: string;
+  time?: string;
+  datacontenttype?: string;
+  data?: unknown;
+  data_base64?: string;
+  [extension: string]: unknown;
+}
+
+/**
+ * Convert a value to plain JSON for non-Emmett consumers
+ *
+ * JSON.stringify throws on BigInts and writes Maps and Sets as {}, so BigInts
+ * become decimal strings, Maps objects, Sets arrays and Buffers base64 strings.
+ * Other objects with a toJSON method (e.g. Dates) are converted by it.
+ */
+function toJsonValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  if (Buffer.isBuffer(value)) {
+    return value.toString('base64');
+  }
+
+  if (value instanceof Map) {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of value) {
+      result[String(key)] = toJsonValue(entry);
+    }
+    return result;
+  }
+
+  if (value instanceof Set) {
+    return [...value].map(toJsonValue);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+
+  if (value !== null && typeof value === 'object') {
+    if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+      return toJsonValue((value as { toJSON(): unknown }).toJSON());
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = toJsonValue(entry);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Convert a message envelope to a CloudEvent
+ *
+ * Data and metadata are written as plain JSON, like jsonEnvelopeCodec, so
+ * non-Emmett consumers can read them (Dates and BigInts become strings, see
+ * toJsonValue).
+ *
+ * @param envelope - The message envelope
+ * @param source - The CloudEvent source
+ * @returns The CloudEvent
+ */
+export function toCloudEvent(
+  envelope: PubSubMessageEnvelope,
+  source: string,
+): CloudEvent {
+  return {
+    specversion: '1.0',
+    id: envelope.messageId,
+    source,
+    type: envelope.type,
+    time: envelope.timestamp,
+    datacontenttype: 'application/json',
+    data: toJsonValue(envelope.data),
+    emmettkind: envelope.kind,
+    ...(envelope.version !== undefined && {
+      emmettversion: envelope.version,
+    }),
+    ...(envelope.metadata !== undefined && {
+      emmettmetadata: JSON.stringify(toJsonValue(envelope.metadata)),
+    }),
+    ...(envelope.correlationId && { correlationid: envelope.correlationId }),
+    ...(envelope.causationId && { causationid: envelope.causationId }),
+  };
+}
+
+/**
+ * Convert a CloudEvent to a message envelope
+ *
+ * CloudEvents from other producers get the kind inferred from their type,
+ * version 1 and no metadata.
+ *
+ * @param event - The CloudEvent
+ * @returns The message envelope
+ * @throws Error if a required CloudEvent attribute is missing
+ */
+export function fromCloudEvent(event: CloudEvent): PubSubMessageEnvelope {
+  for (const attribute of ['specversion', 'id', 'type'] as const) {
+    if (typeof event[attribute] !== 'string') {
+      throw new Error(`Invalid CloudEvent: missing ${attribute}`);
+    }
+  }
+
+  const kind = event.emmettkind;
+  const version = Number(event.emmettversion ?? 1);
+  const metadata = event.emmettmetadata;
+
+  return {
+    type: event.type,
+    kind:
+      kind === 'command' || kind === 'event'
+        ? kind
+        : inferMessageKind(event.type),
+    version,
+    data:
+      typeof event.data_base64 === 'string'
+        ? Buffer.from(event.data_base64, 'base64')
+        : event.data,
+    metadata:
+      typeof metadata === 'string'
+        ? (JSON.parse(metadata) as unknown)
+        : undefined,
+    timestamp: event.time ?? new Date().toISOString(),
+    messageId: event.id,
+    ...(typeof event.correlationid === 'string' && {
+      correlationId: event.correlationid,
+    }),
+    ...(typeof event.causationid === 'string' && {
+      causationId: event.causationid,
+    }),
+  };
+}
+
+/**
+ * Encode a message envelope as a CloudEvent PubSub message
+ *
+ * @param envelope - The message envelope
+ * @param options - CloudEvent source and mode
+ * @returns The message data and CloudEvent attributes
+ * @throws EmmettError if a binary-mode attribute (e.g. emmettmetadata) exceeds
+ * the 1024-byte limit of PubSub attribute values
+ */
+export function encodeCloudEvent(
+  envelope: PubSubMessageEnvelope,
+  options: CloudEventsOptions,
+): { data: Buffer; attributes: Record<string, string> } {
+  const event = toCloudEvent(envelope, options.source);
+
+  if (options.mode === 'structured') {
+    return {
+      data: Buffer.from(JSON.stringify(event)),
+      attributes: { 'content-type': CLOUDEVENTS_CONTENT_TYPE },
+    };
+  }
+
+  const { data, datacontenttype, ...context } = event;
+  const attributes: Record<string, string> = {
+    ...(datacontenttype && { 'content-type': datacontenttype }),
+  };
+  for (const [name, value] of Object.entries(context)) {
+    if (value !== undefined) {
+      const attribute =
+        typeof value === 'string' ? value : JSON.stringify(value);
+      const bytes = Buffer.byteLength(attribute);
+      if (bytes > MAX_ATTRIBUTE_VALUE_BYTES) {
+        throw new EmmettError(
+          `CloudEvent attribute ${CLOUDEVENTS_ATTRIBUTE_PREFIX}${name} of ${envelope.type} is ${bytes} bytes, over the ${MAX_ATTRIBUTE_VALUE_BYTES}-byte limit of PubSub attribute values; use the structured mode`,
+        );
+      }
+      attributes[`${CLOUDEVENTS_ATTRIBUTE_PREFIX}${name}`] = attribute;
+    }
+  }
+
+  return { data: Buffer.from(JSON.stringify(data)), attributes };
+}
+
+/**
+ * Decode a CloudEvent PubSub message
+ *
+ * Binary-mode data is parsed as JSON when its datacontenttype (the
+ * content-type attribute) is JSON or missing, and kept as a Buffer otherwise.
+ *
+ * @param data - The message data
+ * @param attributes - The PubSub message attributes
+ * @returns The message envelope, or undefined if the message is not a CloudEvent
+ * @throws Error if the CloudEvent is invalid
+ */
+export function decodeCloudEvent(
+  data: Buffer,
+  attributes: Record<string, string> | undefined,
+): PubSubMessageEnvelope | undefined {
+  if (attributes?.['content-type']?.startsWith(CLOUDEVENTS_CONTENT_TYPE)) {
+    return fromCloudEvent(JSON.parse(data.toString('utf-8')) as CloudEvent);
+  }
+
+  if (!attributes?.[`${CLOUDEVENTS_ATTRIBUTE_PREFIX}specversion`]) {
+    return undefined;
+  }
+
+  const context: Record<string, string> = {};
+  for (const [name, value] of Object.entries(attributes)) {
+    if (name.startsWith(CLOUDEVENTS_ATTRIBUTE_PREFIX)) {
+      context[name.slice(CLOUDEVENTS_ATTRIBUTE_PREFIX.length)] = value;
+    }
+  }
+
+  const contentType = attributes['content-type'];
+  const isJson = !contentType || /[/+]json(;|$)/.test(contentType);
+
+  // Required attributes are checked by fromCloudEvent()
+  const event = {
+    ...context,
+    ...(contentType && { datacontenttype: contentType }),
+    data:
+      data.length === 0
+        ? undefined
+        : isJson
+          ? (JSON.parse(data.toString('utf-8')) as unknown)
+          : data,
+  } as CloudEvent;
+
+  return fromCloudEvent(event);
+}
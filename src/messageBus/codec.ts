@@ -0,0 +1,123 @@
+import { EmmettError } from '@event-driven-io/emmett';
+import type { PubSubMessageEnvelope } from './types';
+import type { EnvelopeCodec } from './topicSchema';
+
+/**
+ * Wire format of message envelopes
+ *
+ * The content type is sent as the contentType attribute, so consumers pick
+ * the codec a message was encoded with.
+ */
+export interface MessageCodec extends EnvelopeCodec {
+  /**
+   * MIME type of encoded envelopes (e.g. "application/json")
+   */
+  readonly contentType: string;
+}
+
+/**
+ * Binary encoder, such as the encode/decode functions of @msgpack/msgpack or
+ * cbor-x
+ */
+export interface BinaryEncoder {
+  /**
+   * Encode a value
+   */
+  encode(value: unknown): Uint8Array;
+
+  /**
+   * Decode a value
+   */
+  decode(data: Uint8Array): unknown;
+}
+
+/**
+ * Create a codec from a binary encoder
+ *
+ * @param contentType - MIME type of encoded envelopes
+ * @param encoder - The binary encoder
+ * @returns The codec
+ */
+function createBinaryCodec(
+  contentType: string,
+  encoder: BinaryEncoder,
+): MessageCodec {
+  return {
+    contentType,
+    encode: (envelope) => Buffer.from(encoder.encode(envelope)),
+    decode: (data) => encoder.decode(data) as PubSubMessageEnvelope,
+  };
+}
+
+/**
+ * Create a MessagePack codec
+ *
+ * Dates are written as MessagePack timestamps, readable without Emmett's
+ * Date markers.
+ *
+ * @param msgpack - MessagePack encoder
+ * @returns Codec with content type "application/msgpack"
+ *
+ * @example
+ * ```typescript
+ * import { encode, decode } from '@msgpack/msgpack';
+ *
+ * const messageBus = getPubSubMessageBus({
+ *   pubsub,
+ *   codec: createMessagePackCodec({ encode, decode }),
+ * });
+ * ```
+ */
+export function createMessagePackCodec(msgpack: BinaryEncoder): MessageCodec {
+  return createBinaryCodec('application/msgpack', msgpack);
+}
+
+/**
+ * Create a CBOR codec
+ *
+ * Dates are written as CBOR date/time tags, readable without Emmett's Date
+ * markers.
+ *
+ * @param cbor - CBOR encoder
+ * @returns Codec with content type "application/cbor"
+ *
+ * @example
+ * ```typescript
+ * import { encode, decode } from 'cbor-x';
+ *
+ * const messageBus = getPubSubMessageBus({
+ *   pubsub,
+ *   codec: createCborCodec({ encode, decode }),
+ * });
+ * ```
+ */
+export function createCborCodec(cbor: BinaryEncoder): MessageCodec {
+  return createBinaryCodec('application/cbor', cbor);
+}
+
+/**
+ * Find the codec of a received message
+ *
+ * @param contentType - The contentType attribute of the message
+ * @param codecs - Known codecs
+ * @param defaultCodec - Codec of messages without content type
+ * @returns The codec matching the content type
+ * @throws EmmettError if no codec matches the content type
+ */
+export function resolveMessageCodec(
+  contentType: string | undefined,
+  codecs: readonly MessageCodec[],
+  defaultCodec: MessageCodec,
+): MessageCodec {
+  if (!contentType) {
+    return defaultCodec;
+  }
+
+  const codec = codecs.find((known) => known.contentType === contentType);
+  if (!codec) {
+    throw new EmmettError(
+      `No codec registered for content type ${contentType}`,
+    );
+  }
+  return codec;
+}
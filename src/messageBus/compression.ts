@@ -0,0 +1,174 @@
+import {
+  brotliCompressSync,
+  brotliDecompressSync,
+  gunzipSync,
+  gzipSync,
+} from 'zlib';
+import { EmmettError } from '@event-driven-io/emmett';
+
+/**
+ * Compression algorithm, sent as the contentEncoding attribute
+ */
+export type CompressionAlgorithm = 'gzip' | 'br';
+
+/**
+ * Sizes of a published message payload
+ */
+export interface PayloadSizeMetrics {
+  /**
+   * Message type
+   */
+  messageType: string;
+
+  /**
+   * Size of the serialized envelope in bytes
+   */
+  originalBytes: number;
+
+  /**
+   * Size of the published message data in bytes
+   */
+  publishedBytes: number;
+
+  /**
+   * Algorithm the payload was compressed with (undefined if not compressed)
+   */
+  contentEncoding?: CompressionAlgorithm;
+}
+
+/**
+ * Compression of published message payloads
+ */
+export interface CompressionOptions {
+  /**
+   * Compression algorithm
+   * @default "gzip"
+   */
+  algorithm?: CompressionAlgorithm;
+
+  /**
+   * Minimum size in bytes of serialized envelopes to compress
+   * @default 1024
+   */
+  thresholdBytes?: number;
+
+  /**
+   * Called with the payload sizes of every published message, e.g. to record
+   * them as metrics
+   */
+  onMetrics?: (metrics: PayloadSizeMetrics) => void;
+}
+
+/**
+ * Default minimum size of compressed payloads: smaller payloads rarely shrink
+ */
+const DEFAULT_THRESHOLD_BYTES = 1024;
+
+/**
+ * Default maximum size of decompressed payloads: a few KB of compressed data
+ * can expand to gigabytes, which would exhaust the consumer's memory
+ */
+export const DEFAULT_MAX_DECOMPRESSED_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Report payload sizes to the metrics hook
+ *
+ * A failing hook is logged and never fails the publish.
+ *
+ * @param options - Compression options
+ * @param metrics - The payload sizes
+ */
+function reportMetrics(
+  options: CompressionOptions,
+  metrics: PayloadSizeMetrics,
+): void {
+  try {
+    options.onMetrics?.(metrics);
+  } catch (error) {
+    console.error(
+      'Payload metrics hook failed:',
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+/**
+ * Compress a serialized envelope if it reaches the threshold
+ *
+ * Payloads that don't get smaller are published uncompressed.
+ *
+ * @param messageType - The message type
+ * @param data - The serialized envelope
+ * @param options - Compression options
+ * @returns The data to publish, with its content encoding when compressed
+ */
+export function compressPayload(
+  messageType: string,
+  data: Buffer,
+  options: CompressionOptions,
+): { data: Buffer; contentEncoding?: CompressionAlgorithm } {
+  const algorithm = options.algorithm ?? 'gzip';
+  const thresholdBytes = options.thresholdBytes ?? DEFAULT_THRESHOLD_BYTES;
+
+  let result: { data: Buffer; contentEncoding?: CompressionAlgorithm } = {
+    data,
+  };
+
+  if (data.length >= thresholdBytes) {
+    const compressed =
+      algorithm === 'br' ? brotliCompressSync(data) : gzipSync(data);
+    if (compressed.length < data.length) {
+      result = { data: compressed, contentEncoding: algorithm };
+    }
+  }
+
+  reportMetrics(options, {
+    messageType,
+    originalBytes: data.length,
+    publishedBytes: result.data.length,
+    ...(result.contentEncoding && { contentEncoding: result.contentEncoding }),
+  });
+
+  return result;
+}
+
+/**
+ * Decompress message data according to its contentEncoding attribute
+ *
+ * @param data - The message data
+ * @param contentEncoding - The contentEncoding attribute (undefined if not compressed)
+ * @param maxDecompressedBytes - Maximum size of the decompressed data
+ * @returns The serialized envelope
+ * @throws EmmettError if the content encoding is not supported, or the
+ * decompressed data exceeds maxDecompressedBytes
+ */
+export function decompressPayload(
+  data: Buffer,
+  contentEncoding: string | undefined,
+  maxDecompressedBytes: number = DEFAULT_MAX_DECOMPRESSED_BYTES,
+): Buffer {
+  try {
+    switch (contentEncoding) {
+      case undefined:
+      case 'identity':
+        return data;
+      case 'gzip':
+        return gunzipSync(data, { maxOutputLength: maxDecompressedBytes });
+      case 'br':
+        return brotliDecompressSync(data, {
+          maxOutputLength: maxDecompressedBytes,
+        });
+      default:
+        throw new EmmettError(
+          `Unsupported content encoding ${contentEncoding}`,
+        );
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new EmmettError(
+        `Decompressed payload exceeds ${maxDecompressedBytes} bytes`,
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,230 @@
+import type { Message as PubSubMessage, Topic } from '@google-cloud/pubsub';
+import { EmmettError } from '@event-driven-io/emmett';
+
+/**
+ * Why a message was dead-lettered
+ *
+ * - "validation": the data does not match the message type schema
+ * - "signature": the message is unsigned or its signature is invalid
+ * - "decoding": the message cannot be decoded
+ * - "failure": handling the message failed with a permanent error
+ * - "max-delivery-attempts": handling the message failed with a retriable
+ *   error on its last delivery attempt
+ */
+export type DeadLetterReason =
+  'validation' | 'signature' | 'decoding' | 'failure' | 'max-delivery-attempts';
+
+/**
+ * How dead-letter topics are organized
+ *
+ * - "shared": one topic for all message types
+ * - "per-type": one topic per message type, so a poisoned message type can
+ *   be inspected and replayed on its own
+ */
+export type DeadLetterTopology = 'shared' | 'per-type';
+
+/**
+ * Dead-letter topics provisioned by the message bus
+ */
+export interface DeadLetterOptions {
+  /**
+   * Dead-letter to one topic (deadLetterTopic, or "<prefix>-dead-letters")
+   * or to one topic per message type ("<prefix>-dlq-cmd-<type>" and
+   * "<prefix>-dlq-evt-<type>")
+   * @default "shared"
+   */
+  topology?: DeadLetterTopology;
+
+  /**
+   * Delivery attempts before a message failing with a retriable error is
+   * dead-lettered (5 to 100). Set as the dead-letter policy of the
+   * subscriptions the bus creates, so Pub/Sub also dead-letters messages
+   * whose handling never completes.
+   * @default undefined (retriable failures are redelivered indefinitely)
+   */
+  maxDeliveryAttempts?: number;
+
+  /**
+   * Create a subscription on each dead-letter topic, named after the topic,
+   * so dead-lettered messages are kept until read. When disabled, start()
+   * fails for dead-letter topics without any subscription.
+   * @default true
+   */
+  createSubscriptions?: boolean;
+
+  /**
+   * Pub/Sub service agent of the project
+   * (service-<project number>@gcp-sa-pubsub.iam.gserviceaccount.com), granted
+   * roles/pubsub.publisher on the dead-letter topics and
+   * roles/pubsub.subscriber on the subscriptions forwarding to them, which
+   * Pub/Sub requires to apply maxDeliveryAttempts. Failed grants (e.g. on the
+   * emulator or without the setIamPolicy permission) are logged.
+   * @default undefined (permissions are granted outside the message bus)
+   */
+  serviceAccount?: string;
+}
+
+/**
+ * Check dead-letter options against the limits of Pub/Sub dead-letter policies
+ *
+ * @param options - The dead-letter options
+ * @param deadLetterTopic - Name of the shared dead-letter topic, if configured
+ * @throws EmmettError if maxDeliveryAttempts is out of range, or a shared
+ * topic name is configured with per-type topics
+ */
+export function assertDeadLetterOptions(
+  options: DeadLetterOptions,
+  deadLetterTopic?: string,
+): void {
+  const { maxDeliveryAttempts } = options;
+  if (
+    maxDeliveryAttempts !== undefined &&
+    (!Number.isInteger(maxDeliveryAttempts) ||
+      maxDeliveryAttempts < 5 ||
+      maxDeliveryAttempts > 100)
+  ) {
+    throw new EmmettError(
+      `maxDeliveryAttempts must be an integer between 5 and 100, got ${maxDeliveryAttempts}`,
+    );
+  }
+
+  if (options.topology === 'per-type' && deadLetterTopic) {
+    throw new EmmettError(
+      `deadLetterTopic ${deadLetterTopic} cannot be used with per-type dead-letter topics`,
+    );
+  }
+}
+
+/**
+ * Details of a dead-lettered message
+ */
+export interface DeadLetterDetails {
+  /**
+   * Why the message was dead-lettered
+   */
+  reason: DeadLetterReason;
+
+  /**
+   * The error that rejected the message
+   */
+  error: Error;
+
+  /**
+   * Subscription the message was received on
+   */
+  subscriptionName?: string;
+
+  /**
+   * Name of the handler that failed
+   */
+  handlerName?: string;
+
+  /**
+   * Delivery attempt of the message (0 unless the subscription has a
+   * dead-letter policy)
+   */
+  deliveryAttempt?: number;
+}
+
+/**
+ * Move a rejected incoming message to a dead-letter destination
+ *
+ * Resolves once the message is stored; a rejection leaves the message to be
+ * redelivered.
+ */
+export type DeadLetterHandler = (
+  message: PubSubMessage,
+  details: DeadLetterDetails,
+) => Promise<void>;
+
+/**
+ * PubSub attributes describing why a message was dead-lettered
+ */
+export const DEAD_LETTER_ATTRIBUTES = {
+  reason: 'deadLetterReason',
+  error: 'deadLetterError',
+  errorStack: 'deadLetterErrorStack',
+  subscription: 'deadLetterSubscription',
+  handler: 'deadLetterHandler',
+  deliveryAttempt: 'deadLetterDeliveryAttempt',
+} as const;
+
+/**
+ * Maximum length of the error attributes (PubSub limits values to 1024 bytes)
+ */
+export const MAX_ERROR_ATTRIBUTE_LENGTH = 500;
+
+/**
+ * Prefix of the attributes Pub/Sub adds to messages forwarded by a
+ * subscription dead-letter policy (e.g. CloudPubSubDeadLetterSourceSubscription)
+ */
+export const PUBSUB_DEAD_LETTER_ATTRIBUTE_PREFIX = 'CloudPubSubDeadLetter';
+
+/**
+ * Remove the attributes added when a message was dead-lettered
+ *
+ * @param attributes - Attributes of a dead-lettered message
+ * @returns The original attributes of the message
+ */
+export function stripDeadLetterAttributes(
+  attributes: Record<string, string> | undefined,
+): Record<string, string> {
+  const deadLetterAttributes: readonly string[] = Object.values(
+    DEAD_LETTER_ATTRIBUTES,
+  );
+
+  return Object.fromEntries(
+    Object.entries(attributes ?? {}).filter(
+      ([name]) =>
+        !deadLetterAttributes.includes(name) &&
+        !name.startsWith(PUBSUB_DEAD_LETTER_ATTRIBUTE_PREFIX),
+    ),
+  );
+}
+
+/**
+ * Publish a rejected message to a dead-letter topic
+ *
+ * The original data and attributes are kept, so the message can be inspected
+ * and replayed, and DEAD_LETTER_ATTRIBUTES are added (replacing those of an
+ * earlier dead-lettering). Error messages and stacks are truncated to
+ * MAX_ERROR_ATTRIBUTE_LENGTH.
+ *
+ * @param topic - The dead-letter topic
+ * @param message - The rejected PubSub message
+ * @param details - Why the message was rejected
+ */
+export async function publishToDeadLetterTopic(
+  topic: Topic,
+  message: PubSubMessage,
+  details: DeadLetterDetails,
+): Promise<void> {
+  await topic.publishMessage({
+    data: message.data,
+    attributes: {
+      ...stripDeadLetterAttributes(message.attributes),
+      [DEAD_LETTER_ATTRIBUTES.reason]: details.reason,
+      [DEAD_LETTER_ATTRIBUTES.error]: details.error.message.slice(
+        0,
+        MAX_ERROR_ATTRIBUTE_LENGTH,
+      ),
+      ...(details.error.stack && {
+        [DEAD_LETTER_ATTRIBUTES.errorStack]: details.error.stack.slice(
+          0,
+          MAX_ERROR_ATTRIBUTE_LENGTH,
+        ),
+      }),
+      ...(details.subscriptionName && {
+        [DEAD_LETTER_ATTRIBUTES.subscription]: details.subscriptionName,
+      }),
+      ...(details.handlerName && {
+        [DEAD_LETTER_ATTRIBUTES.handler]: details.handlerName,
+      }),
+      ...(details.deliveryAttempt && {
+        [DEAD_LETTER_ATTRIBUTES.deliveryAttempt]: String(
+          details.deliveryAttempt,
+        ),
+      }),
+    },
+  });
+}
@@ -0,0 +1,652 @@
+import type { PubSub } from '@google-cloud/pubsub';
+import type { Command, Event } from '@event-driven-io/emmett';
+import { EmmettError } from '@event-driven-io/emmett';
+import type { MessageCodec } from './codec';
+import type { BlobStore } from './claimCheck';
+import type { KeyProvider } from './encryption';
+import type { DeadLetterReason } from './deadLetter';
+import {
+  DEAD_LETTER_ATTRIBUTES,
+  stripDeadLetterAttributes,
+} from './deadLetter';
+import type {
+  MessageKind,
+  MessageTypeDefinitions,
+} from './messageTypeRegistry';
+import { MessageTypeRegistry } from './messageTypeRegistry';
+import type { ReceivedMessage } from './messageHandler';
+import { decodeReceivedMessage } from './messageHandler';
+import { isReservedAttribute } from './serialization';
+import type { PubSubMessagePublishing } from './types';
+import {
+  getCommandTopicName,
+  getDeadLetterSubscriptionName,
+  getEventTopicName,
+  getSharedDeadLetterTopicName,
+} from './topicManager';
+
+/**
+ * Number of messages requested per pull
+ */
+const PULL_BATCH_SIZE = 100;
+
+/**
+ * Dead-letter manager configuration
+ */
+export interface DeadLetterManagerConfig {
+  /**
+   * PubSub client instance
+   */
+  pubsub: PubSub;
+
+  /**
+   * Topic prefix of the message bus, naming the topics messages are replayed
+   * to
+   * @default "emmett"
+   */
+  topicPrefix?: string;
+
+  /**
+   * Subscription of the dead-letter topic to read, e.g.
+   * getDeadLetterSubscriptionName(getDeadLetterTopicName(type, kind, prefix))
+   * for per-type dead-letter topics
+   * @default the subscription of the shared dead-letter topic
+   */
+  subscriptionName?: string;
+
+  /**
+   * Declared message types, for topic schema codecs, upcasters and inbound
+   * topics
+   * @default {}
+   */
+  messageTypes?: MessageTypeDefinitions;
+
+  /**
+   * Codecs of dead-lettered messages, selected by their contentType attribute
+   * (JSON is always known)
+   */
+  codecs?: readonly MessageCodec[];
+
+  /**
+   * Store of claim-checked payloads
+   */
+  claimCheckStore?: BlobStore;
+
+  /**
+   * Key provider unwrapping the data keys of encrypted messages
+   */
+  keyProvider?: KeyProvider;
+
+  /**
+   * Message bus publishing edited messages, so they are encoded, encrypted
+   * and signed like any other (required to replay with edit)
+   */
+  messageBus?: PubSubMessagePublishing;
+}
+
+/**
+ * Message read from a dead-letter topic
+ */
+export interface DeadLetteredMessage {
+  /**
+   * PubSub message ID on the dead-letter topic, selecting the message with
+   * DeadLetterQuery.messageIds
+   */
+  id: string;
+
+  /**
+   * Type of the original message, if known
+   */
+  messageType?: string;
+
+  /**
+   * Kind of the original message, if its type is known
+   */
+  kind?: MessageKind;
+
+  /**
+   * The decoded message, unless it cannot be decoded
+   */
+  message?: Command | Event;
+
+  /**
+   * Why the message cannot be decoded
+   */
+  decodingError?: string;
+
+  /**
+   * Message data, as dead-lettered
+   */
+  data: Buffer;
+
+  /**
+   * Original attributes of the message, without dead-letter attributes
+   */
+  attributes: Record<string, string>;
+
+  /**
+   * Why the message was dead-lettered (missing for messages forwarded by a
+   * Pub/Sub dead-letter policy)
+   */
+  reason?: DeadLetterReason;
+
+  /**
+   * Message of the error that dead-lettered the message (truncated)
+   */
+  error?: string;
+
+  /**
+   * Stack of the error that dead-lettered the message (truncated)
+   */
+  errorStack?: string;
+
+  /**
+   * Name of the handler that failed
+   */
+  handlerName?: string;
+
+  /**
+   * Subscription the message was received on
+   */
+  subscriptionName?: string;
+
+  /**
+   * Delivery attempt of the message when it was dead-lettered
+   */
+  deliveryAttempt?: number;
+
+  /**
+   * When the message was dead-lettered
+   */
+  deadLetteredAt?: Date;
+}
+
+/**
+ * Selection of dead-lettered messages
+ *
+ * Messages match when they match every criterion set.
+ */
+export interface DeadLetterQuery {
+  /**
+   * Message types to select
+   */
+  messageTypes?: string[];
+
+  /**
+   * Dead-letter reasons to select
+   */
+  reasons?: DeadLetterReason[];
+
+  /**
+   * Text contained in, or pattern matching, the dead-letter error
+   */
+  error?: string | RegExp;
+
+  /**
+   * IDs of the messages to select, as read by peek()
+   */
+  messageIds?: string[];
+
+  /**
+   * Maximum number of dead-lettered messages read, matching or not
+   * @default 100
+   */
+  maxMessages?: number;
+}
+
+/**
+ * Options for replaying dead-lettered messages
+ */
+export interface DeadLetterReplayOptions {
+  /**
+   * Edit messages before replaying them, e.g. to fix invalid data. Returning
+   * undefined replays the message unchanged. Edited messages are sent or
+   * published by the configured messageBus with a new message ID, caused by
+   * the original one.
+   */
+  edit?: (
+    message: DeadLetteredMessage,
+  ) => Command | Event | undefined | Promise<Command | Event | undefined>;
+}
+
+/**
+ * Protobuf timestamp, with seconds as a number, string or Long depending on
+ * the client options
+ */
+interface ProtobufTimestamp {
+  seconds?: number | string | { toString(): string } | null;
+  nanos?: number | null;
+}
+
+/**
+ * Message pulled from the dead-letter subscription
+ */
+interface PulledMessage {
+  ackId?: string | null;
+  message?: {
+    messageId?: string | null;
+    data?: Uint8Array | string | null;
+    attributes?: Record<string, string> | null;
+    publishTime?: ProtobufTimestamp | null;
+    orderingKey?: string | null;
+  } | null;
+}
+
+/**
+ * Dead-lettered message with the ack ID it was pulled with
+ */
+interface PulledDeadLetter {
+  ackId: string;
+  deadLetter: DeadLetteredMessage;
+}
+
+/**
+ * Check whether a dead-lettered message matches a query
+ *
+ * @param deadLetter - The dead-lettered message
+ * @param query - The query
+ * @returns true if the message matches every criterion of the query
+ */
+function matchesQuery(
+  deadLetter: DeadLetteredMessage,
+  query: DeadLetterQuery,
+): boolean {
+  if (
+    query.messageTypes &&
+    !query.messageTypes.includes(deadLetter.messageType ?? '')
+  ) {
+    return false;
+  }
+  if (
+    query.reasons &&
+    (!deadLetter.reason || !query.reasons.includes(deadLetter.reason))
+  ) {
+    return false;
+  }
+  if (query.messageIds && !query.messageIds.includes(deadLetter.id)) {
+    return false;
+  }
+  if (query.error !== undefined) {
+    const error = deadLetter.error ?? '';
+    return typeof query.error === 'string'
+      ? error.includes(query.error)
+      : query.error.test(error);
+  }
+  return true;
+}
+
+/**
+ * Convert a protobuf timestamp to a date
+ *
+ * @param timestamp - Seconds (number, string or Long) and nanoseconds
+ * @returns The date, or undefined without a timestamp
+ */
+function toDate(
+  timestamp: ProtobufTimestamp | null | undefined,
+): Date | undefined {
+  if (!timestamp || timestamp.seconds == null) {
+    return undefined;
+  }
+  return new Date(
+    Number(String(timestamp.seconds)) * 1000 +
+      Math.floor((timestamp.nanos ?? 0) / 1e6),
+  );
+}
+
+/**
+ * Inspects the messages of a dead-letter topic and replays them to the topics
+ * they were consumed from
+ *
+ * Messages are read from the dead-letter subscription with synchronous pulls.
+ * peek() releases them right away; replay() acknowledges the messages it
+ * replayed and releases the others. Replayed messages keep their data and
+ * attributes (and so their message ID and signature), without the dead-letter
+ * attributes and ordering key.
+ *
+ * @example
+ * ```typescript
+ * const deadLetters = new DeadLetterManager({ pubsub, topicPrefix: 'myapp' });
+ *
+ * const failed = await deadLetters.peek({ messageTypes: ['AddProductItem'] });
+ * for (const { id, error, handlerName } of failed) {
+ *   console.log(id, handlerName, error);
+ * }
+ *
+ * // Once the handler is fixed
+ * await deadLetters.replay({ messageIds: failed.map(({ id }) => id) });
+ * ```
+ */
+export class DeadLetterManager {
+  private readonly pubsub: PubSub;
+  private readonly topicPrefix: string;
+  private readonly subscriptionName: string;
+  private readonly messageTypes: MessageTypeRegistry;
+  private readonly codecs?: readonly MessageCodec[];
+  private readonly claimCheckStore?: BlobStore;
+  private readonly keyProvider?: KeyProvider;
+  private readonly messageBus?: PubSubMessagePublishing;
+
+  constructor(config: DeadLetterManagerConfig) {
+    this.pubsub = config.pubsub;
+    this.topicPrefix = config.topicPrefix ?? 'emmett';
+    this.subscriptionName =
+      config.subscriptionName ??
+      getDeadLetterSubscriptionName(
+        getSharedDeadLetterTopicName(this.topicPrefix),
+      );
+    this.messageTypes = new MessageTypeRegistry(config.messageTypes);
+    this.codecs = config.codecs;
+    this.claimCheckStore = config.claimCheckStore;
+    this.keyProvider = config.keyProvider;
+    this.messageBus = config.messageBus;
+  }
+
+  /**
+   * Read dead-lettered messages without removing them
+   *
+   * @param query - Messages to return
+   * @returns The matching messages, decoded when possible
+   */
+  async peek(query: DeadLetterQuery = {}): Promise<DeadLetteredMessage[]> {
+    const pulled = await this.pull(query.maxMessages);
+
+    try {
+      return pulled
+        .map(({ deadLetter }) => deadLetter)
+        .filter((deadLetter) => matchesQuery(deadLetter, query));
+    } finally {
+      await this.release(pulled);
+    }
+  }
+
+  /**
+   * Replay dead-lettered messages to the command or event topic of their
+   * type, and remove them from the dead-letter topic
+   *
+   * Messages are replayed one by one; if one fails, the messages replayed
+   * before it are removed and the error is thrown.
+   *
+   * Unedited messages keep their message ID, so subscriptions whose
+   * idempotency store recorded it skip them, and events reach every consumer
+   * group of their topic, not only the one they were dead-lettered from.
+   * Edited messages get a new message ID caused by the original one.
+   *
+   * @param query - Messages to replay
+   * @param options - Edits of the replayed messages
+   * @returns The replayed messages
+   * @throws EmmettError if a matching message has no known type (nothing is
+   * replayed), or is edited without a messageBus
+   */
+  async replay(
+    query: DeadLetterQuery = {},
+    options: DeadLetterReplayOptions = {},
+  ): Promise<DeadLetteredMessage[]> {
+    const pulled = await this.pull(query.maxMessages);
+    const replayed: PulledDeadLetter[] = [];
+
+    try {
+      // Resolve all topics first, so nothing is replayed if one is unknown
+      const selected = pulled
+        .filter(({ deadLetter }) => matchesQuery(deadLetter, query))
+        .map((entry) => ({
+          entry,
+          topicName: this.getReplayTopicName(entry.deadLetter),
+        }));
+
+      for (const { entry, topicName } of selected) {
+        const edited = await options.edit?.(entry.deadLetter);
+        if (edited) {
+          await this.republishEdited(entry.deadLetter, edited);
+        } else {
+          await this.pubsub.topic(topicName).publishMessage({
+            data: entry.deadLetter.data,
+            attributes: entry.deadLetter.attributes,
+          });
+        }
+        replayed.push(entry);
+      }
+
+      return replayed.map(({ deadLetter }) => deadLetter);
+    } finally {
+      await this.acknowledge(replayed);
+      await this.release(pulled.filter((entry) => !replayed.includes(entry)));
+    }
+  }
+
+  /**
+   * Get the topic a dead-lettered message was consumed from
+   *
+   * @param deadLetter - The dead-lettered message
+   * @returns The command or event topic of its type, or the inbound topic of
+   * events of other producers
+   * @throws EmmettError if the message has no known type
+   */
+  private getReplayTopicName(deadLetter: DeadLetteredMessage): string {
+    const { messageType } = deadLetter;
+    if (!messageType) {
+      throw new EmmettError(
+        `Dead-lettered message ${deadLetter.id} has no message type and cannot be replayed`,
+      );
+    }
+
+    return deadLetter.kind === 'command'
+      ? getCommandTopicName(messageType, this.topicPrefix)
+      : (this.messageTypes.getInboundTopic(messageType) ??
+          getEventTopicName(messageType, this.topicPrefix));
+  }
+
+  /**
+   * Send or publish an edited dead-lettered message with the message bus
+   *
+   * @param deadLetter - The dead-lettered message
+   * @param edited - The edited message
+   * @throws EmmettError without a messageBus
+   */
+  private async republishEdited(
+    deadLetter: DeadLetteredMessage,
+    edited: Command | Event,
+  ): Promise<void> {
+    if (!this.messageBus) {
+      throw new EmmettError(
+        `Cannot replay edited message ${deadLetter.id} without a messageBus`,
+      );
+    }
+
+    const metadata = (deadLetter.message as { metadata?: unknown } | undefined)
+      ?.metadata as { messageId?: string; correlationId?: string } | undefined;
+    const attributes = Object.fromEntries(
+      Object.entries(deadLetter.attributes).filter(
+        ([name]) => !isReservedAttribute(name),
+      ),
+    );
+    const options = {
+      correlationId: metadata?.correlationId,
+      causationId: metadata?.messageId,
+      attributes,
+    };
+
+    if (deadLetter.kind === 'command') {
+      await this.messageBus.send(edited as Command, options);
+    } else {
+      await this.messageBus.publish(edited as Event, options);
+    }
+  }
+
+  /**
+   * Pull messages from the dead-letter subscription, holding them until they
+   * are acknowledged or released
+   *
+   * @param maxMessages - Maximum number of messages to pull
+   * @returns The pulled messages
+   */
+  private async pull(maxMessages = 100): Promise<PulledDeadLetter[]> {
+    const pulled: PulledDeadLetter[] = [];
+    const ids = new Set<string>();
+
+    while (pulled.length < maxMessages) {
+      const batch = await this.request<{ receivedMessages?: PulledMessage[] }>(
+        'pull',
+        {
+          maxMessages: Math.min(PULL_BATCH_SIZE, maxMessages - pulled.length),
+          returnImmediately: true,
+        },
+      );
+      const received = batch?.receivedMessages ?? [];
+      if (received.length === 0) {
+        break;
+      }
+
+      for (const { ackId, message } of received) {
+        const id = message?.messageId ?? '';
+        if (!ackId || ids.has(id)) {
+          continue;
+        }
+        ids.add(id);
+        pulled.push({
+          ackId,
+          deadLetter: await this.toDeadLetteredMessage(id, message ?? {}),
+        });
+      }
+    }
+
+    return pulled;
+  }
+
+  /**
+   * Read a pulled message and its dead-letter attributes
+   *
+   * @param id - PubSub message ID on the dead-letter topic
+   * @param message - The pulled message
+   * @returns The dead-lettered message
+   */
+  private async toDeadLetteredMessage(
+    id: string,
+    message: NonNullable<PulledMessage['message']>,
+  ): Promise<DeadLetteredMessage> {
+    const deadLetterAttributes = message.attributes ?? {};
+    const attributes = stripDeadLetterAttributes(deadLetterAttributes);
+    const data = Buffer.from(message.data ?? '');
+    const messageType = attributes.messageType;
+    const attributeKind = attributes.messageKind;
+    const kind =
+      attributeKind === 'command' || attributeKind === 'event'
+        ? attributeKind
+        : messageType
+          ? this.messageTypes.resolveKind(messageType)
+          : undefined;
+    const deliveryAttempt =
+      deadLetterAttributes[DEAD_LETTER_ATTRIBUTES.deliveryAttempt] ??
+      deadLetterAttributes.CloudPubSubDeadLetterSourceDeliveryCount;
+
+    const deadLetter: DeadLetteredMessage = {
+      id,
+      ...(messageType && { messageType }),
+      ...(kind && { kind }),
+      data,
+      attributes,
+      reason: deadLetterAttributes[DEAD_LETTER_ATTRIBUTES.reason] as
+        DeadLetterReason | undefined,
+      error: deadLetterAttributes[DEAD_LETTER_ATTRIBUTES.error],
+      errorStack: deadLetterAttributes[DEAD_LETTER_ATTRIBUTES.errorStack],
+      handlerName: deadLetterAttributes[DEAD_LETTER_ATTRIBUTES.handler],
+      subscriptionName:
+        deadLetterAttributes[DEAD_LETTER_ATTRIBUTES.subscription] ??
+        deadLetterAttributes.CloudPubSubDeadLetterSourceSubscription,
+      deliveryAttempt: deliveryAttempt ? Number(deliveryAttempt) : undefined,
+      deadLetteredAt: toDate(message.publishTime),
+    };
+
+    if (!messageType) {
+      return deadLetter;
+    }
+
+    const received: ReceivedMessage = {
+      id,
+      data,
+      attributes,
+      ...(message.orderingKey && { orderingKey: message.orderingKey }),
+    };
+
+    try {
+      const { message: decoded } = await decodeReceivedMessage(
+        received,
+        messageType,
+        {
+          messageTypes: this.messageTypes,
+          codecs: this.codecs,
+          claimCheckStore: this.claimCheckStore,
+          keyProvider: this.keyProvider,
+        },
+      );
+      return { ...deadLetter, message: decoded };
+    } catch (error) {
+      return {
+        ...deadLetter,
+        decodingError: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Acknowledge pulled messages, removing them from the dead-letter topic
+   *
+   * @param pulled - The messages
+   */
+  private async acknowledge(pulled: PulledDeadLetter[]): Promise<void> {
+    if (pulled.length === 0) {
+      return;
+    }
+    await this.request('acknowledge', {
+      ackIds: pulled.map(({ ackId }) => ackId),
+    });
+  }
+
+  /**
+   * Release pulled messages, so they can be read again right away
+   *
+   * A failure is logged rather than thrown: the messages are released anyway
+   * once their ack deadline expires.
+   *
+   * @param pulled - The messages
+   */
+  private async release(pulled: PulledDeadLetter[]): Promise<void> {
+    if (pulled.length === 0) {
+      return;
+    }
+    try {
+      await this.request('modifyAckDeadline', {
+        ackIds: pulled.map(({ ackId }) => ackId),
+        ackDeadlineSeconds: 0,
+      });
+    } catch (error) {
+      console.warn(
+        `Failed to release dead-lettered messages: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Call a method of the subscriber API on the dead-letter subscription
+   *
+   * @param method - The method (e.g. "pull")
+   * @param reqOpts - Request options besides the subscription
+   * @returns The response
+   */
+  private request<T>(
+    method: string,
+    reqOpts: object,
+  ): Promise<T | null | undefined> {
+    const subscription = this.pubsub.subscription(this.subscriptionName).name;
+
+    return new Promise((resolve, reject) => {
+      this.pubsub.request<T>(
+        {
+          client: 'SubscriberClient',
+          method,
+          reqOpts: { subscription, ...reqOpts },
+        },
+        (error, response) => (error ? reject(error) : resolve(response)),
+      );
+    });
+  }
+}
@@ -0,0 +1,265 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { EmmettError } from '@event-driven-io/emmett';
+
+/**
+ * Wraps and unwraps per-message data keys with key encryption keys, e.g. held
+ * in Cloud KMS
+ *
+ * @example
+ * ```typescript
+ * import { KeyManagementServiceClient } from '@google-cloud/kms';
+ *
+ * const kms = new KeyManagementServiceClient();
+ * const keyName = kms.cryptoKeyPath(project, 'global', 'pubsub', 'messages');
+ *
+ * const keyProvider: KeyProvider = {
+ *   wrapKey: async (dataKey) => {
+ *     const [result] = await kms.encrypt({ name: keyName, plaintext: dataKey });
+ *     return { keyId: keyName, wrappedKey: Buffer.from(result.ciphertext as Uint8Array) };
+ *   },
+ *   unwrapKey: async (wrappedKey, keyId) => {
+ *     const [result] = await kms.decrypt({ name: keyId, ciphertext: wrappedKey });
+ *     return Buffer.from(result.plaintext as Uint8Array);
+ *   },
+ * };
+ * ```
+ */
+export interface KeyProvider {
+  /**
+   * Encrypt a data key with the current key encryption key
+   *
+   * @param dataKey - The 256-bit data key
+   * @returns ID of the key encryption key and the wrapped data key
+   */
+  wrapKey(dataKey: Buffer): Promise<{ keyId: string; wrappedKey: Buffer }>;
+
+  /**
+   * Decrypt a data key
+   *
+   * @param wrappedKey - The wrapped data key
+   * @param keyId - ID of the key encryption key it was wrapped with
+   * @returns The data key
+   */
+  unwrapKey(wrappedKey: Buffer, keyId: string): Promise<Buffer>;
+}
+
+/**
+ * Envelope encryption of message data
+ */
+export interface EncryptionOptions {
+  /**
+   * Provider of the key encryption keys
+   */
+  keyProvider: KeyProvider;
+}
+
+/**
+ * Encryption of a message type's data
+ */
+export interface MessageTypeEncryption extends EncryptionOptions {
+  /**
+   * Encrypted data paths
+   * @default the whole data
+   */
+  paths?: readonly string[];
+}
+
+/**
+ * Per-message data key
+ */
+export interface DataKey {
+  /**
+   * The plaintext 256-bit key, never published
+   */
+  key: Buffer;
+
+  /**
+   * ID of the key encryption key, sent as the encryptionKeyId attribute
+   */
+  keyId: string;
+
+  /**
+   * The wrapped key, sent base64-encoded as the encryptedDataKey attribute
+   */
+  wrappedKey: Buffer;
+}
+
+/**
+ * Type marker of encrypted values in message data
+ */
+export const ENCRYPTED_VALUE_TYPE = 'Encrypted';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const AUTH_TAG_BYTES = 16;
+
+/**
+ * Encrypt bytes with AES-256-GCM
+ *
+ * @param key - 256-bit key
+ * @param plaintext - The bytes to encrypt
+ * @param aad - Additional authenticated data
+ * @returns Base64 of IV, authentication tag and ciphertext
+ */
+export function encryptBytes(
+  key: Buffer,
+  plaintext: Buffer,
+  aad: string,
+): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+    'base64',
+  );
+}
+
+/**
+ * Decrypt bytes encrypted by encryptBytes()
+ *
+ * @param key - 256-bit key
+ * @param encrypted - Base64 of IV, authentication tag and ciphertext
+ * @param aad - Additional authenticated data
+ * @returns The plaintext
+ * @throws EmmettError if the data is too short to hold a full authentication
+ * tag
+ * @throws Error if the key or AAD is wrong, or the data was tampered with
+ */
+export function decryptBytes(
+  key: Buffer,
+  encrypted: string,
+  aad: string,
+): Buffer {
+  const bytes = Buffer.from(encrypted, 'base64');
+  // GCM accepts truncated tags, which are much easier to forge
+  if (bytes.length < IV_BYTES + AUTH_TAG_BYTES) {
+    throw new EmmettError(
+      `Cannot decrypt data without a ${AUTH_TAG_BYTES}-byte authentication tag`,
+    );
+  }
+  const iv = bytes.subarray(0, IV_BYTES);
+  const authTag = bytes.subarray(IV_BYTES, IV_BYTES + AUTH_TAG_BYTES);
+  const decipher = createDecipheriv(ALGORITHM, key, iv, {
+    authTagLength: AUTH_TAG_BYTES,
+  });
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([
+    decipher.update(bytes.subarray(IV_BYTES + AUTH_TAG_BYTES)),
+    decipher.final(),
+  ]);
+}
+
+/**
+ * Generate a data key for one message and wrap it
+ *
+ * @param keyProvider - Provider of the key encryption keys
+ * @returns The data key
+ */
+export async function createDataKey(
+  keyProvider: KeyProvider,
+): Promise<DataKey> {
+  const key = randomBytes(KEY_BYTES);
+  const { keyId, wrappedKey } = await keyProvider.wrapKey(key);
+  return { key, keyId, wrappedKey };
+}
+
+/**
+ * Unwrap the data key of a received message
+ *
+ * @param attributes - The PubSub message attributes
+ * @param keyProvider - Provider of the key encryption keys
+ * @returns The data key, or undefined if the message is not encrypted
+ * @throws EmmettError if the message is encrypted but no key provider is configured
+ */
+export async function unwrapDataKey(
+  attributes: Record<string, string> | undefined,
+  keyProvider: KeyProvider | undefined,
+): Promise<Buffer | undefined> {
+  const encryptedDataKey = attributes?.encryptedDataKey;
+  if (!encryptedDataKey) {
+    return undefined;
+  }
+  if (!keyProvider) {
+    throw new EmmettError(
+      'Message is encrypted, but no encryption key provider is configured',
+    );
+  }
+  return keyProvider.unwrapKey(
+    Buffer.from(encryptedDataKey, 'base64'),
+    attributes.encryptionKeyId ?? '',
+  );
+}
+
+/**
+ * Key provider wrapping data keys with local AES-256 keys
+ *
+ * Keys are identified by ID; new data keys are wrapped with the current key,
+ * while keys of older messages stay available for unwrapping, so keys can be
+ * rotated by adding a key and making it current.
+ *
+ * @example
+ * ```typescript
+ * const keyProvider = new LocalKeyProvider(
+ *   {
+ *     '2024-01': Buffer.from(process.env.MESSAGE_KEY_2024_01!, 'base64'),
+ *     '2024-06': Buffer.from(process.env.MESSAGE_KEY_2024_06!, 'base64'),
+ *   },
+ *   '2024-06',
+ * );
+ * ```
+ */
+export class LocalKeyProvider implements KeyProvider {
+  private readonly keys: Map<string, Buffer>;
+
+  /**
+   * @param keys - 256-bit key encryption keys by ID
+   * @param currentKeyId - ID of the key wrapping new data keys
+   * @throws EmmettError if a key is not 256 bits or the current key is missing
+   */
+  constructor(
+    keys: Record<string, Buffer>,
+    private readonly currentKeyId: string,
+  ) {
+    this.keys = new Map(Object.entries(keys));
+
+    for (const [keyId, key] of this.keys) {
+      if (key.length !== KEY_BYTES) {
+        throw new EmmettError(`Encryption key ${keyId} must be 256 bits`);
+      }
+    }
+    if (!this.keys.has(currentKeyId)) {
+      throw new EmmettError(`Unknown current encryption key ${currentKeyId}`);
+    }
+  }
+
+  wrapKey(dataKey: Buffer): Promise<{ keyId: string; wrappedKey: Buffer }> {
+    const wrappedKey = Buffer.from(
+      encryptBytes(this.getKey(this.currentKeyId), dataKey, this.currentKeyId),
+      'base64',
+    );
+    return Promise.resolve({ keyId: this.currentKeyId, wrappedKey });
+  }
+
+  unwrapKey(wrappedKey: Buffer, keyId: string): Promise<Buffer> {
+    // Unknown keys and corrupted data keys reject instead of throwing
+    return new Promise((resolve) =>
+      resolve(
+        decryptBytes(this.getKey(keyId), wrappedKey.toString('base64'), keyId),
+      ),
+    );
+  }
+
+  /**
+   * Get a key encryption key by ID
+   */
+  private getKey(keyId: string): Buffer {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new EmmettError(`Unknown encryption key ${keyId}`);
+    }
+    return key;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Storage for IDs of messages that were already processed
+ *
+ * Used to skip messages redelivered by PubSub (at-least-once delivery). Keys
+ * combine the subscription name and the message ID, so the same event is
+ * processed once per subscription. Deployments with several instances need a
+ * store shared by all of them (e.g. Firestore or Redis) for shared command
+ * subscriptions and consumer groups.
+ */
+export interface IdempotencyStore {
+  /**
+   * Check whether a message was already processed
+   *
+   * @param key - Subscription-scoped message key
+   */
+  isProcessed(key: string): Promise<boolean>;
+
+  /**
+   * Record a message as processed
+   *
+   * @param key - Subscription-scoped message key
+   */
+  markProcessed(key: string): Promise<void>;
+}
+
+/**
+ * Idempotency store keeping the most recently processed message keys in memory
+ *
+ * Evicts the least recently used keys once maxEntries is reached, so
+ * redeliveries arriving after many other messages are not detected.
+ *
+ * @example
+ * ```typescript
+ * const messageBus = getPubSubMessageBus({
+ *   pubsub,
+ *   idempotencyStore: new InMemoryIdempotencyStore(50000),
+ * });
+ * ```
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  // Map iteration order is insertion order, oldest first
+  private readonly keys = new Map<string, true>();
+
+  constructor(private readonly maxEntries = 10000) {}
+
+  isProcessed(key: string): Promise<boolean> {
+    if (!this.keys.has(key)) {
+      return Promise.resolve(false);
+    }
+
+    // Refresh the key as most recently used
+    this.keys.delete(key);
+    this.keys.set(key, true);
+    return Promise.resolve(true);
+  }
+
+  markProcessed(key: string): Promise<void> {
+    this.keys.delete(key);
+    this.keys.set(key, true);
+
+    while (this.keys.size > this.maxEntries) {
+      const oldest = this.keys.keys().next().value as string;
+      this.keys.delete(oldest);
+    }
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Get count of remembered message keys
+   *
+   * @returns Number of keys
+   */
+  size(): number {
+    return this.keys.size;
+  }
+}
+
+/**
+ * Build the idempotency key of a message
+ *
+ * @param subscriptionName - Name of the subscription the message was received on
+ * @param messageId - The message ID
+ * @returns Subscription-scoped message key
+ */
+export function getIdempotencyKey(
+  subscriptionName: string,
+  messageId: string,
+): string {
+  return `${subscriptionName}/${messageId}`;
+}
@@ -0,0 +1,136 @@
+import type { Event } from '@event-driven-io/emmett';
+import { EmmettError } from '@event-driven-io/emmett';
+
+/**
+ * Raw PubSub message received from a topic whose producer is not an Emmett
+ * message bus (e.g. Cloud Storage notifications or Cloud Build events)
+ */
+export interface InboundMessage {
+  /**
+   * PubSub message ID
+   */
+  id: string;
+
+  /**
+   * Message data, as published
+   */
+  data: Buffer;
+
+  /**
+   * Message attributes, as published
+   */
+  attributes: Record<string, string>;
+
+  /**
+   * When PubSub received the message
+   */
+  publishTime?: Date;
+
+  /**
+   * Ordering key of the message, if any
+   */
+  orderingKey?: string;
+}
+
+/**
+ * Maps raw PubSub messages to events
+ *
+ * Errors thrown by the adapter mark the message as undecodable (see
+ * UndecodableMessagePolicy).
+ *
+ * @example
+ * ```typescript
+ * const objectFinalized: InboundAdapter = (message) => ({
+ *   type: 'ObjectFinalized',
+ *   data: {
+ *     bucket: message.attributes.bucketId,
+ *     name: message.attributes.objectId,
+ *   },
+ * });
+ * ```
+ */
+export type InboundAdapter = (
+  message: InboundMessage,
+) => Event | Promise<Event>;
+
+/**
+ * Events received from a topic published to by another producer
+ */
+export interface InboundDefinition {
+  /**
+   * Topic the producer publishes to, used as-is without the topic prefix
+   * (e.g. "gcs-uploads" or "projects/my-project/topics/cloud-builds")
+   * @default the event topic of the type
+   */
+  topic?: string;
+
+  /**
+   * Maps the raw messages of the topic to events of the type
+   */
+  adapter: InboundAdapter;
+}
+
+/**
+ * What to do with received messages that cannot be decoded
+ *
+ * - "dead-letter": publish them to the dead-letter topic with reason
+ *   "decoding" (dropped without a dead-letter topic)
+ * - "retry": nack them, e.g. while consumers are upgraded to a new codec
+ * - "drop": ack them without handling
+ */
+export type UndecodableMessagePolicy = 'dead-letter' | 'retry' | 'drop';
+
+/**
+ * Error of a received message that cannot be decoded: malformed data, an
+ * unknown content type or encoding, a failed decryption, or an inbound
+ * adapter failure
+ */
+export class MessageDecodingError extends EmmettError {
+  constructor(
+    public readonly messageType: string,
+    reason: string,
+  ) {
+    super(`Cannot decode ${messageType} message: ${reason}`);
+    // Emmett errors reset their prototype, which would break instanceof
+    Object.setPrototypeOf(this, MessageDecodingError.prototype);
+  }
+}
+
+/**
+ * Create an adapter reading the data of raw messages as JSON
+ *
+ * The event data is the parsed message data (an empty object for messages
+ * without data), and the message attributes are added to the event metadata.
+ *
+ * @param eventType - Type of the events
+ * @returns The adapter
+ *
+ * @example
+ * ```typescript
+ * const messageBus = getPubSubMessageBus({
+ *   pubsub,
+ *   messageTypes: {
+ *     BuildStatusChanged: {
+ *       kind: 'event',
+ *       inbound: {
+ *         topic: 'cloud-builds',
+ *         adapter: createJsonInboundAdapter('BuildStatusChanged'),
+ *       },
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export function createJsonInboundAdapter(eventType: string): InboundAdapter {
+  return (message) => ({
+    type: eventType,
+    data:
+      message.data.length > 0
+        ? (JSON.parse(message.data.toString('utf-8')) as Record<
+            string,
+            unknown
+          >)
+        : {},
+    metadata: { attributes: message.attributes },
+  });
+}
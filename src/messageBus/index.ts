@@ -8,8 +8,26 @@
 
 export * from './types';
 export * from './serialization';
+export * from './codec';
+export * from './compression';
+export * from './claimCheck';
+export * from './encryption';
+export * from './signing';
+export * from './cloudEvents';
+export * from './inbound';
 export * from './topicManager';
+export * from './topicSchema';
 export * from './utils';
 export * from './scheduler';
+export * from './scheduledMessageStore';
+export * from './scheduledMessageDispatcher';
+export * from './idempotencyStore';
+export * from './ordering';
+export * from './messageTypeRegistry';
+export * from './validation';
+export * from './upcasting';
+export * from './retry';
+export * from './deadLetter';
+export * from './deadLetterManager';
 export * from './messageHandler';
 export * from './pubsubMessageBus';
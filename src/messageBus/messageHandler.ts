@@ -6,64 +6,710 @@ import type {
   SingleRawMessageHandlerWithoutContext,
 } from '@event-driven-io/emmett';
 import { EmmettError } from '@event-driven-io/emmett';
-import { deserialize } from './serialization';
+import type { DeadLetterHandler, DeadLetterReason } from './deadLetter';
+import type { IdempotencyStore } from './idempotencyStore';
+import { getIdempotencyKey } from './idempotencyStore';
+import type { MessageTypeRegistry } from './messageTypeRegistry';
+import type { EnvelopeCodec } from './topicSchema';
+import type { MessageCodec } from './codec';
+import { resolveMessageCodec } from './codec';
+import type { BlobStore } from './claimCheck';
+import { checkOutPayload } from './claimCheck';
+import type { KeyProvider } from './encryption';
+import { unwrapDataKey } from './encryption';
+import type { MessageVerifier } from './signing';
+import { MessageSignatureError, verifyPayload } from './signing';
+import { MessageValidationError } from './validation';
+import type { InboundAdapter, UndecodableMessagePolicy } from './inbound';
+import { MessageDecodingError } from './inbound';
+import type { RetryClassifier } from './retry';
+import { shouldRetry } from './retry';
+import {
+  attachMessageId,
+  deserializeWithMessageId,
+  isReservedAttribute,
+  jsonMessageCodec,
+} from './serialization';
 
 /**
- * Determine if an error should trigger a retry (nack) or be considered permanent (ack)
+ * Options for processing incoming messages
+ */
+export interface MessageHandlingOptions {
+  /**
+   * Skip messages that were already processed, and record processed ones
+   */
+  idempotencyStore?: IdempotencyStore;
+
+  /**
+   * Name of the subscription messages are received on, scoping idempotency keys
+   * (defaults to the message type)
+   */
+  subscriptionName?: string;
+
+  /**
+   * Validate incoming messages against the schemas of their types, and decode
+   * envelopes of types with a topic schema
+   */
+  messageTypes?: MessageTypeRegistry;
+
+  /**
+   * Destination of messages failing validation, signature verification or
+   * decoding, and of messages whose handling failed permanently (dropped if
+   * not set)
+   */
+  deadLetter?: DeadLetterHandler;
+
+  /**
+   * Delivery attempts after which messages failing with a retriable error
+   * are dead-lettered instead of nacked (requires deadLetter)
+   */
+  maxDeliveryAttempts?: number;
+
+  /**
+   * Codecs of received messages, selected by their contentType attribute.
+   * jsonMessageCodec is always known and decodes messages without one.
+   */
+  codecs?: readonly MessageCodec[];
+
+  /**
+   * Store of payloads published with a claimCheck attribute
+   */
+  claimCheckStore?: BlobStore;
+
+  /**
+   * Key provider unwrapping the data keys of encrypted messages
+   */
+  keyProvider?: KeyProvider;
+
+  /**
+   * Verifies message signatures; unsigned or tampered messages are
+   * dead-lettered without being handled
+   */
+  verifier?: MessageVerifier;
+
+  /**
+   * What to do with messages that cannot be decoded
+   * @default "dead-letter"
+   */
+  undecodableMessages?: UndecodableMessagePolicy;
+
+  /**
+   * Maximum size of decompressed payloads; larger ones cannot be decoded
+   * @default DEFAULT_MAX_DECOMPRESSED_BYTES (64 MiB)
+   */
+  maxDecompressedBytes?: number;
+
+  /**
+   * Decides whether messages failing with an error are redelivered
+   * @default shouldRetry
+   */
+  retryClassifier?: RetryClassifier;
+}
+
+/**
+ * PubSub message as received from a subscription, or pulled from one (e.g. by
+ * the DeadLetterManager)
+ */
+export type ReceivedMessage = Pick<
+  PubSubMessage,
+  'id' | 'data' | 'attributes' | 'orderingKey'
+> & { publishTime?: Date };
+
+/**
+ * Get the custom attributes of a PubSub message
+ *
+ * @param attributes - The PubSub message attributes
+ * @returns Attributes not set by the message bus, or undefined if there are none
+ */
+function getCustomAttributes(
+  attributes: Record<string, string> | undefined,
+): Record<string, string> | undefined {
+  const custom = Object.entries(attributes ?? {}).filter(
+    ([name]) => !isReservedAttribute(name),
+  );
+
+  return custom.length > 0 ? Object.fromEntries(custom) : undefined;
+}
+
+/**
+ * Get the codec a received message was encoded with
+ *
+ * Messages of types with a topic schema use the schema codec, others the
+ * codec of their contentType attribute.
+ *
+ * @param message - The PubSub message
+ * @param messageType - The message type
+ * @param options - Message handling options
+ * @returns The codec
+ * @throws EmmettError if no codec matches the content type
+ */
+function getIncomingCodec(
+  message: ReceivedMessage,
+  messageType: string,
+  options: MessageHandlingOptions,
+): EnvelopeCodec {
+  return (
+    options.messageTypes?.getEnvelopeCodec(messageType) ??
+    resolveMessageCodec(
+      message.attributes?.contentType,
+      [...(options.codecs ?? []), jsonMessageCodec],
+      jsonMessageCodec,
+    )
+  );
+}
+
+/**
+ * Read the payload of a PubSub message
  *
- * @param error - The error to classify
- * @returns true if the error is retriable (should nack), false if permanent (should ack)
+ * Claim-checked payloads are read from the claim check store. Messages of
+ * other producers, received through an inbound adapter, are read as-is.
+ *
+ * @param message - The PubSub message
+ * @param messageType - The message type being processed
+ * @param options - Message handling options
+ * @returns The encoded (and possibly compressed) envelope
+ * @throws EmmettError if the payload is claim-checked but no store is configured
  */
-export function shouldRetry(error: unknown): boolean {
-  if (!(error instanceof Error)) {
-    // Unknown error types - retry to be safe
-    return true;
+function readIncomingPayload(
+  message: ReceivedMessage,
+  messageType: string,
+  options: MessageHandlingOptions,
+): Promise<Buffer> {
+  if (options.messageTypes?.getInboundAdapter(messageType)) {
+    return Promise.resolve(message.data);
   }
 
-  const errorMessage = error.message.toLowerCase();
+  return checkOutPayload(
+    message.data,
+    message.attributes?.claimCheck,
+    options.claimCheckStore,
+  );
+}
 
-  // Network/timeout errors - retry
+/**
+ * Verify the signature of an incoming message, if a verifier is configured
+ *
+ * Messages of other producers, received through an inbound adapter, are not
+ * signed and never verified.
+ *
+ * @param message - The PubSub message
+ * @param payload - The message payload
+ * @param messageType - The message type being processed
+ * @param options - Message handling options
+ * @returns The signature error, or undefined if the message may be handled
+ */
+async function verifyIncoming(
+  message: PubSubMessage,
+  payload: Buffer,
+  messageType: string,
+  options: MessageHandlingOptions,
+): Promise<MessageSignatureError | undefined> {
   if (
-    errorMessage.includes('network') ||
-    errorMessage.includes('timeout') ||
-    errorMessage.includes('econnrefused') ||
-    errorMessage.includes('enotfound') ||
-    errorMessage.includes('unavailable')
+    !options.verifier ||
+    options.messageTypes?.getInboundAdapter(messageType)
   ) {
-    return true;
+    return undefined;
+  }
+
+  try {
+    await verifyPayload(
+      messageType,
+      payload,
+      message.attributes,
+      options.verifier,
+    );
+    return undefined;
+  } catch (error) {
+    if (error instanceof MessageSignatureError) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Deserialize a PubSub message and attach its message ID
+ *
+ * Uses the envelope messageId, falling back to the PubSub message ID for
+ * envelopes without one. The message ID, correlation/causation IDs and custom
+ * attributes are added to the message metadata. Compressed payloads are
+ * decompressed, CloudEvents are decoded from their attributes, encrypted data
+ * is decrypted, and data of older versions of declared message types is
+ * upcast to the latest version.
+ *
+ * @param message - The PubSub message
+ * @param payload - The message payload (see readIncomingPayload)
+ * @param messageType - The message type being processed
+ * @param options - Message handling options
+ * @returns The message (with its ID attached when known) and the message ID
+ * @throws MessageDecodingError if the payload cannot be decoded
+ * @throws EmmettError if an encrypted message has no key provider
+ */
+async function deserializeIncoming<T extends Command | Event>(
+  message: ReceivedMessage,
+  payload: Buffer,
+  messageType: string,
+  options: MessageHandlingOptions,
+): Promise<{ message: T; messageId: string | undefined }> {
+  const decryptionKey = await unwrapDataKey(
+    message.attributes,
+    options.keyProvider,
+  );
+
+  let deserialized: ReturnType<typeof deserializeWithMessageId<T>>;
+  try {
+    deserialized = deserializeWithMessageId<T>(payload, {
+      codec: getIncomingCodec(message, messageType, options),
+      upcasters: options.messageTypes?.getUpcasters(messageType),
+      contentEncoding: message.attributes?.contentEncoding,
+      maxDecompressedBytes: options.maxDecompressedBytes,
+      decryptionKey,
+      attributes: message.attributes,
+    });
+  } catch (error) {
+    throw new MessageDecodingError(
+      messageType,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+  const messageId = deserialized.messageId ?? message.id;
+  const { correlationId, causationId } = deserialized;
+  const attributes = getCustomAttributes(message.attributes);
+
+  const withMetadata = {
+    ...deserialized.message,
+    metadata: {
+      ...('metadata' in deserialized.message
+        ? deserialized.message.metadata
+        : {}),
+      ...(messageId && { messageId }),
+      ...(correlationId && { correlationId }),
+      ...(causationId && { causationId }),
+      ...(attributes && { attributes }),
+    },
+  } as T;
+
+  return {
+    message: messageId
+      ? attachMessageId(withMetadata, messageId)
+      : withMetadata,
+    messageId,
+  };
+}
+
+/**
+ * Map a message of another producer to an event with an inbound adapter
+ *
+ * The PubSub message ID is the event message ID, and is added to its
+ * metadata.
+ *
+ * @param message - The PubSub message
+ * @param adapter - The inbound adapter of the message type
+ * @param messageType - The message type being processed
+ * @returns The event with its ID attached, and the message ID
+ * @throws MessageDecodingError if the adapter fails
+ */
+async function adaptIncoming<T extends Command | Event>(
+  message: ReceivedMessage,
+  adapter: InboundAdapter,
+  messageType: string,
+): Promise<{ message: T; messageId: string }> {
+  let event: Event;
+  try {
+    event = await adapter({
+      id: message.id,
+      data: message.data,
+      attributes: message.attributes ?? {},
+      publishTime: message.publishTime,
+      ...(message.orderingKey && { orderingKey: message.orderingKey }),
+    });
+  } catch (error) {
+    throw new MessageDecodingError(
+      messageType,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+
+  const withMetadata = {
+    ...event,
+    metadata: {
+      ...('metadata' in event ? (event.metadata as object) : {}),
+      messageId: message.id,
+    },
+  } as unknown as T;
+
+  return {
+    message: attachMessageId(withMetadata, message.id),
+    messageId: message.id,
+  };
+}
+
+/**
+ * Decode an incoming message, with the inbound adapter of its type or as an
+ * envelope
+ *
+ * @param message - The PubSub message
+ * @param payload - The message payload (see readIncomingPayload)
+ * @param messageType - The message type being processed
+ * @param options - Message handling options
+ * @returns The message and its ID, or the decoding error if the message
+ * cannot be decoded
+ * @throws EmmettError if an encrypted message has no key provider
+ */
+async function decodeIncoming<T extends Command | Event>(
+  message: ReceivedMessage,
+  payload: Buffer,
+  messageType: string,
+  options: MessageHandlingOptions,
+): Promise<
+  { message: T; messageId: string | undefined } | MessageDecodingError
+> {
+  const adapter = options.messageTypes?.getInboundAdapter(messageType);
+
+  try {
+    return adapter
+      ? await adaptIncoming<T>(message, adapter, messageType)
+      : await deserializeIncoming<T>(message, payload, messageType, options);
+  } catch (error) {
+    if (error instanceof MessageDecodingError) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Decode a received message outside of a subscription listener, e.g. a
+ * dead-lettered message, without verifying or validating it
+ *
+ * @param message - The received message
+ * @param messageType - The message type
+ * @param options - Message handling options (codecs, claim check store, key
+ * provider and message types)
+ * @returns The message (with its ID attached when known) and the message ID
+ * @throws MessageDecodingError if the message cannot be decoded
+ * @throws EmmettError if a claim-checked or encrypted message has no store or
+ * key provider
+ */
+export async function decodeReceivedMessage<T extends Command | Event>(
+  message: ReceivedMessage,
+  messageType: string,
+  options: MessageHandlingOptions = {},
+): Promise<{ message: T; messageId: string | undefined }> {
+  const payload = await readIncomingPayload(message, messageType, options);
+  const decoded = await decodeIncoming<T>(
+    message,
+    payload,
+    messageType,
+    options,
+  );
+  if (decoded instanceof MessageDecodingError) {
+    throw decoded;
+  }
+  return decoded;
+}
+
+/**
+ * Get the idempotency key of a message, if deduplication is enabled
+ *
+ * @param options - Message handling options
+ * @param messageType - The message type
+ * @param messageId - The message ID
+ * @returns The key, or undefined without an idempotency store or message ID
+ */
+function getMessageIdempotencyKey(
+  options: MessageHandlingOptions,
+  messageType: string,
+  messageId: string | undefined,
+): string | undefined {
+  if (!options.idempotencyStore || !messageId) {
+    return undefined;
   }
 
-  // EmmettError and validation errors - don't retry (business logic errors)
-  if (error instanceof EmmettError) {
+  return getIdempotencyKey(options.subscriptionName ?? messageType, messageId);
+}
+
+/**
+ * Check whether a message was already processed
+ *
+ * Store failures are logged and the message is processed anyway, keeping
+ * at-least-once delivery.
+ *
+ * @param options - Message handling options
+ * @param key - The idempotency key
+ * @param messageType - The message type
+ * @returns true if the message should be skipped
+ */
+async function isAlreadyProcessed(
+  options: MessageHandlingOptions,
+  key: string | undefined,
+  messageType: string,
+): Promise<boolean> {
+  if (!options.idempotencyStore || !key) {
     return false;
   }
 
-  if (
-    errorMessage.includes('validation') ||
-    errorMessage.includes('invalid') ||
-    errorMessage.includes('not found') ||
-    errorMessage.includes('already exists')
-  ) {
+  try {
+    const processed = await options.idempotencyStore.isProcessed(key);
+    if (processed) {
+      console.info(
+        `Skipping already processed message ${messageType} (${key})`,
+      );
+    }
+    return processed;
+  } catch (error) {
+    console.error(
+      `Failed to check idempotency store for ${messageType}, processing anyway:`,
+      error instanceof Error ? error.message : String(error),
+    );
     return false;
   }
+}
+
+/**
+ * Record a message as processed
+ *
+ * The message was handled successfully, so a store failure is logged rather
+ * than turned into a redelivery.
+ *
+ * @param options - Message handling options
+ * @param key - The idempotency key
+ * @param messageType - The message type
+ */
+async function markAsProcessed(
+  options: MessageHandlingOptions,
+  key: string | undefined,
+  messageType: string,
+): Promise<void> {
+  if (!options.idempotencyStore || !key) {
+    return;
+  }
+
+  try {
+    await options.idempotencyStore.markProcessed(key);
+  } catch (error) {
+    console.error(
+      `Failed to record processed message ${messageType} in idempotency store:`,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+/**
+ * Validate an incoming message against the schema of its type
+ *
+ * @param message - The deserialized message
+ * @param options - Message handling options
+ * @returns The validation error, or undefined if the message is valid
+ */
+function validateIncoming(
+  message: Command | Event,
+  options: MessageHandlingOptions,
+): MessageValidationError | undefined {
+  try {
+    options.messageTypes?.validate(message);
+    return undefined;
+  } catch (error) {
+    if (error instanceof MessageValidationError) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Dead-letter a message that failed validation, signature verification or
+ * decoding
+ *
+ * Invalid messages are never retried: they are acked once moved to the
+ * dead-letter destination, or dropped without one. A failure to dead-letter
+ * nacks the message so it is not lost.
+ *
+ * @param message - The PubSub message
+ * @param error - The validation, signature or decoding error
+ * @param reason - Why the message is rejected
+ * @param options - Message handling options
+ * @returns 'ack' once the message is dead-lettered or dropped, 'nack' otherwise
+ */
+async function rejectInvalidMessage(
+  message: PubSubMessage,
+  error: MessageValidationError | MessageSignatureError | MessageDecodingError,
+  reason: DeadLetterReason,
+  options: MessageHandlingOptions,
+): Promise<'ack' | 'nack'> {
+  if (!options.deadLetter) {
+    console.error(`Dropping invalid message: ${error.message}`);
+    return 'ack';
+  }
+
+  try {
+    await options.deadLetter(message, {
+      reason,
+      error,
+      subscriptionName: options.subscriptionName,
+    });
+    console.warn(`Dead-lettered invalid message: ${error.message}`);
+    return 'ack';
+  } catch (deadLetterError) {
+    console.error(
+      `Failed to dead-letter invalid ${error.messageType} message:`,
+      deadLetterError instanceof Error
+        ? deadLetterError.message
+        : String(deadLetterError),
+    );
+    return 'nack';
+  }
+}
+
+/**
+ * Handle a message that cannot be decoded, according to the undecodable
+ * message policy
+ *
+ * @param message - The PubSub message
+ * @param error - The decoding error
+ * @param options - Message handling options
+ * @returns 'nack' to retry the message, 'ack' once it is dead-lettered or
+ * dropped
+ */
+async function rejectUndecodableMessage(
+  message: PubSubMessage,
+  error: MessageDecodingError,
+  options: MessageHandlingOptions,
+): Promise<'ack' | 'nack'> {
+  switch (options.undecodableMessages ?? 'dead-letter') {
+    case 'retry':
+      console.error(`Nacking undecodable message: ${error.message}`);
+      return 'nack';
+    case 'drop':
+      console.error(`Dropping undecodable message: ${error.message}`);
+      return 'ack';
+    default:
+      return rejectInvalidMessage(message, error, 'decoding', options);
+  }
+}
+
+/**
+ * Determine whether a message failing with an error should be redelivered
+ *
+ * Uses the configured retry classifier, falling back to shouldRetry when it
+ * returns undefined.
+ *
+ * @param error - The error
+ * @param message - The PubSub message
+ * @param messageType - The message type being processed
+ * @param kind - Whether the message is a command or an event
+ * @param options - Message handling options
+ * @returns true to nack the message, false to ack it
+ */
+function isRetriable(
+  error: unknown,
+  message: PubSubMessage,
+  messageType: string,
+  kind: 'command' | 'event',
+  options: MessageHandlingOptions,
+): boolean {
+  return (
+    options.retryClassifier?.(error, {
+      messageType,
+      kind,
+      deliveryAttempt: message.deliveryAttempt,
+    }) ?? shouldRetry(error)
+  );
+}
+
+/**
+ * Determine whether a message failing with a retriable error should be
+ * dead-lettered instead of redelivered
+ *
+ * @param message - The PubSub message
+ * @param options - Message handling options
+ * @returns true if the message was delivered maxDeliveryAttempts times
+ */
+function isLastDeliveryAttempt(
+  message: PubSubMessage,
+  options: MessageHandlingOptions,
+): boolean {
+  return (
+    options.deadLetter !== undefined &&
+    options.maxDeliveryAttempts !== undefined &&
+    message.deliveryAttempt >= options.maxDeliveryAttempts
+  );
+}
+
+/**
+ * Dead-letter a message whose handling failed, with the error, handler and
+ * delivery attempt
+ *
+ * Messages are acked once moved to the dead-letter destination, or without
+ * one (the failure is already logged). A failure to dead-letter nacks the
+ * message so it is not lost.
+ *
+ * @param message - The PubSub message
+ * @param error - The error handling the message failed with
+ * @param reason - "failure" for permanent errors, "max-delivery-attempts" for
+ * retriable errors on the last delivery attempt
+ * @param messageType - The message type
+ * @param handlerName - Name of the failing handler, if known
+ * @param options - Message handling options
+ * @returns 'ack' once the message is dead-lettered or dropped, 'nack' otherwise
+ */
+async function deadLetterFailedMessage(
+  message: PubSubMessage,
+  error: unknown,
+  reason: 'failure' | 'max-delivery-attempts',
+  messageType: string,
+  handlerName: string | undefined,
+  options: MessageHandlingOptions,
+): Promise<'ack' | 'nack'> {
+  if (!options.deadLetter) {
+    return 'ack';
+  }
 
-  // Default to retry for unknown errors
-  return true;
+  try {
+    await options.deadLetter(message, {
+      reason,
+      error: error instanceof Error ? error : new Error(String(error)),
+      subscriptionName: options.subscriptionName,
+      handlerName,
+      deliveryAttempt: message.deliveryAttempt,
+    });
+    console.warn(`Dead-lettered failed ${messageType} message (${reason})`);
+    return 'ack';
+  } catch (deadLetterError) {
+    console.error(
+      `Failed to dead-letter failed ${messageType} message:`,
+      deadLetterError instanceof Error
+        ? deadLetterError.message
+        : String(deadLetterError),
+    );
+    return 'nack';
+  }
 }
 
 /**
  * Process an incoming command message from PubSub
  *
+ * The handler receives the command with its message ID attached (see
+ * extractMessageId). With an idempotency store, commands that were already
+ * processed are acked without calling the handler. Commands failing signature
+ * verification or schema validation are dead-lettered without calling the
+ * handler. Commands failing with a permanent error, or with a retriable error
+ * on their last delivery attempt, are dead-lettered too.
+ *
  * @param message - The PubSub message
  * @param handlers - Map of message type to handlers
  * @param commandType - The command type being processed
+ * @param options - Message handling options
  * @returns 'ack' if successful or permanent failure, 'nack' if retriable failure
  */
 export async function handleCommandMessage(
   message: PubSubMessage,
   handlers: Map<string, SingleRawMessageHandlerWithoutContext<AnyMessage>[]>,
   commandType: string,
+  options: MessageHandlingOptions = {},
 ): Promise<'ack' | 'nack'> {
+  let handlerName: string | undefined;
+
   try {
     // Get handlers for this command type
     const commandHandlers = handlers.get(commandType);
@@ -82,13 +728,61 @@ export async function handleCommandMessage(
       );
     }
 
+    const payload = await readIncomingPayload(message, commandType, options);
+
+    const signatureError = await verifyIncoming(
+      message,
+      payload,
+      commandType,
+      options,
+    );
+    if (signatureError) {
+      return await rejectInvalidMessage(
+        message,
+        signatureError,
+        'signature',
+        options,
+      );
+    }
+
     // Deserialize the command
-    const command = deserialize<Command>(message.data);
+    const decoded = await decodeIncoming<Command>(
+      message,
+      payload,
+      commandType,
+      options,
+    );
+    if (decoded instanceof MessageDecodingError) {
+      return await rejectUndecodableMessage(message, decoded, options);
+    }
+    const { message: command, messageId } = decoded;
+
+    const validationError = validateIncoming(command, options);
+    if (validationError) {
+      return await rejectInvalidMessage(
+        message,
+        validationError,
+        'validation',
+        options,
+      );
+    }
+
+    const idempotencyKey = getMessageIdempotencyKey(
+      options,
+      commandType,
+      messageId,
+    );
+    if (await isAlreadyProcessed(options, idempotencyKey, commandType)) {
+      return 'ack';
+    }
 
     // Execute the handler
     const handler = commandHandlers[0];
+    handlerName = handler.name || undefined;
     await handler(command);
 
+    await markAsProcessed(options, idempotencyKey, commandType);
+
     return 'ack';
   } catch (error) {
     console.error(
@@ -97,7 +791,17 @@ export async function handleCommandMessage(
     );
 
     // Determine if we should retry
-    if (shouldRetry(error)) {
+    if (isRetriable(error, message, commandType, 'command', options)) {
+      if (isLastDeliveryAttempt(message, options)) {
+        return await deadLetterFailedMessage(
+          message,
+          error,
+          'max-delivery-attempts',
+          commandType,
+          handlerName,
+          options,
+        );
+      }
       console.info(
         `Nacking command ${commandType} for retry (delivery attempt: ${message.deliveryAttempt})`,
       );
@@ -106,7 +810,14 @@ export async function handleCommandMessage(
       console.warn(
         `Acking command ${commandType} despite error (permanent failure)`,
       );
-      return 'ack';
+      return await deadLetterFailedMessage(
+        message,
+        error,
+        'failure',
+        commandType,
+        handlerName,
+        options,
+      );
     }
   }
 }
@@ -114,15 +825,25 @@ export async function handleCommandMessage(
 /**
  * Process an incoming event message from PubSub
  *
+ * Handlers receive the event with its message ID attached (see
+ * extractMessageId). With an idempotency store, events that were already
+ * processed on this subscription are acked without calling the handlers.
+ * Events failing signature verification or schema validation are
+ * dead-lettered without calling them. Events a handler failed to handle with a
+ * permanent error, or with a retriable error on their last delivery attempt,
+ * are dead-lettered once the other handlers ran.
+ *
  * @param message - The PubSub message
  * @param handlers - Map of message type to handlers
  * @param eventType - The event type being processed
+ * @param options - Message handling options
  * @returns 'ack' if all handlers successful or permanent failure, 'nack' if retriable failure
  */
 export async function handleEventMessage(
   message: PubSubMessage,
   handlers: Map<string, SingleRawMessageHandlerWithoutContext<AnyMessage>[]>,
   eventType: string,
+  options: MessageHandlingOptions = {},
 ): Promise<'ack' | 'nack'> {
   try {
     // Get handlers for this event type
@@ -134,8 +855,62 @@ export async function handleEventMessage(
       return 'ack';
     }
 
-    // Deserialize the event
-    const event = deserialize<Event>(message.data);
+    const payload = await readIncomingPayload(message, eventType, options);
+
+    const signatureError = await verifyIncoming(
+      message,
+      payload,
+      eventType,
+      options,
+    );
+    if (signatureError) {
+      return await rejectInvalidMessage(
+        message,
+        signatureError,
+        'signature',
+        options,
+      );
+    }
+
+    // Deserialize the event, or map it with the inbound adapter of its type
+    const decoded = await decodeIncoming<Event>(
+      message,
+      payload,
+      eventType,
+      options,
+    );
+    if (decoded instanceof MessageDecodingError) {
+      return await rejectUndecodableMessage(message, decoded, options);
+    }
+    const { message: event, messageId } = decoded;
+
+    const validationError = validateIncoming(event, options);
+    if (validationError) {
+      return await rejectInvalidMessage(
+        message,
+        validationError,
+        'validation',
+        options,
+      );
+    }
+
+    const idempotencyKey = getMessageIdempotencyKey(
+      options,
+      eventType,
+      messageId,
+    );
+    if (await isAlreadyProcessed(options, idempotencyKey, eventType)) {
+      return 'ack';
+    }
+
+    // First handler failure to dead-letter once all handlers ran
+    let failure:
+      | {
+          error: unknown;
+          reason: 'failure' | 'max-delivery-attempts';
+          handlerName: string | undefined;
+        }
+      | undefined;
 
     // Execute all handlers sequentially
     for (const handler of eventHandlers) {
@@ -148,7 +923,14 @@ export async function handleEventMessage(
         );
 
         // If any handler fails with a retriable error, nack the whole message
-        if (shouldRetry(error)) {
+        const retriable = isRetriable(
+          error,
+          message,
+          eventType,
+          'event',
+          options,
+        );
+        if (retriable && !isLastDeliveryAttempt(message, options)) {
           console.info(
             `Nacking event ${eventType} for retry due to handler failure (delivery attempt: ${message.deliveryAttempt})`,
           );
@@ -158,9 +940,28 @@ export async function handleEventMessage(
         console.warn(
           `Continuing event ${eventType} processing despite handler error (permanent failure)`,
         );
+        failure ??= {
+          error,
+          reason: retriable ? 'max-delivery-attempts' : 'failure',
+          handlerName: handler.name || undefined,
+        };
       }
     }
 
+    if (failure && options.deadLetter) {
+      // Not marked as processed, so the event is handled again once replayed
+      return await deadLetterFailedMessage(
+        message,
+        failure.error,
+        failure.reason,
+        eventType,
+        failure.handlerName,
+        options,
+      );
+    }
+
+    await markAsProcessed(options, idempotencyKey, eventType);
+
     return 'ack';
   } catch (error) {
     // Error deserializing or other unexpected error
@@ -169,10 +970,27 @@ export async function handleEventMessage(
       error instanceof Error ? error.message : String(error),
     );
 
-    if (shouldRetry(error)) {
+    if (isRetriable(error, message, eventType, 'event', options)) {
+      if (isLastDeliveryAttempt(message, options)) {
+        return await deadLetterFailedMessage(
+          message,
+          error,
+          'max-delivery-attempts',
+          eventType,
+          undefined,
+          options,
+        );
+      }
       return 'nack';
     } else {
-      return 'ack';
+      return await deadLetterFailedMessage(
+        message,
+        error,
+        'failure',
+        eventType,
+        undefined,
+        options,
+      );
     }
   }
 }
@@ -184,20 +1002,22 @@ export async function handleEventMessage(
  * @param messageType - The message type (command or event type)
  * @param kind - Whether this is a command or event
  * @param handlers - Map of message type to handlers
+ * @param options - Message handling options
  */
 export function createMessageListener(
   subscription: Subscription,
   messageType: string,
   kind: 'command' | 'event',
   handlers: Map<string, SingleRawMessageHandlerWithoutContext<AnyMessage>[]>,
+  options: MessageHandlingOptions = {},
 ): void {
   subscription.on('message', async (message: PubSubMessage) => {
     try {
       // Route to appropriate handler based on kind
       const result =
         kind === 'command'
-          ? await handleCommandMessage(message, handlers, messageType)
-          : await handleEventMessage(message, handlers, messageType);
+          ? await handleCommandMessage(message, handlers, messageType, options)
+          : await handleEventMessage(message, handlers, messageType, options);
 
       // Acknowledge or nack based on result
       if (result === 'ack') {
@@ -0,0 +1,329 @@
+import type { Message } from '@event-driven-io/emmett';
+import { EmmettError } from '@event-driven-io/emmett';
+import type { EnvelopeCodec, TopicSchemaDefinition } from './topicSchema';
+import { getEnvelopeCodec } from './topicSchema';
+import type { MessageValidator } from './validation';
+import { validateMessageData } from './validation';
+import type { MessageUpcaster } from './upcasting';
+import { getLatestVersion } from './upcasting';
+import type { InboundAdapter, InboundDefinition } from './inbound';
+
+/**
+ * Whether a message is a command (1-to-1) or an event (1-to-many)
+ */
+export type MessageKind = 'command' | 'event';
+
+/**
+ * Schema of a message type's data
+ *
+ * Compatible with schema libraries exposing parse(), such as zod.
+ */
+export interface MessageSchema {
+  /**
+   * Validate message data
+   *
+   * @param data - The message data
+   * @returns The validated data
+   * @throws Error if the data does not match the schema
+   */
+  parse(data: unknown): unknown;
+}
+
+/**
+ * Declared message type
+ */
+export interface MessageTypeDefinition {
+  /**
+   * Whether the type is a command or an event
+   */
+  kind: MessageKind;
+
+  /**
+   * Optional schema of the message data, validated when sending and receiving
+   */
+  schema?: MessageSchema | MessageValidator;
+
+  /**
+   * Optional Pub/Sub schema attached to the topic of the type, with the codec
+   * encoding its envelopes
+   */
+  topicSchema?: TopicSchemaDefinition;
+
+  /**
+   * Upcasters of older versions of the message data: upcasters[0] converts
+   * version 1 to 2, upcasters[1] version 2 to 3, and so on. Messages are
+   * published with the latest version (upcasters.length + 1) and upcast to it
+   * when consumed.
+   * @default []
+   */
+  upcasters?: readonly MessageUpcaster[];
+
+  /**
+   * Dot-separated paths of the data fields encrypted when encryption is
+   * configured, `*` matching every array element or object property (e.g.
+   * ["customer.email", "items.*.address"]). An empty array disables
+   * encryption of the type.
+   * @default the whole data is encrypted
+   */
+  encryptedPaths?: readonly string[];
+
+  /**
+   * Receive events of the type from a topic published to by another
+   * producer, mapping its raw messages with an inbound adapter. Events of the
+   * type cannot be published by the message bus.
+   */
+  inbound?: InboundDefinition;
+}
+
+/**
+ * Message types by name, declared with their kind or a full definition
+ *
+ * @example
+ * ```typescript
+ * const messageTypes: MessageTypeDefinitions = {
+ *   AddProductItem: 'command',
+ *   ProductItemAdded: { kind: 'event', schema: productItemAddedSchema },
+ * };
+ * ```
+ */
+export type MessageTypeDefinitions = Record<
+  string,
+  MessageKind | MessageTypeDefinition
+>;
+
+/**
+ * Infer the kind of an undeclared message type from its name
+ *
+ * @param messageType - The message type string
+ * @returns 'command' if type contains 'Command', otherwise 'event'
+ */
+export function inferMessageKind(messageType: string): MessageKind {
+  const typeStr = messageType.toLowerCase();
+  return typeStr.includes('command') ? 'command' : 'event';
+}
+
+/**
+ * Registry of message types and their kinds
+ *
+ * Kinds are resolved from, in order:
+ * 1. Declared message types
+ * 2. Types registered by handle() (commands) or subscribe() (events)
+ * 3. The type name (containing "Command" = command), unless strict
+ *
+ * In strict mode, every message type must be declared.
+ */
+export class MessageTypeRegistry {
+  private readonly definitions = new Map<string, MessageTypeDefinition>();
+  private readonly registeredCommandTypes = new Set<string>();
+  private readonly registeredEventTypes = new Set<string>();
+
+  constructor(
+    definitions: MessageTypeDefinitions = {},
+    private readonly strict = false,
+  ) {
+    for (const [messageType, definition] of Object.entries(definitions)) {
+      if (
+        typeof definition !== 'string' &&
+        definition.topicSchema?.encoding === 'BINARY' &&
+        !definition.topicSchema.codec
+      ) {
+        throw new EmmettError(
+          `Message type ${messageType} has a BINARY topic schema without a codec`,
+        );
+      }
+
+      if (
+        typeof definition !== 'string' &&
+        definition.inbound &&
+        definition.kind !== 'event'
+      ) {
+        throw new EmmettError(
+          `Message type ${messageType} has an inbound adapter and must be declared as event`,
+        );
+      }
+
+      this.definitions.set(
+        messageType,
+        typeof definition === 'string' ? { kind: definition } : definition,
+      );
+    }
+  }
+
+  /**
+   * Get the declared definition of a message type
+   *
+   * @param messageType - The message type
+   * @returns The definition, or undefined if the type is not declared
+   */
+  get(messageType: string): MessageTypeDefinition | undefined {
+    return this.definitions.get(messageType);
+  }
+
+  /**
+   * Get the envelope codec of a message type with a topic schema
+   *
+   * @param messageType - The message type
+   * @returns The codec, or undefined for the default serialization
+   */
+  getEnvelopeCodec(messageType: string): EnvelopeCodec | undefined {
+    const topicSchema = this.definitions.get(messageType)?.topicSchema;
+    return topicSchema ? getEnvelopeCodec(topicSchema) : undefined;
+  }
+
+  /**
+   * Get the upcasters of a message type's older versions
+   *
+   * @param messageType - The message type
+   * @returns The upcasters, empty for undeclared types
+   */
+  getUpcasters(messageType: string): readonly MessageUpcaster[] {
+    return this.definitions.get(messageType)?.upcasters ?? [];
+  }
+
+  /**
+   * Get the version messages of a type are published with
+   *
+   * @param messageType - The message type
+   * @returns The latest version, 1 for types without upcasters
+   */
+  getVersion(messageType: string): number {
+    return getLatestVersion(this.getUpcasters(messageType));
+  }
+
+  /**
+   * Get the data paths encrypted in messages of a type
+   *
+   * @param messageType - The message type
+   * @returns The paths, or undefined to encrypt the whole data
+   */
+  getEncryptedPaths(messageType: string): readonly string[] | undefined {
+    return this.definitions.get(messageType)?.encryptedPaths;
+  }
+
+  /**
+   * Get the adapter of events received from another producer's topic
+   *
+   * @param messageType - The message type
+   * @returns The adapter, or undefined for messages published by Emmett
+   */
+  getInboundAdapter(messageType: string): InboundAdapter | undefined {
+    return this.definitions.get(messageType)?.inbound?.adapter;
+  }
+
+  /**
+   * Get the topic events of a type are received from, if another producer
+   * publishes them
+   *
+   * @param messageType - The message type
+   * @returns The topic name, or undefined for the topic of the type
+   */
+  getInboundTopic(messageType: string): string | undefined {
+    return this.definitions.get(messageType)?.inbound?.topic;
+  }
+
+  /**
+   * Check that messages of a type can be published
+   *
+   * @param messageType - The message type
+   * @throws EmmettError if the type is received through an inbound adapter
+   */
+  assertPublishable(messageType: string): void {
+    if (this.definitions.get(messageType)?.inbound) {
+      throw new EmmettError(
+        `Message type ${messageType} is received through an inbound adapter and cannot be published`,
+      );
+    }
+  }
+
+  /**
+   * Register a message type handled or subscribed to by this instance
+   *
+   * @param messageType - The message type
+   * @param kind - 'command' for handle(), 'event' for subscribe()
+   * @throws EmmettError if the type is declared with another kind, or is not declared in strict mode
+   */
+  register(messageType: string, kind: MessageKind): void {
+    this.assertKind(messageType, kind);
+
+    if (kind === 'command') {
+      this.registeredCommandTypes.add(messageType);
+    } else {
+      this.registeredEventTypes.add(messageType);
+    }
+  }
+
+  /**
+   * Resolve the kind of a message type
+   *
+   * @param messageType - The message type
+   * @returns The message kind
+   * @throws EmmettError if the type is not declared in strict mode
+   */
+  resolveKind(messageType: string): MessageKind {
+    const definition = this.definitions.get(messageType);
+    if (definition) {
+      return definition.kind;
+    }
+
+    this.assertKnown(messageType);
+
+    if (this.registeredCommandTypes.has(messageType)) {
+      return 'command';
+    }
+    if (this.registeredEventTypes.has(messageType)) {
+      return 'event';
+    }
+    return inferMessageKind(messageType);
+  }
+
+  /**
+   * Check that a message type can be used as the given kind
+   *
+   * @param messageType - The message type
+   * @param kind - The kind it is used as
+   * @throws EmmettError if the type is declared with another kind, or is not declared in strict mode
+   */
+  assertKind(messageType: string, kind: MessageKind): void {
+    const definition = this.definitions.get(messageType);
+
+    if (!definition) {
+      this.assertKnown(messageType);
+      return;
+    }
+
+    if (definition.kind !== kind) {
+      throw new EmmettError(
+        `Message type ${messageType} is declared as ${definition.kind} and cannot be used as ${kind}`,
+      );
+    }
+  }
+
+  /**
+   * Validate message data against the schema of its type
+   *
+   * Messages of types without a schema are always valid.
+   *
+   * @param message - The message
+   * @throws MessageValidationError if the data does not match the schema
+   */
+  validate(message: Message): void {
+    const schema = this.definitions.get(message.type)?.schema;
+    if (schema) {
+      validateMessageData(message.type, schema, message.data);
+    }
+  }
+
+  /**
+   * Reject undeclared message types in strict mode
+   *
+   * @param messageType - The message type
+   */
+  private assertKnown(messageType: string): void {
+    if (this.strict && !this.definitions.has(messageType)) {
+      throw new EmmettError(
+        `Unknown message type ${messageType}. ` +
+          `Declare it in messageTypes or disable strictMessageTypes.`,
+      );
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import type { Topic } from '@google-cloud/pubsub';
+import type { Message } from '@event-driven-io/emmett';
+
+/**
+ * Resolve the PubSub ordering key of a message
+ *
+ * Messages with the same ordering key are delivered in publish order to
+ * subscriptions with message ordering enabled. Return undefined for messages
+ * that don't need ordering.
+ */
+export type OrderingKeyResolver = (message: Message) => string | undefined;
+
+/**
+ * Create an ordering key resolver reading a metadata field
+ *
+ * @param field - Metadata field holding the key
+ * @returns Resolver returning the field value, or undefined if it is not a non-empty string
+ *
+ * @example
+ * ```typescript
+ * const messageBus = getPubSubMessageBus({
+ *   pubsub,
+ *   // Events of the same shopping cart stream are handled in order
+ *   orderingKey: orderingKeyFromMetadata('streamName'),
+ * });
+ * ```
+ */
+export function orderingKeyFromMetadata(
+  field = 'streamName',
+): OrderingKeyResolver {
+  return (message) => {
+    const metadata =
+      'metadata' in message
+        ? (message.metadata as Record<string, unknown> | undefined)
+        : undefined;
+    const value = metadata?.[field];
+
+    return typeof value === 'string' && value !== '' ? value : undefined;
+  };
+}
+
+/**
+ * Publish a message, reporting when its ordering key is paused
+ *
+ * After a failed publish, the client library pauses the ordering key and
+ * rejects later messages with that key, so none is published ahead of the
+ * failed one. The key stays paused until resumePublishing() is called, once
+ * the failed message is retried or given up on.
+ *
+ * @param topic - Topic created with messageOrdering enabled (when using ordering keys)
+ * @param message - The message to publish
+ * @returns The PubSub message ID
+ * @throws Error naming the paused ordering key if the publish fails
+ */
+export async function publishWithOrderingKey(
+  topic: Topic,
+  message: {
+    data: Buffer;
+    attributes: Record<string, string>;
+    orderingKey?: string;
+  },
+): Promise<string> {
+  try {
+    return await topic.publishMessage(message);
+  } catch (error) {
+    if (!message.orderingKey) {
+      throw error;
+    }
+    throw new Error(
+      `${
+        error instanceof Error ? error.message : String(error)
+      } (ordering key ${message.orderingKey} is paused until resumeOrderingKey() is called)`,
+    );
+  }
+}
@@ -1,3 +1,4 @@
+import type { Message as PubSubMessage, Topic } from '@google-cloud/pubsub';
 import type {
   AnyMessage,
   Command,
@@ -12,35 +13,87 @@ import type {
 } from '@event-driven-io/emmett';
 import { EmmettError } from '@event-driven-io/emmett';
 import type {
+  PubSubConsumerGroupSubscription,
   PubSubMessageBusConfig,
   PubSubMessageBusLifecycle,
+  PubSubMessageOrdering,
+  PubSubMessagePublishing,
+  PubSubPublishOptions,
+  PubSubScheduledMessageManagement,
   SubscriptionInfo,
 } from './types';
-import type { ScheduledMessage } from './scheduler';
+import type { ScheduledMessage, ScheduledMessageFilter } from './scheduler';
 import { MessageScheduler } from './scheduler';
-import { serialize } from './serialization';
+import type { StoredScheduledMessage } from './scheduledMessageStore';
+import { InMemoryScheduledMessageStore } from './scheduledMessageStore';
+import {
+  SCHEDULED_DELIVERY_WINDOW_MS,
+  ScheduledMessageDispatcher,
+} from './scheduledMessageDispatcher';
+import {
+  isReservedAttribute,
+  jsonMessageCodec,
+  serialize,
+  serializeCloudEvent,
+} from './serialization';
 import {
   getCommandSubscriptionName,
   getCommandTopicName,
+  getDeadLetterSubscriptionName,
+  getDeadLetterTopicName,
   getEventSubscriptionName,
   getEventTopicName,
+  getSharedCommandSubscriptionName,
+  getSharedDeadLetterTopicName,
   getOrCreateSubscription,
   getOrCreateTopic,
+  grantDeadLetterPermissions,
   deleteSubscriptions,
 } from './topicManager';
 import { createMessageListener } from './messageHandler';
-import { generateUUID } from './utils';
+import type { DeadLetterDetails } from './deadLetter';
+import {
+  assertDeadLetterOptions,
+  publishToDeadLetterTopic,
+} from './deadLetter';
+import { publishWithOrderingKey } from './ordering';
+import { MessageTypeRegistry } from './messageTypeRegistry';
+import type { EnvelopeCodec, TopicSchemaDefinition } from './topicSchema';
+import type { CompressionOptions } from './compression';
+import { compressPayload } from './compression';
+import type { ClaimCheckOptions } from './claimCheck';
+import { checkInPayload } from './claimCheck';
+import type { MessageTypeEncryption } from './encryption';
+import { createDataKey } from './encryption';
+import { signPayload } from './signing';
+import type { CloudEventsOptions } from './cloudEvents';
+import { assertNotEmptyString, generateUUID } from './utils';
+
+/**
+ * Characters PubSub allows in subscription names
+ */
+const CONSUMER_GROUP_PATTERN = /^[A-Za-z0-9\-_.~+%]+$/;
 
 /**
- * Determine message kind based on message type naming convention (fallback)
+ * Maximum length of PubSub subscription names
+ */
+const MAX_SUBSCRIPTION_NAME_LENGTH = 255;
+
+/**
+ * Google Cloud Pub/Sub based message bus
  *
- * @param messageType - The message type string
- * @returns 'command' if type contains 'Command', otherwise 'event'
+ * PubSubScheduledMessageManagement comes first so schedule() resolves to the
+ * overload returning the schedule ID.
  */
-function determineMessageKindFallback(messageType: string): 'command' | 'event' {
-  const typeStr = messageType.toLowerCase();
-  return typeStr.includes('command') ? 'command' : 'event';
-}
+export type PubSubMessageBus = PubSubScheduledMessageManagement &
+  PubSubMessagePublishing &
+  PubSubMessageOrdering &
+  MessageBus &
+  EventSubscription &
+  CommandProcessor &
+  ScheduledMessageProcessor &
+  PubSubConsumerGroupSubscription &
+  PubSubMessageBusLifecycle;
 
 /**
  * Create a Google Cloud Pub/Sub based message bus for Emmett
@@ -66,6 +119,11 @@ function determineMessageKindFallback(messageType: string): 'command' | 'event'
  *   // Handle event
  * }, 'MyEvent');
  *
+ * // Subscribe to events as a durable consumer group
+ * messageBus.subscribeAs('billing-projection', async (event) => {
+ *   // Handle event
+ * }, 'MyEvent');
+ *
  * // Start the message bus
  * await messageBus.start();
  *
@@ -79,17 +137,45 @@ function determineMessageKindFallback(messageType: string): 'command' | 'event'
  */
 export function getPubSubMessageBus(
   config: PubSubMessageBusConfig,
-): MessageBus &
-  EventSubscription &
-  CommandProcessor &
-  ScheduledMessageProcessor &
-  PubSubMessageBusLifecycle {
+): PubSubMessageBus {
   // Internal state
   const instanceId = config.instanceId ?? generateUUID();
   const topicPrefix = config.topicPrefix ?? 'emmett';
   const autoCreateResources = config.autoCreateResources ?? true;
   const cleanupOnClose = config.cleanupOnClose ?? false;
   const closePubSubClient = config.closePubSubClient;
+  const commandSubscriptionMode = config.commandSubscriptionMode ?? 'shared';
+  const broadcastCommandTypes = new Set(config.broadcastCommandTypes ?? []);
+  const useEmulator = config.useEmulator ?? false;
+  const dispatchScheduledMessages =
+    !useEmulator && (config.dispatchScheduledMessages ?? true);
+  const autoDeliverScheduledMessages =
+    useEmulator && (config.autoDeliverScheduledMessages ?? false);
+  const scheduledMessagePollIntervalMs =
+    config.scheduledMessagePollIntervalMs ?? 1000;
+  const subscriptionOptions = config.orderingKey
+    ? {
+        ...config.subscriptionOptions,
+        enableMessageOrdering:
+          config.subscriptionOptions?.enableMessageOrdering ?? true,
+      }
+    : config.subscriptionOptions;
+  // Whether subscriptions of this bus deliver messages in ordering key order
+  const messageOrdering = subscriptionOptions?.enableMessageOrdering ?? false;
+
+  const messageCodec = config.codec ?? jsonMessageCodec;
+
+  if (config.deadLetters) {
+    assertDeadLetterOptions(config.deadLetters, config.deadLetterTopic);
+  }
+  const deadLettering =
+    config.deadLetters !== undefined || config.deadLetterTopic !== undefined;
+
+  // Topics with message ordering, reused so a paused ordering key can be resumed
+  const orderedTopics = new Map<string, Topic>();
+
+  // Dead-letter topics by name, created with the subscriptions forwarding to them
+  const deadLetterTopics = new Map<string, Topic>();
 
   // Map of message type to handlers
   const handlers = new Map<
@@ -97,48 +183,244 @@ export function getPubSubMessageBus(
     SingleRawMessageHandlerWithoutContext<AnyMessage>[]
   >();
 
-  // Map of subscription ID to specific handler (for event subscriptions)
+  // Map of event subscription name to specific handler (for event subscriptions)
   const subscriptionHandlers = new Map<
     string,
     SingleRawMessageHandlerWithoutContext<AnyMessage>
   >();
 
+  // Subscription IDs that are named consumer groups (durable)
+  const consumerGroups = new Set<string>();
+
   // Map of message type to subscription IDs (for events with multiple subscriptions)
   const eventSubscriptionIds = new Map<string, string[]>();
 
-  // Track which message types are commands vs events
-  const commandTypes = new Set<string>();
-  const eventTypes = new Set<string>();
+  // Declared message types, plus types registered by handle() and subscribe()
+  const messageTypes = new MessageTypeRegistry(
+    config.messageTypes,
+    config.strictMessageTypes,
+  );
 
   // Active subscriptions
   const subscriptions: SubscriptionInfo[] = [];
 
+  // Pending scheduled messages and cancellations, shared by scheduler and
+  // dispatcher. In production mode, forget those delivered by other instances.
+  const scheduledMessageStore =
+    config.scheduledMessageStore ??
+    new InMemoryScheduledMessageStore(
+      useEmulator ? {} : { expireAfterMs: SCHEDULED_DELIVERY_WINDOW_MS },
+    );
+
   // Scheduler for delayed messages
   const scheduler = new MessageScheduler({
-    useEmulator: config.useEmulator ?? false,
+    useEmulator,
     pubsub: config.pubsub,
     topicPrefix,
+    resolveMessageKind: (messageType) => messageTypes.resolveKind(messageType),
+    resolveEnvelopeCodec: (messageType) => getCodec(messageType),
+    resolveMessageVersion: (messageType) =>
+      messageTypes.getVersion(messageType),
+    resolveCompression: (messageType) => getCompression(messageType),
+    resolveClaimCheck: (messageType) => getClaimCheck(messageType),
+    resolveEncryption: (messageType) => getEncryption(messageType),
+    signer: config.signing?.signer,
+    resolveCloudEvents: (messageType) => getCloudEvents(messageType),
+    store: scheduledMessageStore,
+    onScheduleError: config.onScheduleError,
   });
 
+  // Delivers due scheduled messages in production mode
+  const scheduledMessageDispatcher = new ScheduledMessageDispatcher({
+    pubsub: config.pubsub,
+    topicPrefix,
+    store: scheduledMessageStore,
+    resolveTopicSchema: getTopicSchema,
+  });
+
+  // Polls due scheduled messages in emulator mode
+  let scheduledMessagePump: ReturnType<typeof setInterval> | undefined;
+  let deliveringScheduledMessages = false;
+
   // Lifecycle state
   let started = false;
 
   /**
-   * Determine message kind based on how it was registered
+   * Get the codec encoding messages of a type
+   *
+   * @param messageType - The message type
+   * @returns The topic schema codec of the type, or the message codec
+   */
+  function getCodec(messageType: string): EnvelopeCodec {
+    return messageTypes.getEnvelopeCodec(messageType) ?? messageCodec;
+  }
+
+  /**
+   * Get the CloudEvents format of messages of a type
+   *
+   * Types with a topic schema keep the envelope required by the schema.
+   *
+   * @param messageType - The message type
+   * @returns The CloudEvents options, or undefined to publish envelopes
+   */
+  function getCloudEvents(messageType: string): CloudEventsOptions | undefined {
+    return messageTypes.get(messageType)?.topicSchema
+      ? undefined
+      : config.cloudEvents;
+  }
+
+  /**
+   * Get the compression of messages of a type
+   *
+   * Types with a topic schema are not compressed, since Pub/Sub validates
+   * their data against the schema.
+   *
+   * @param messageType - The message type
+   * @returns The compression options, or undefined to publish uncompressed
+   */
+  function getCompression(messageType: string): CompressionOptions | undefined {
+    return messageTypes.get(messageType)?.topicSchema
+      ? undefined
+      : config.compression;
+  }
+
+  /**
+   * Get the claim check options of messages of a type
+   *
+   * Types with a topic schema are always published inline, since Pub/Sub
+   * validates their data against the schema.
+   *
+   * @param messageType - The message type
+   * @returns The claim check options, or undefined to publish inline
+   */
+  function getClaimCheck(messageType: string): ClaimCheckOptions | undefined {
+    return messageTypes.get(messageType)?.topicSchema
+      ? undefined
+      : config.claimCheck;
+  }
+
+  /**
+   * Get the encryption of messages of a type
+   *
+   * Types with a topic schema are never encrypted, since Pub/Sub validates
+   * their data against the schema.
+   *
+   * @param messageType - The message type
+   * @returns The key provider and encrypted paths, or undefined to publish
+   * unencrypted
+   */
+  function getEncryption(
+    messageType: string,
+  ): MessageTypeEncryption | undefined {
+    const paths = messageTypes.getEncryptedPaths(messageType);
+    if (
+      !config.encryption ||
+      messageTypes.get(messageType)?.topicSchema ||
+      paths?.length === 0
+    ) {
+      return undefined;
+    }
+    return { keyProvider: config.encryption.keyProvider, paths };
+  }
+
+  /**
+   * Get the schema to attach to the topic of a message type
+   *
+   * The emulator doesn't support schemas, so topics are created without them
+   * in emulator mode (messages are still encoded with the schema codec).
+   *
+   * @param messageType - The message type
+   * @returns The topic schema, or undefined if there is none to attach
+   */
+  function getTopicSchema(
+    messageType: string,
+  ): TopicSchemaDefinition | undefined {
+    return useEmulator ? undefined : messageTypes.get(messageType)?.topicSchema;
+  }
+
+  /**
+   * Make sure a dead-letter topic keeps the messages forwarded to it
+   *
+   * With deadLetters.createSubscriptions (default), the subscription named
+   * after the topic is created; otherwise the topic must already have one.
    *
-   * @param messageType - The message type string
-   * @returns 'command' if registered with handle(), 'event' if registered with subscribe()
+   * @param topic - The dead-letter topic
+   * @param topicName - Name (or full resource name) of the topic
+   * @throws Error if createSubscriptions is disabled and the topic has no
+   * subscription
    */
-  function determineMessageKind(messageType: string): 'command' | 'event' {
-    // Check explicit registration first
-    if (commandTypes.has(messageType)) {
-      return 'command';
+  async function ensureDeadLetterSubscription(
+    topic: Topic,
+    topicName: string,
+  ): Promise<void> {
+    if (config.deadLetters?.createSubscriptions !== false) {
+      await getOrCreateSubscription(
+        topic,
+        getDeadLetterSubscriptionName(topicName),
+      );
+      return;
     }
-    if (eventTypes.has(messageType)) {
-      return 'event';
+
+    const [subscriptions] = await topic.getSubscriptions();
+    if (subscriptions.length === 0) {
+      throw new Error(
+        `Dead-letter topic ${topicName} has no subscription, so dead-lettered messages would be lost: create one or enable deadLetters.createSubscriptions`,
+      );
     }
-    // Fallback to name-based heuristic
-    return determineMessageKindFallback(messageType);
+  }
+
+  /**
+   * Get or create a dead-letter topic keeping the messages forwarded to it
+   *
+   * Whether configured by deadLetterTopic, deadLetters or a subscription
+   * dead-letter policy, the topic gets a subscription keeping the
+   * dead-lettered messages (see ensureDeadLetterSubscription).
+   *
+   * @param topicName - Name (or full resource name) of the topic
+   * @returns The dead-letter topic
+   */
+  async function getOrCreateDeadLetterTopic(topicName: string): Promise<Topic> {
+    const existing = deadLetterTopics.get(topicName);
+    if (existing) {
+      return existing;
+    }
+
+    const topic = await getOrCreateTopic(config.pubsub, topicName);
+    await ensureDeadLetterSubscription(topic, topicName);
+    deadLetterTopics.set(topicName, topic);
+    return topic;
+  }
+
+  /**
+   * Get or create the dead-letter topic of a message type
+   *
+   * @param messageType - The message type
+   * @param kind - Whether this is a command or event
+   * @returns The dead-letter topic
+   */
+  async function getDeadLetterTopic(
+    messageType: string,
+    kind: 'command' | 'event',
+  ): Promise<Topic> {
+    const topicName =
+      config.deadLetters?.topology === 'per-type'
+        ? getDeadLetterTopicName(messageType, kind, topicPrefix)
+        : (config.deadLetterTopic ?? getSharedDeadLetterTopicName(topicPrefix));
+
+    return getOrCreateDeadLetterTopic(topicName);
+  }
+
+  /**
+   * Determine whether a command type uses one subscription shared by all instances
+   *
+   * @param commandType - The command type
+   * @returns true for competing consumers, false for per-instance (broadcast)
+   */
+  function isSharedCommand(commandType: string): boolean {
+    return (
+      commandSubscriptionMode === 'shared' &&
+      !broadcastCommandTypes.has(commandType)
+    );
   }
 
   /**
@@ -153,47 +435,121 @@ export function getPubSubMessageBus(
     kind: 'command' | 'event',
     subscriptionId?: string,
   ): Promise<void> {
-    // Get topic name based on kind
+    // Get topic name based on kind, or the topic of another producer
     const topicName =
       kind === 'command'
         ? getCommandTopicName(messageType, topicPrefix)
-        : getEventTopicName(messageType, topicPrefix);
+        : (messageTypes.getInboundTopic(messageType) ??
+          getEventTopicName(messageType, topicPrefix));
 
     // Get or create topic
-    const topic = await getOrCreateTopic(config.pubsub, topicName);
+    const topic = await getOrCreateTopic(
+      config.pubsub,
+      topicName,
+      getTopicSchema(messageType),
+    );
 
     // Get subscription name
     const subName =
       kind === 'command'
-        ? getCommandSubscriptionName(messageType, instanceId, topicPrefix)
+        ? isSharedCommand(messageType)
+          ? getSharedCommandSubscriptionName(messageType, topicPrefix)
+          : getCommandSubscriptionName(messageType, instanceId, topicPrefix)
         : getEventSubscriptionName(
             messageType,
             subscriptionId ?? instanceId,
             topicPrefix,
           );
 
+    // Dead-letter topic must exist before messages are received
+    const deadLetterTopic = deadLettering
+      ? await getDeadLetterTopic(messageType, kind)
+      : undefined;
+
+    // Let Pub/Sub dead-letter messages that are never acked
+    const maxDeliveryAttempts = config.deadLetters?.maxDeliveryAttempts;
+    const deadLetterPolicy =
+      deadLetterTopic &&
+      maxDeliveryAttempts !== undefined &&
+      !subscriptionOptions?.deadLetterPolicy
+        ? { deadLetterTopic: deadLetterTopic.name, maxDeliveryAttempts }
+        : undefined;
+
+    // A configured dead-letter policy only forwards to a topic keeping the
+    // messages, so it is set once that topic has a subscription
+    const policyTopicName =
+      subscriptionOptions?.deadLetterPolicy?.deadLetterTopic;
+    if (policyTopicName) {
+      await getOrCreateDeadLetterTopic(policyTopicName);
+    }
+
     // Create subscription
     const subscription = await getOrCreateSubscription(
       topic,
       subName,
-      config.subscriptionOptions,
+      deadLetterPolicy
+        ? { ...subscriptionOptions, deadLetterPolicy }
+        : subscriptionOptions,
     );
 
+    if (
+      deadLetterTopic &&
+      deadLetterPolicy &&
+      config.deadLetters?.serviceAccount
+    ) {
+      await grantDeadLetterPermissions(
+        deadLetterTopic,
+        subscription,
+        config.deadLetters.serviceAccount,
+      );
+    }
+
+    // Deduplicate per subscription, so every consumer group processes each event once
+    const messageHandlingOptions = {
+      idempotencyStore: config.idempotencyStore,
+      subscriptionName: subName,
+      messageTypes,
+      deadLetter: deadLetterTopic
+        ? (message: PubSubMessage, details: DeadLetterDetails) =>
+            publishToDeadLetterTopic(deadLetterTopic, message, details)
+        : undefined,
+      maxDeliveryAttempts: deadLetterPolicy?.maxDeliveryAttempts,
+      codecs: [messageCodec],
+      claimCheckStore: config.claimCheck?.store,
+      keyProvider: config.encryption?.keyProvider,
+      verifier: config.signing?.verifier,
+      undecodableMessages: config.undecodableMessages,
+      maxDecompressedBytes: config.maxDecompressedBytes,
+      retryClassifier: config.retryClassifier,
+    };
+
     // Create message listener with appropriate handlers
     if (kind === 'event' && subscriptionId) {
       // For events, create a map with only this subscription's handler
-      const handler = subscriptionHandlers.get(subscriptionId);
+      const handler = subscriptionHandlers.get(subName);
       if (handler) {
         const singleHandlerMap = new Map<
           string,
           SingleRawMessageHandlerWithoutContext<AnyMessage>[]
         >();
         singleHandlerMap.set(messageType, [handler]);
-        createMessageListener(subscription, messageType, kind, singleHandlerMap);
+        createMessageListener(
+          subscription,
+          messageType,
+          kind,
+          singleHandlerMap,
+          messageHandlingOptions,
+        );
       }
     } else {
       // For commands, use the handlers map as before
-      createMessageListener(subscription, messageType, kind, handlers);
+      createMessageListener(
+        subscription,
+        messageType,
+        kind,
+        handlers,
+        messageHandlingOptions,
+      );
     }
 
     // Track subscription
@@ -202,31 +558,146 @@ export function getPubSubMessageBus(
       subscription,
       messageType,
       kind,
+      durable:
+        kind === 'command'
+          ? isSharedCommand(messageType)
+          : consumerGroups.has(subscriptionId ?? ''),
     });
   }
 
+  /**
+   * Check that a consumer group names a valid PubSub subscription
+   *
+   * PubSub rejects invalid names only when start() creates the subscription,
+   * so they are checked when subscribing.
+   *
+   * @param consumerGroup - The consumer group name
+   * @param eventType - The event type
+   * @throws EmmettError if the subscription name would be invalid
+   */
+  function assertValidConsumerGroup(
+    consumerGroup: string,
+    eventType: string,
+  ): void {
+    const subName = getEventSubscriptionName(
+      eventType,
+      consumerGroup,
+      topicPrefix,
+    );
+    if (
+      !CONSUMER_GROUP_PATTERN.test(consumerGroup) ||
+      subName.length > MAX_SUBSCRIPTION_NAME_LENGTH
+    ) {
+      throw new EmmettError(
+        `Consumer group ${consumerGroup} cannot name the PubSub subscription ${subName}: ` +
+          `use letters, digits and -_.~+% only, within ${MAX_SUBSCRIPTION_NAME_LENGTH} characters`,
+      );
+    }
+  }
+
+  /**
+   * Register an event handler under a subscription ID
+   *
+   * @param eventType - The event type
+   * @param subscriptionId - Random ID for ad-hoc subscribers, group name for consumer groups
+   * @param eventHandler - The handler function
+   */
+  function registerEventSubscription(
+    eventType: string,
+    subscriptionId: string,
+    eventHandler: SingleRawMessageHandlerWithoutContext<AnyMessage>,
+  ): void {
+    const subName = getEventSubscriptionName(
+      eventType,
+      subscriptionId,
+      topicPrefix,
+    );
+
+    // Validate no duplicate handlers within the same consumer group
+    if (subscriptionHandlers.has(subName)) {
+      throw new EmmettError(
+        `Consumer group ${subscriptionId} is already subscribed to event ${eventType}. ` +
+          `Each consumer group can have only one handler per event type.`,
+      );
+    }
+
+    // Track as event type
+    messageTypes.register(eventType, 'event');
+
+    // Store handler associated with this subscription
+    subscriptionHandlers.set(subName, eventHandler);
+
+    // Get existing handlers or create new array
+    const existing = handlers.get(eventType) ?? [];
+
+    // Add handler to array (for compatibility)
+    handlers.set(eventType, [...existing, eventHandler]);
+
+    // Track subscription ID for this event type
+    const existingIds = eventSubscriptionIds.get(eventType) ?? [];
+    eventSubscriptionIds.set(eventType, [...existingIds, subscriptionId]);
+
+    // If already started, create subscription immediately
+    if (started) {
+      createSubscriptionForType(eventType, 'event', subscriptionId).catch(
+        (error) => {
+          console.error(
+            `Failed to create subscription for event ${eventType}:`,
+            error instanceof Error ? error.message : String(error),
+          );
+        },
+      );
+    }
+  }
+
   /**
    * Publish a message to a PubSub topic
    *
    * @param message - The message to publish
    * @param kind - Whether this is a command or event
+   * @param options - Message ID, headers and ordering key
    */
   async function publishMessage(
     message: Message,
     kind: 'command' | 'event',
+    options: PubSubPublishOptions = {},
   ): Promise<void> {
     // Publishing without start() is allowed (producer-only mode)
     // start() is only required for consumers (handlers/subscribers)
 
+    messageTypes.assertKind(message.type, kind);
+    messageTypes.assertPublishable(message.type);
+    messageTypes.validate(message);
+
+    const customAttributes = options.attributes ?? {};
+    for (const name of Object.keys(customAttributes)) {
+      if (isReservedAttribute(name)) {
+        throw new EmmettError(
+          `Attribute ${name} is reserved by the message bus and cannot be set on ${message.type}`,
+        );
+      }
+    }
+
+    // Subscriptions without message ordering would ignore the key
+    if (options.orderingKey && !messageOrdering) {
+      throw new EmmettError(
+        `Cannot publish ${message.type} with ordering key ${options.orderingKey}: message ordering is disabled, configure an orderingKey resolver or set subscriptionOptions.enableMessageOrdering`,
+      );
+    }
+
     // Get topic name
     const topicName =
       kind === 'command'
         ? getCommandTopicName(message.type, topicPrefix)
         : getEventTopicName(message.type, topicPrefix);
 
+    const orderingKey = options.orderingKey ?? config.orderingKey?.(message);
+
     try {
       // Get topic
-      const topic = config.pubsub.topic(topicName);
+      const topic = orderingKey
+        ? getOrderedTopic(topicName)
+        : config.pubsub.topic(topicName);
 
       // Check if topic exists if auto-create is disabled
       if (!autoCreateResources) {
@@ -238,22 +709,74 @@ export function getPubSubMessageBus(
         }
       } else {
         // Create topic if it doesn't exist
-        const [exists] = await topic.exists();
-        if (!exists) {
-          await topic.create();
-        }
+        await getOrCreateTopic(
+          config.pubsub,
+          topicName,
+          getTopicSchema(message.type),
+        );
       }
 
       // Serialize message
-      const buffer = serialize(message);
+      const messageId = options.messageId ?? generateUUID();
+      const { correlationId, causationId } = options;
+      const codec = getCodec(message.type);
+      const encryption = getEncryption(message.type);
+      const dataKey = encryption
+        ? await createDataKey(encryption.keyProvider)
+        : undefined;
+      const serializeOptions = {
+        kind,
+        version: messageTypes.getVersion(message.type),
+        messageId,
+        correlationId,
+        causationId,
+        encryption: dataKey && { key: dataKey.key, paths: encryption?.paths },
+      };
+      const cloudEvents = getCloudEvents(message.type);
+      const { data: buffer, attributes: formatAttributes } = cloudEvents
+        ? serializeCloudEvent(message, cloudEvents, serializeOptions)
+        : {
+            data: serialize(message, { ...serializeOptions, codec }),
+            attributes: codec.contentType
+              ? { contentType: codec.contentType }
+              : {},
+          };
+      const compression = getCompression(message.type);
+      const { data: payload, contentEncoding } = compression
+        ? compressPayload(message.type, buffer, compression)
+        : { data: buffer, contentEncoding: undefined };
+      const attributes = {
+        ...customAttributes,
+        messageType: message.type,
+        messageKind: kind,
+        messageId,
+        ...(correlationId && { correlationId }),
+        ...(causationId && { causationId }),
+        ...formatAttributes,
+        ...(contentEncoding && { contentEncoding }),
+        ...(dataKey && {
+          encryptionKeyId: dataKey.keyId,
+          encryptedDataKey: dataKey.wrappedKey.toString('base64'),
+        }),
+      };
+      const signer = config.signing?.signer;
+      const signature = signer
+        ? await signPayload(message.type, payload, attributes, signer)
+        : undefined;
+      const claimCheckOptions = getClaimCheck(message.type);
+      const { data, claimCheck } = claimCheckOptions
+        ? await checkInPayload(message.type, payload, claimCheckOptions)
+        : { data: payload, claimCheck: undefined };
 
       // Publish
-      await topic.publishMessage({
-        data: buffer,
+      await publishWithOrderingKey(topic, {
+        data,
         attributes: {
-          messageType: message.type,
-          messageKind: kind,
+          ...attributes,
+          ...(claimCheck && { claimCheck }),
+          ...signature,
         },
+        ...(orderingKey && { orderingKey }),
       });
     } catch (error) {
       throw new Error(
@@ -264,6 +787,81 @@ export function getPubSubMessageBus(
     }
   }
 
+  /**
+   * Get a topic publishing with message ordering
+   *
+   * @param topicName - The topic name
+   * @returns Cached topic with messageOrdering enabled
+   */
+  function getOrderedTopic(topicName: string): Topic {
+    let topic = orderedTopics.get(topicName);
+    if (!topic) {
+      topic = config.pubsub.topic(topicName, { messageOrdering: true });
+      orderedTopics.set(topicName, topic);
+    }
+    return topic;
+  }
+
+  /**
+   * Deliver due scheduled messages through send()/publish() (emulator mode)
+   *
+   * Messages that fail to publish are rescheduled for the next poll.
+   */
+  async function deliverDueScheduledMessages(): Promise<void> {
+    if (deliveringScheduledMessages) {
+      return;
+    }
+    deliveringScheduledMessages = true;
+
+    try {
+      for (const scheduled of scheduler.dequeueScheduled()) {
+        const { message } = scheduled;
+        try {
+          await publishMessage(message, messageTypes.resolveKind(message.type));
+        } catch (error) {
+          console.error(
+            `Failed to deliver scheduled message ${message.type}, retrying on next poll:`,
+            error instanceof Error ? error.message : String(error),
+          );
+          await scheduler.requeue(scheduled);
+        }
+      }
+    } finally {
+      deliveringScheduledMessages = false;
+    }
+  }
+
+  /**
+   * Start polling due scheduled messages (emulator mode)
+   */
+  function startScheduledMessagePump(): void {
+    if (!autoDeliverScheduledMessages || scheduledMessagePump) {
+      return;
+    }
+
+    scheduledMessagePump = setInterval(() => {
+      deliverDueScheduledMessages().catch((error) => {
+        console.error(
+          'Unexpected error delivering scheduled messages:',
+          error instanceof Error ? error.message : String(error),
+        );
+      });
+    }, scheduledMessagePollIntervalMs);
+
+    // Don't keep the process alive just for polling
+    scheduledMessagePump.unref();
+  }
+
+  /**
+   * Stop polling due scheduled messages (emulator mode)
+   */
+  function stopScheduledMessagePump(): void {
+    if (scheduledMessagePump) {
+      clearInterval(scheduledMessagePump);
+      scheduledMessagePump = undefined;
+    }
+  }
+
   // Return the message bus implementation
   return {
     // ===== MessageBus Interface =====
@@ -274,11 +872,25 @@ export function getPubSubMessageBus(
      * Commands are routed to exactly one handler via PubSub topics
      *
      * @param command - The command to send
+     * @param options - Message ID, correlation/causation IDs and custom attributes
+     * @throws EmmettError if a custom attribute name is reserved, or an
+     * ordering key is given while message ordering is disabled
+     * @throws MessageValidationError if the data does not match the schema of its type
+     *
+     * @example
+     * ```typescript
+     * await messageBus.send(command, {
+     *   messageId: `confirm-${cartId}`,
+     *   correlationId: requestId,
+     *   attributes: { tenant: 'acme' },
+     * });
+     * ```
      */
     async send<CommandType extends Command>(
       command: CommandType,
+      options?: PubSubPublishOptions,
     ): Promise<void> {
-      await publishMessage(command, 'command');
+      await publishMessage(command, 'command', options);
     },
 
     /**
@@ -287,25 +899,153 @@ export function getPubSubMessageBus(
      * Events are delivered to all registered subscribers via PubSub topics
      *
      * @param event - The event to publish
+     * @param options - Message ID, correlation/causation IDs and custom attributes
+     * @throws EmmettError if a custom attribute name is reserved, or an
+     * ordering key is given while message ordering is disabled
+     * @throws MessageValidationError if the data does not match the schema of its type
      */
-    async publish<EventType extends Event>(event: EventType): Promise<void> {
-      await publishMessage(event, 'event');
+    async publish<EventType extends Event>(
+      event: EventType,
+      options?: PubSubPublishOptions,
+    ): Promise<void> {
+      await publishMessage(event, 'event', options);
+    },
+
+    // ===== PubSubMessageOrdering Interface =====
+
+    /**
+     * Resume publishing messages with an ordering key paused by a failed
+     * publish
+     *
+     * @param orderingKey - The paused ordering key
+     *
+     * @example
+     * ```typescript
+     * try {
+     *   await messageBus.publish(event, { orderingKey: streamName });
+     * } catch (error) {
+     *   // Retry the failed event before any later one of the stream
+     *   messageBus.resumeOrderingKey(streamName);
+     *   await messageBus.publish(event, { orderingKey: streamName });
+     * }
+     * ```
+     */
+    resumeOrderingKey(orderingKey: string): void {
+      for (const topic of orderedTopics.values()) {
+        topic.resumePublishing(orderingKey);
+      }
     },
 
     /**
      * Schedule a message for future delivery
      *
-     * In production mode: Uses PubSub native scheduling
-     * In emulator mode: Stores in memory (emulator doesn't support scheduling)
+     * In production mode: Publishes to the scheduled messages topic, from which
+     * a started message bus delivers it to its command/event topic when due
+     * In emulator mode: Stores in memory (emulator doesn't support scheduling),
+     * delivered automatically while started if autoDeliverScheduledMessages is set
+     *
+     * Returns without waiting for the message to be published. Failures are
+     * reported to onScheduleError, and failed publishes are retried from an
+     * outbox until published or cancelled.
      *
      * @param message - The message to schedule
      * @param when - When to deliver the message (afterInMs or at)
+     * @returns The schedule ID, to be used with cancelScheduled()
+     * @throws MessageValidationError if the data does not match the schema of its type
+     * @throws EmmettError if the message is due more than 7 days from now
+     * (production mode)
+     *
+     * @example
+     * ```typescript
+     * const scheduleId = messageBus.schedule(
+     *   { type: 'AbandonCart', data: { cartId } },
+     *   { afterInMs: 24 * 60 * 60 * 1000 },
+     * );
+     *
+     * // Once the cart is confirmed
+     * await messageBus.cancelScheduled(scheduleId);
+     * ```
      */
     schedule<MessageType extends Message>(
       message: MessageType,
       when?: { afterInMs: number } | { at: Date },
-    ): void {
-      scheduler.schedule(message, when);
+    ): string {
+      // Reject unknown types up front rather than retrying them from the outbox
+      messageTypes.resolveKind(message.type);
+      messageTypes.assertPublishable(message.type);
+      messageTypes.validate(message);
+      return scheduler.scheduleInBackground(message, when);
+    },
+
+    // ===== PubSubScheduledMessageManagement Interface =====
+
+    /**
+     * Schedule a message for future delivery and wait until it is scheduled
+     *
+     * Unlike schedule(), failures are not retried: the returned promise
+     * rejects and the message is not scheduled.
+     *
+     * @param message - The message to schedule
+     * @param when - When to deliver the message (afterInMs or at)
+     * @returns The schedule ID, to be used with cancelScheduled()
+     * @throws EmmettError if the message is due more than 7 days from now
+     * (production mode)
+     * @throws Error if the message could not be published or persisted
+     *
+     * @example
+     * ```typescript
+     * try {
+     *   await messageBus.scheduleAsync(
+     *     { type: 'SendReminder', data: { userId } },
+     *     { afterInMs: 60 * 60 * 1000 },
+     *   );
+     * } catch (error) {
+     *   // Reminder not scheduled
+     * }
+     * ```
+     */
+    async scheduleAsync<MessageType extends Message>(
+      message: MessageType,
+      when?: { afterInMs: number } | { at: Date },
+    ): Promise<string> {
+      messageTypes.resolveKind(message.type);
+      messageTypes.assertPublishable(message.type);
+      messageTypes.validate(message);
+      return scheduler.schedule(message, when);
+    },
+
+    /**
+     * Cancel a scheduled message
+     *
+     * In emulator mode, removes the message from the pending queue.
+     * In production mode, records the cancellation in the scheduled message
+     * store so the message is dropped instead of delivered when due.
+     *
+     * @param scheduleId - The schedule ID returned by schedule()
+     * @returns true if the message was pending and is now cancelled
+     */
+    async cancelScheduled(scheduleId: string): Promise<boolean> {
+      return scheduler.cancel(scheduleId);
+    },
+
+    /**
+     * List pending scheduled messages
+     *
+     * @param filter - Optional filter by type and scheduled time
+     * @returns Pending scheduled messages ordered by scheduled time
+     *
+     * @example
+     * ```typescript
+     * const reminders = await messageBus.listScheduled({
+     *   messageType: 'SendReminder',
+     *   scheduledBefore: new Date(Date.now() + 60 * 60 * 1000),
+     * });
+     * ```
+     */
+    async listScheduled(
+      filter?: ScheduledMessageFilter,
+    ): Promise<StoredScheduledMessage[]> {
+      return scheduler.list(filter);
     },
 
     // ===== CommandProcessor Interface =====
@@ -316,6 +1056,11 @@ export function getPubSubMessageBus(
      * Commands must have exactly one handler. Attempting to register multiple
      * handlers for the same command will throw an EmmettError.
      *
+     * By default all instances share one subscription per command type, so
+     * each command is handled by exactly one replica. Command types listed in
+     * broadcastCommandTypes (or all of them with commandSubscriptionMode
+     * "instance") are handled by every replica instead.
+     *
      * @param commandHandler - The handler function
      * @param commandTypes - Command types this handler processes
      * @throws EmmettError if a handler is already registered for any command type
@@ -344,7 +1089,7 @@ export function getPubSubMessageBus(
         }
 
         // Track as command type
-        commandTypes.add(commandType);
+        messageTypes.register(commandType, 'command');
 
         // Store handler (single handler in array for consistency)
         handlers.set(commandType, [
@@ -389,42 +1134,63 @@ export function getPubSubMessageBus(
       ...eventTypeNames: EventType['type'][]
     ): void {
       for (const eventType of eventTypeNames) {
-        // Track as event type
-        eventTypes.add(eventType);
-
         // Generate unique subscription ID for this subscriber
-        const subscriptionId = generateUUID();
-
-        // Store handler associated with this subscription ID
-        subscriptionHandlers.set(
-          subscriptionId,
+        registerEventSubscription(
+          eventType,
+          generateUUID(),
           eventHandler as SingleRawMessageHandlerWithoutContext<AnyMessage>,
         );
+      }
+    },
 
-        // Get existing handlers or create new array
-        const existing = handlers.get(eventType) ?? [];
+    // ===== PubSubConsumerGroupSubscription Interface =====
 
-        // Add handler to array (for compatibility)
-        handlers.set(eventType, [
-          ...existing,
-          eventHandler as SingleRawMessageHandlerWithoutContext<AnyMessage>,
-        ]);
+    /**
+     * Subscribe to events as part of a named consumer group
+     *
+     * The subscription name is derived from the group name instead of a random
+     * ID, so it resolves to the same PubSub subscription across restarts and
+     * across horizontally scaled instances. Instances sharing a group compete
+     * for messages, and events published while no instance is running are
+     * delivered once the group reconnects.
+     *
+     * Consumer group subscriptions are never deleted by cleanupOnClose.
+     *
+     * @param consumerGroup - Stable consumer group name
+     * @param eventHandler - The handler function
+     * @param eventTypes - Event types to subscribe to
+     * @throws EmmettError if the group name would make an invalid PubSub
+     * subscription name, or the group already has a handler for any event type
+     *
+     * @example
+     * ```typescript
+     * messageBus.subscribeAs(
+     *   'billing-projection',
+     *   async (event: ProductItemAddedEvent) => {
+     *     // Handle event
+     *   },
+     *   'ProductItemAdded'
+     * );
+     * ```
+     */
+    subscribeAs<EventType extends Event>(
+      consumerGroup: string,
+      eventHandler: SingleMessageHandler<EventType>,
+      ...eventTypeNames: EventType['type'][]
+    ): void {
+      assertNotEmptyString(consumerGroup, 'consumerGroup');
+      for (const eventType of eventTypeNames) {
+        assertValidConsumerGroup(consumerGroup, eventType);
+      }
 
-        // Track subscription ID for this event type
-        const existingIds = eventSubscriptionIds.get(eventType) ?? [];
-        eventSubscriptionIds.set(eventType, [...existingIds, subscriptionId]);
+      consumerGroups.add(consumerGroup);
 
-        // If already started, create subscription immediately
-        if (started) {
-          createSubscriptionForType(eventType, 'event', subscriptionId).catch(
-            (error) => {
-              console.error(
-                `Failed to create subscription for event ${eventType}:`,
-                error instanceof Error ? error.message : String(error),
-              );
-            },
-          );
-        }
+      for (const eventType of eventTypeNames) {
+        registerEventSubscription(
+          eventType,
+          consumerGroup,
+          eventHandler as SingleRawMessageHandlerWithoutContext<AnyMessage>,
+        );
       }
     },
 
@@ -433,7 +1199,8 @@ export function getPubSubMessageBus(
     /**
      * Dequeue scheduled messages that are ready for delivery
      *
-     * Only used in emulator mode. In production, PubSub handles scheduling.
+     * Only used in emulator mode without autoDeliverScheduledMessages. In
+     * production, the bus delivers due scheduled messages itself.
      *
      * @returns Array of scheduled messages ready for delivery
      *
@@ -458,7 +1225,8 @@ export function getPubSubMessageBus(
      * Start the message bus
      *
      * Creates topics and subscriptions for all registered handlers and begins
-     * listening for messages.
+     * listening for messages. In emulator mode, pending scheduled messages are
+     * reloaded from the scheduled message store.
      *
      * This method is idempotent - calling it multiple times is safe.
      *
@@ -487,10 +1255,10 @@ export function getPubSubMessageBus(
         const subscriptionPromises: Promise<void>[] = [];
 
         for (const [messageType] of handlers.entries()) {
-          const kind = determineMessageKind(messageType);
+          const kind = messageTypes.resolveKind(messageType);
 
           if (kind === 'command') {
-            // Commands: one subscription per instance
+            // Commands: one shared subscription, or one per instance
             subscriptionPromises.push(
               createSubscriptionForType(messageType, 'command'),
             );
@@ -507,11 +1275,28 @@ export function getPubSubMessageBus(
           }
         }
 
+        // Deliver due scheduled messages (production mode)
+        if (dispatchScheduledMessages) {
+          subscriptionPromises.push(scheduledMessageDispatcher.start());
+        }
+
+        // Reload pending scheduled messages (emulator mode)
+        subscriptionPromises.push(
+          scheduler.restore().then((restored) => {
+            if (restored > 0) {
+              console.info(`Restored ${restored} scheduled message(s)`);
+            }
+          }),
+        );
+
         // Wait for all subscriptions to be created
         await Promise.all(subscriptionPromises);
 
         started = true;
 
+        // Deliver due scheduled messages (emulator mode, opt-in)
+        startScheduledMessagePump();
+
         console.info(
           `PubSub message bus started with ${subscriptions.length} subscription(s)`,
         );
@@ -529,6 +1314,7 @@ export function getPubSubMessageBus(
      *
      * Stops accepting new messages, waits for in-flight messages to complete,
      * optionally cleans up subscriptions, and closes the PubSub client.
+     * Scheduled messages still unpublished after a last attempt are dropped.
      *
      * @throws Error if cleanup fails
      *
@@ -547,6 +1333,9 @@ export function getPubSubMessageBus(
       try {
         // Only cleanup subscriptions if started
         if (started) {
+          // Stop delivering scheduled messages
+          stopScheduledMessagePump();
+
           // Stop accepting new messages
           for (const { subscription } of subscriptions) {
             subscription.removeAllListeners('message');
@@ -573,15 +1362,34 @@ export function getPubSubMessageBus(
             );
           }
 
-          // Cleanup subscriptions if configured
+          // Cleanup subscriptions if configured (shared subscriptions are kept)
           if (cleanupOnClose) {
             console.info('Cleaning up subscriptions...');
-            await deleteSubscriptions(subscriptions.map((s) => s.subscription));
+            await deleteSubscriptions(
+              subscriptions
+                .filter((s) => !s.durable)
+                .map((s) => s.subscription),
+            );
           }
 
+          // Forget closed subscriptions so a restart recreates them
+          subscriptions.length = 0;
+
+          // Release held scheduled messages for redelivery
+          await scheduledMessageDispatcher.close();
+
           started = false;
         }
 
+        // Last attempt to publish scheduled messages waiting for a retry
+        await scheduler.flushOutbox();
+        const unpublished = scheduler.discardOutbox();
+        if (unpublished > 0) {
+          console.error(
+            `${unpublished} scheduled message(s) could not be published and were dropped`,
+          );
+        }
+
         // Always close PubSub client (even if not started, for producer-only mode)
         if (closePubSubClient !== false) {
           await config.pubsub.close();
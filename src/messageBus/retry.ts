@@ -0,0 +1,174 @@
+import { EmmettError } from '@event-driven-io/emmett';
+
+/**
+ * Error a handler throws to have the message redelivered, whatever the error
+ * it wraps
+ *
+ * @example
+ * ```typescript
+ * messageBus.subscribe(async (event) => {
+ *   const order = await orders.get(event.data.orderId);
+ *   if (!order) {
+ *     // The projection creating the order may not have run yet
+ *     throw new RetriableError(`Order ${event.data.orderId} not found yet`);
+ *   }
+ * }, 'PaymentReceived');
+ * ```
+ */
+export class RetriableError extends EmmettError {
+  constructor(
+    message: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    // Emmett errors reset their prototype, which would break instanceof
+    Object.setPrototypeOf(this, RetriableError.prototype);
+  }
+}
+
+/**
+ * Error a handler throws to have the message acknowledged without retrying,
+ * whatever the error it wraps
+ */
+export class PermanentError extends EmmettError {
+  constructor(
+    message: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    // Emmett errors reset their prototype, which would break instanceof
+    Object.setPrototypeOf(this, PermanentError.prototype);
+  }
+}
+
+/**
+ * Message being processed when an error is classified
+ */
+export interface RetryContext {
+  /**
+   * The message type
+   */
+  messageType: string;
+
+  /**
+   * Whether the message is a command or an event
+   */
+  kind: 'command' | 'event';
+
+  /**
+   * Delivery attempt of the message (0 unless the subscription has a
+   * dead-letter policy)
+   */
+  deliveryAttempt: number;
+}
+
+/**
+ * Decides whether a failed message is redelivered
+ *
+ * Returns true to nack the message for redelivery, false to ack it, or
+ * undefined to fall back to the default classification (see shouldRetry).
+ *
+ * @example
+ * ```typescript
+ * const retryClassifier: RetryClassifier = (error, { deliveryAttempt }) => {
+ *   if (error instanceof PaymentDeclinedError) return false;
+ *   if (deliveryAttempt >= 10) return false;
+ *   return undefined;
+ * };
+ * ```
+ */
+export type RetryClassifier = (
+  error: unknown,
+  context: RetryContext,
+) => boolean | undefined;
+
+/**
+ * gRPC status codes of errors that fail again when retried
+ */
+const PERMANENT_GRPC_CODES: ReadonlySet<number> = new Set([
+  3, // INVALID_ARGUMENT
+  6, // ALREADY_EXISTS
+  9, // FAILED_PRECONDITION
+  11, // OUT_OF_RANGE
+  12, // UNIMPLEMENTED
+]);
+
+/**
+ * Node.js system error codes of transient network failures
+ */
+const TRANSIENT_SYSTEM_ERROR_CODES: ReadonlySet<string> = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+]);
+
+/**
+ * Get the gRPC status code of an error thrown by a Google Cloud client
+ *
+ * @param error - The error
+ * @returns The status code, or undefined for errors without one
+ */
+function getGrpcStatusCode(error: Error): number | undefined {
+  const code = (error as { code?: unknown }).code;
+  if (typeof code !== 'number' || !Number.isInteger(code)) {
+    return undefined;
+  }
+
+  // gRPC status codes range from OK (0) to UNAUTHENTICATED (16)
+  return code >= 0 && code <= 16 ? code : undefined;
+}
+
+/**
+ * Determine if an error should trigger a retry (nack) or be considered permanent (ack)
+ *
+ * Errors are classified by type, in order:
+ * 1. RetriableError retries, PermanentError doesn't
+ * 2. Google Cloud errors retry unless their gRPC status code is
+ *    INVALID_ARGUMENT, ALREADY_EXISTS, FAILED_PRECONDITION, OUT_OF_RANGE or
+ *    UNIMPLEMENTED (NOT_FOUND retries, since a document may not be written yet)
+ * 3. Node.js network errors (ECONNRESET, ETIMEDOUT, ...) retry
+ * 4. Emmett ConcurrencyErrors retry (the handler runs again on the new state),
+ *    other EmmettErrors (validation, not found, illegal state) don't
+ * 5. Any other error retries
+ *
+ * @param error - The error to classify
+ * @returns true if the error is retriable (should nack), false if permanent (should ack)
+ */
+export function shouldRetry(error: unknown): boolean {
+  if (error instanceof RetriableError) {
+    return true;
+  }
+  if (error instanceof PermanentError) {
+    return false;
+  }
+
+  if (!(error instanceof Error)) {
+    // Unknown error types - retry to be safe
+    return true;
+  }
+
+  const grpcStatusCode = getGrpcStatusCode(error);
+  if (grpcStatusCode !== undefined) {
+    return !PERMANENT_GRPC_CODES.has(grpcStatusCode);
+  }
+
+  const systemErrorCode = (error as NodeJS.ErrnoException).code;
+  if (
+    typeof systemErrorCode === 'string' &&
+    TRANSIENT_SYSTEM_ERROR_CODES.has(systemErrorCode)
+  ) {
+    return true;
+  }
+
+  if (EmmettError.isInstanceOf(error)) {
+    return error.errorCode === EmmettError.Codes.ConcurrencyError;
+  }
+
+  // Default to retry for unknown errors
+  return true;
+}
@@ -0,0 +1,422 @@
+import type {
+  Message as PubSubMessage,
+  PubSub,
+  Subscription,
+  Topic,
+} from '@google-cloud/pubsub';
+import type { ScheduledMessageStore } from './scheduledMessageStore';
+import type { TopicSchemaDefinition } from './topicSchema';
+import { inferMessageKind } from './messageTypeRegistry';
+import {
+  getCommandTopicName,
+  getEventTopicName,
+  getOrCreateSubscription,
+  getOrCreateTopic,
+  getScheduledSubscriptionName,
+  getScheduledTopicName,
+} from './topicManager';
+
+/**
+ * Delay before a nacked (not yet due) scheduled message is redelivered
+ */
+export const SCHEDULED_REDELIVERY_SECONDS = 300;
+
+/**
+ * Default maximum time a scheduled message is held in memory before delivery
+ *
+ * Must be longer than SCHEDULED_REDELIVERY_SECONDS so every message is picked
+ * up by a redelivery that falls inside the hold window.
+ */
+export const DEFAULT_MAX_HOLD_MS = 2 * SCHEDULED_REDELIVERY_SECONDS * 1000;
+
+/**
+ * Time after it was due by which a running dispatcher has delivered a
+ * scheduled message, which is held until due or picked up by the first
+ * redelivery after that
+ *
+ * The default scheduled message store forgets messages and their
+ * cancellations once it has passed (production mode).
+ */
+export const SCHEDULED_DELIVERY_WINDOW_MS =
+  2 * SCHEDULED_REDELIVERY_SECONDS * 1000;
+
+/**
+ * Default maximum number of scheduled messages held in memory
+ *
+ * Held messages stay outstanding under the subscriber's flow control (1000
+ * messages by default), so half of it is left for messages that are due.
+ */
+export const DEFAULT_MAX_HELD_MESSAGES = 500;
+
+/**
+ * How long the dispatcher subscription retains unacknowledged scheduled
+ * messages (7 days, the longest PubSub allows)
+ */
+export const SCHEDULED_MESSAGE_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Longest delay a message can be scheduled with in production mode
+ *
+ * Messages not yet due are redelivered until they are, so they must be picked
+ * up before PubSub discards them at the end of the retention duration. The
+ * last hold window is kept as a margin.
+ */
+export const MAX_SCHEDULE_DELAY_MS =
+  SCHEDULED_MESSAGE_RETENTION_SECONDS * 1000 - DEFAULT_MAX_HOLD_MS;
+
+/**
+ * Attributes of scheduled messages that are not forwarded on delivery
+ */
+const SCHEDULING_ATTRIBUTES: readonly string[] = ['publishTime', 'scheduleId'];
+
+/**
+ * Scheduled message dispatcher configuration
+ */
+export interface ScheduledMessageDispatcherConfig {
+  /**
+   * PubSub client instance
+   */
+  pubsub: PubSub;
+
+  /**
+   * Topic prefix for naming
+   * @default "emmett"
+   */
+  topicPrefix?: string;
+
+  /**
+   * Maximum time in milliseconds a message is held in memory (with its ack
+   * deadline extended) before it is due. Messages due later are nacked and
+   * redelivered after SCHEDULED_REDELIVERY_SECONDS.
+   * @default 600000
+   */
+  maxHoldMs?: number;
+
+  /**
+   * Maximum number of messages held in memory. Held messages count against
+   * the subscriber's flow control, so this must stay below its maxMessages
+   * (1000 by default) for due messages to keep flowing. When full, the
+   * message due last is nacked for redelivery.
+   * @default 500
+   */
+  maxHeldMessages?: number;
+
+  /**
+   * Store tracking scheduled messages and their cancellations. Cancelled
+   * messages are dropped when due; delivered ones are removed from the store.
+   */
+  store?: ScheduledMessageStore;
+
+  /**
+   * Resolve the topic schema of message types, attached to their topics if
+   * the dispatcher creates them
+   */
+  resolveTopicSchema?: (
+    messageType: string,
+  ) => TopicSchemaDefinition | undefined;
+}
+
+/**
+ * Get or create the scheduled messages topic and its dispatcher subscription
+ *
+ * The subscription must exist before anything is scheduled, otherwise
+ * messages published to the topic are dropped by PubSub.
+ *
+ * @param pubsub - PubSub client
+ * @param topicPrefix - Topic prefix for naming
+ * @param topic - Existing scheduled topic (optional)
+ * @returns The scheduled topic and subscription
+ */
+export async function getOrCreateScheduledResources(
+  pubsub: PubSub,
+  topicPrefix = 'emmett',
+  topic?: Topic,
+): Promise<{ topic: Topic; subscription: Subscription }> {
+  const scheduledTopic =
+    topic ??
+    (await getOrCreateTopic(pubsub, getScheduledTopicName(topicPrefix)));
+
+  // Fixed backoff turns nack() into "redeliver later" for messages not yet
+  // due, which are kept as long as PubSub allows
+  const subscription = await getOrCreateSubscription(
+    scheduledTopic,
+    getScheduledSubscriptionName(topicPrefix),
+    {
+      retryPolicy: {
+        minimumBackoff: { seconds: SCHEDULED_REDELIVERY_SECONDS },
+        maximumBackoff: { seconds: SCHEDULED_REDELIVERY_SECONDS },
+      },
+      messageRetentionDuration: {
+        seconds: SCHEDULED_MESSAGE_RETENTION_SECONDS,
+      },
+    },
+  );
+
+  return { topic: scheduledTopic, subscription };
+}
+
+/**
+ * Resolve the kind of a scheduled message
+ *
+ * Uses the messageKind attribute, falling back to the type name for messages
+ * scheduled without it. The payload is never parsed, as it may be
+ * compressed, encrypted, claim-checked or encoded by any codec.
+ *
+ * @param message - The PubSub message
+ * @param messageType - The message type
+ * @returns The message kind
+ */
+function resolveScheduledMessageKind(
+  message: PubSubMessage,
+  messageType: string,
+): 'command' | 'event' {
+  const attributeKind = message.attributes?.messageKind;
+  return attributeKind === 'command' || attributeKind === 'event'
+    ? attributeKind
+    : inferMessageKind(messageType);
+}
+
+/**
+ * Consumer of the scheduled messages topic (production mode)
+ *
+ * PubSub has no native delayed delivery, so the dispatcher holds scheduled
+ * messages until their publishTime attribute and then re-publishes them to the
+ * command or event topic of their type:
+ *
+ * - Due messages are delivered immediately
+ * - Messages due within maxHoldMs are held in memory while the client library
+ *   extends their ack deadline, up to maxHeldMessages (the earliest due are
+ *   kept), so held messages never use up the subscriber's flow control
+ * - Messages due later are nacked and redelivered after a fixed backoff, for
+ *   up to SCHEDULED_MESSAGE_RETENTION_SECONDS after they were scheduled
+ *
+ * All dispatchers with the same topic prefix share one subscription, so each
+ * scheduled message is delivered by exactly one instance.
+ */
+export class ScheduledMessageDispatcher {
+  private readonly pubsub: PubSub;
+  private readonly topicPrefix: string;
+  private readonly maxHoldMs: number;
+  private readonly maxHeldMessages: number;
+  private readonly store?: ScheduledMessageStore;
+  private readonly resolveTopicSchema?: (
+    messageType: string,
+  ) => TopicSchemaDefinition | undefined;
+  private readonly heldMessages = new Map<
+    PubSubMessage,
+    { timer: ReturnType<typeof setTimeout>; dueAt: number }
+  >();
+  private subscription?: Subscription;
+
+  constructor(config: ScheduledMessageDispatcherConfig) {
+    this.pubsub = config.pubsub;
+    this.topicPrefix = config.topicPrefix ?? 'emmett';
+    this.maxHoldMs = config.maxHoldMs ?? DEFAULT_MAX_HOLD_MS;
+    this.maxHeldMessages = config.maxHeldMessages ?? DEFAULT_MAX_HELD_MESSAGES;
+    this.store = config.store;
+    this.resolveTopicSchema = config.resolveTopicSchema;
+  }
+
+  /**
+   * Start consuming the scheduled messages topic
+   */
+  async start(): Promise<void> {
+    if (this.subscription) {
+      return;
+    }
+
+    const { subscription } = await getOrCreateScheduledResources(
+      this.pubsub,
+      this.topicPrefix,
+    );
+
+    subscription.on('message', (message: PubSubMessage) => {
+      this.handleMessage(message).catch((error) => {
+        console.error(
+          'Unexpected error in scheduled message dispatcher:',
+          error instanceof Error ? error.message : String(error),
+        );
+        message.nack();
+      });
+    });
+
+    subscription.on('error', (error) => {
+      console.error(
+        'Scheduled messages subscription error:',
+        error instanceof Error ? error.message : String(error),
+      );
+    });
+
+    this.subscription = subscription;
+  }
+
+  /**
+   * Stop consuming and release held messages for redelivery
+   */
+  async close(): Promise<void> {
+    for (const [message, { timer }] of this.heldMessages) {
+      clearTimeout(timer);
+      message.nack();
+    }
+    this.heldMessages.clear();
+
+    if (this.subscription) {
+      const subscription = this.subscription;
+      this.subscription = undefined;
+
+      subscription.removeAllListeners('message');
+      subscription.removeAllListeners('error');
+      await subscription.close();
+    }
+  }
+
+  /**
+   * Process a message from the scheduled messages topic
+   *
+   * @param message - The PubSub message
+   */
+  async handleMessage(message: PubSubMessage): Promise<void> {
+    const publishTime = message.attributes?.publishTime;
+    const dueAt = publishTime ? new Date(publishTime).getTime() : NaN;
+    const delay = Number.isNaN(dueAt) ? 0 : dueAt - Date.now();
+
+    if (delay <= 0) {
+      await this.deliver(message);
+      return;
+    }
+
+    if (
+      delay > this.maxHoldMs ||
+      (this.heldMessages.size >= this.maxHeldMessages &&
+        !this.releaseHeldMessageDueAfter(dueAt))
+    ) {
+      // Not due yet - let PubSub redeliver it later
+      message.nack();
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.heldMessages.delete(message);
+      this.deliver(message).catch((error) => {
+        console.error(
+          'Unexpected error delivering scheduled message:',
+          error instanceof Error ? error.message : String(error),
+        );
+        message.nack();
+      });
+    }, delay);
+    this.heldMessages.set(message, { timer, dueAt });
+  }
+
+  /**
+   * Release the held message due last, if it is due after the given time,
+   * making room for an earlier one
+   *
+   * @param dueAt - Due time of the message to hold
+   * @returns true if a message was released
+   */
+  private releaseHeldMessageDueAfter(dueAt: number): boolean {
+    let latest: PubSubMessage | undefined;
+    let latestDueAt = dueAt;
+    for (const [message, held] of this.heldMessages) {
+      if (held.dueAt > latestDueAt) {
+        latest = message;
+        latestDueAt = held.dueAt;
+      }
+    }
+
+    if (!latest) {
+      return false;
+    }
+
+    clearTimeout(this.heldMessages.get(latest)!.timer);
+    this.heldMessages.delete(latest);
+    latest.nack();
+    return true;
+  }
+
+  /**
+   * Get count of messages currently held in memory
+   *
+   * @returns Number of held messages
+   */
+  getHeldCount(): number {
+    return this.heldMessages.size;
+  }
+
+  /**
+   * Re-publish a due message to its command or event topic
+   *
+   * @param message - The PubSub message
+   */
+  private async deliver(message: PubSubMessage): Promise<void> {
+    const messageType = message.attributes?.messageType ?? 'unknown';
+    const scheduleId = message.attributes?.scheduleId;
+
+    try {
+      if (scheduleId && (await this.store?.isCancelled(scheduleId))) {
+        console.info(`Dropping cancelled scheduled message ${messageType}`);
+        message.ack();
+        this.forget(scheduleId);
+        return;
+      }
+
+      const kind = resolveScheduledMessageKind(message, messageType);
+      const topicName =
+        kind === 'command'
+          ? getCommandTopicName(messageType, this.topicPrefix)
+          : getEventTopicName(messageType, this.topicPrefix);
+
+      const topic = await getOrCreateTopic(
+        this.pubsub,
+        topicName,
+        this.resolveTopicSchema?.(messageType),
+      );
+
+      // Forward the envelope as-is to keep its messageId and timestamp, with
+      // the attributes describing its format, encoding and signature
+      const forwardedAttributes = Object.fromEntries(
+        Object.entries(message.attributes ?? {}).filter(
+          ([name]) => !SCHEDULING_ATTRIBUTES.includes(name),
+        ),
+      );
+      await topic.publishMessage({
+        data: message.data,
+        attributes: {
+          ...forwardedAttributes,
+          messageType,
+          messageKind: kind,
+        },
+      });
+
+      message.ack();
+
+      if (scheduleId) {
+        this.forget(scheduleId);
+      }
+    } catch (error) {
+      console.error(
+        `Failed to deliver scheduled message ${messageType}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+      message.nack();
+    }
+  }
+
+  /**
+   * Remove a delivered or dropped message from the store
+   *
+   * The message is already acked, so a failure only leaves a stale entry
+   * behind and is logged rather than thrown.
+   *
+   * @param scheduleId - The schedule ID
+   */
+  private forget(scheduleId: string): void {
+    this.store?.remove([scheduleId]).catch((error) => {
+      console.error(
+        `Failed to remove scheduled message ${scheduleId} from store:`,
+        error instanceof Error ? error.message : String(error),
+      );
+    });
+  }
+}
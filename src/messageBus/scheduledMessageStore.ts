@@ -0,0 +1,326 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import type { Command, Event } from '@event-driven-io/emmett';
+import type { ScheduledMessageInfo } from './types';
+import { deserialize, serialize } from './serialization';
+
+/**
+ * Pending scheduled message with its schedule ID
+ */
+export interface StoredScheduledMessage extends ScheduledMessageInfo {
+  id: string;
+}
+
+/**
+ * Storage for pending scheduled messages
+ *
+ * In emulator mode, MessageScheduler keeps pending messages in memory and
+ * writes every change through to the store, so schedules can be reloaded after
+ * a restart.
+ *
+ * In production mode, the store tracks messages handed to the scheduled topic
+ * for listing, and their cancellations for the ScheduledMessageDispatcher.
+ * Multi-instance deployments need a store shared by all instances; otherwise
+ * messages delivered by another instance stay listed until they expire (see
+ * ScheduledMessageStoreOptions.expireAfterMs).
+ */
+export interface ScheduledMessageStore {
+  /**
+   * Load all pending scheduled messages
+   */
+  load(): Promise<StoredScheduledMessage[]>;
+
+  /**
+   * Persist a newly scheduled message
+   */
+  add(message: StoredScheduledMessage): Promise<void>;
+
+  /**
+   * Remove delivered or cancelled messages (and their cancellations)
+   */
+  remove(ids: string[]): Promise<void>;
+
+  /**
+   * Remove a pending message and remember its cancellation, so a copy already
+   * handed to the scheduled topic is dropped when due. Unknown or already
+   * delivered messages are not remembered.
+   *
+   * @returns true if the message was pending in the store
+   */
+  cancel(id: string): Promise<boolean>;
+
+  /**
+   * Check whether a scheduled message was cancelled
+   */
+  isCancelled(id: string): Promise<boolean>;
+}
+
+/**
+ * Options of the built-in scheduled message stores
+ */
+export interface ScheduledMessageStoreOptions {
+  /**
+   * Forget messages and their cancellations this long after they were due
+   *
+   * In production mode, a message is removed when this instance's dispatcher
+   * delivers it, so messages delivered by other instances would be listed and
+   * their cancellations kept forever. Leave unset in emulator mode, where due
+   * messages stay pending until they are delivered.
+   *
+   * @default never expire
+   */
+  expireAfterMs?: number;
+}
+
+/**
+ * Drop messages and cancellations due more than expireAfterMs ago
+ */
+function expire(
+  messages: Map<string, StoredScheduledMessage>,
+  cancelled: Map<string, Date>,
+  expireAfterMs: number | undefined,
+): void {
+  if (expireAfterMs === undefined) {
+    return;
+  }
+
+  const expiredBefore = Date.now() - expireAfterMs;
+  for (const [id, message] of messages) {
+    if (message.scheduledAt.getTime() < expiredBefore) {
+      messages.delete(id);
+    }
+  }
+  for (const [id, scheduledAt] of cancelled) {
+    if (scheduledAt.getTime() < expiredBefore) {
+      cancelled.delete(id);
+    }
+  }
+}
+
+/**
+ * Scheduled message store that keeps messages in memory only
+ */
+export class InMemoryScheduledMessageStore implements ScheduledMessageStore {
+  private readonly messages = new Map<string, StoredScheduledMessage>();
+  // Cancelled schedule IDs with the time the message was due
+  private readonly cancelled = new Map<string, Date>();
+
+  constructor(private readonly options: ScheduledMessageStoreOptions = {}) {}
+
+  load(): Promise<StoredScheduledMessage[]> {
+    expire(this.messages, this.cancelled, this.options.expireAfterMs);
+    return Promise.resolve([...this.messages.values()]);
+  }
+
+  add(message: StoredScheduledMessage): Promise<void> {
+    this.messages.set(message.id, message);
+    return Promise.resolve();
+  }
+
+  remove(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.messages.delete(id);
+      this.cancelled.delete(id);
+    }
+    return Promise.resolve();
+  }
+
+  cancel(id: string): Promise<boolean> {
+    const message = this.messages.get(id);
+    if (!message) {
+      return Promise.resolve(false);
+    }
+    this.messages.delete(id);
+    this.cancelled.set(id, message.scheduledAt);
+    return Promise.resolve(true);
+  }
+
+  isCancelled(id: string): Promise<boolean> {
+    expire(this.messages, this.cancelled, this.options.expireAfterMs);
+    return Promise.resolve(this.cancelled.has(id));
+  }
+}
+
+/**
+ * JSON file contents
+ */
+interface ScheduledMessageFile {
+  messages: ScheduledMessageRecord[];
+  cancelled: { id: string; scheduledAt: string }[];
+}
+
+/**
+ * JSON file record of a scheduled message
+ */
+interface ScheduledMessageRecord {
+  id: string;
+  message: string;
+  options?: { afterInMs: number } | { at: string };
+  scheduledAt: string;
+}
+
+/**
+ * Convert a stored scheduled message to its JSON file record
+ */
+function toRecord(message: StoredScheduledMessage): ScheduledMessageRecord {
+  const { options } = message;
+
+  return {
+    id: message.id,
+    message: serialize(message.message).toString('utf-8'),
+    ...(options && {
+      options:
+        'at' in options
+          ? { at: options.at.toISOString() }
+          : { afterInMs: options.afterInMs },
+    }),
+    scheduledAt: message.scheduledAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a JSON file record back to a stored scheduled message
+ */
+function fromRecord(record: ScheduledMessageRecord): StoredScheduledMessage {
+  const { options } = record;
+
+  return {
+    id: record.id,
+    message: deserialize<Command | Event>(Buffer.from(record.message, 'utf-8')),
+    ...(options && {
+      options:
+        'at' in options
+          ? { at: new Date(options.at) }
+          : { afterInMs: options.afterInMs },
+    }),
+    scheduledAt: new Date(record.scheduledAt),
+  };
+}
+
+/**
+ * Scheduled message store backed by a JSON file
+ *
+ * Suitable for local development: every change rewrites the whole file
+ * (atomically, through a temporary file), so keep the number of pending
+ * messages small. Expired messages and cancellations are dropped from the file
+ * on the next change.
+ *
+ * @example
+ * ```typescript
+ * const messageBus = getPubSubMessageBus({
+ *   pubsub,
+ *   useEmulator: true,
+ *   scheduledMessageStore: new FileScheduledMessageStore('.emmett/scheduled.json'),
+ * });
+ * ```
+ */
+export class FileScheduledMessageStore implements ScheduledMessageStore {
+  private messages?: Map<string, StoredScheduledMessage>;
+  // Cancelled schedule IDs with the time the message was due
+  private readonly cancelled = new Map<string, Date>();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly options: ScheduledMessageStoreOptions = {},
+  ) {}
+
+  async load(): Promise<StoredScheduledMessage[]> {
+    const messages = await this.getMessages();
+    expire(messages, this.cancelled, this.options.expireAfterMs);
+    return [...messages.values()];
+  }
+
+  async add(message: StoredScheduledMessage): Promise<void> {
+    const messages = await this.getMessages();
+    messages.set(message.id, message);
+    await this.write();
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const messages = await this.getMessages();
+    for (const id of ids) {
+      messages.delete(id);
+      this.cancelled.delete(id);
+    }
+    await this.write();
+  }
+
+  async cancel(id: string): Promise<boolean> {
+    const messages = await this.getMessages();
+    const message = messages.get(id);
+    if (!message) {
+      return false;
+    }
+    messages.delete(id);
+    this.cancelled.set(id, message.scheduledAt);
+    await this.write();
+    return true;
+  }
+
+  async isCancelled(id: string): Promise<boolean> {
+    const messages = await this.getMessages();
+    expire(messages, this.cancelled, this.options.expireAfterMs);
+    return this.cancelled.has(id);
+  }
+
+  /**
+   * Read the file once and cache its contents
+   */
+  private async getMessages(): Promise<Map<string, StoredScheduledMessage>> {
+    if (this.messages) {
+      return this.messages;
+    }
+
+    let contents: ScheduledMessageFile = { messages: [], cancelled: [] };
+    try {
+      const json = await fs.readFile(this.filePath, 'utf-8');
+      contents = JSON.parse(json) as ScheduledMessageFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(
+          `Failed to read scheduled messages from ${this.filePath}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    }
+
+    if (!this.messages) {
+      this.messages = new Map(
+        contents.messages.map((record) => [record.id, fromRecord(record)]),
+      );
+      for (const { id, scheduledAt } of contents.cancelled) {
+        this.cancelled.set(id, new Date(scheduledAt));
+      }
+    }
+    return this.messages;
+  }
+
+  /**
+   * Write the current contents to the file, one write at a time
+   */
+  private write(): Promise<void> {
+    if (this.messages) {
+      expire(this.messages, this.cancelled, this.options.expireAfterMs);
+    }
+    const snapshot = JSON.stringify({
+      messages: [...(this.messages?.values() ?? [])].map(toRecord),
+      cancelled: [...this.cancelled].map(([id, scheduledAt]) => ({
+        id,
+        scheduledAt: scheduledAt.toISOString(),
+      })),
+    } satisfies ScheduledMessageFile);
+
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.mkdir(dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tempPath, snapshot, 'utf-8');
+        await fs.rename(tempPath, this.filePath);
+      });
+
+    return this.writeQueue;
+  }
+}
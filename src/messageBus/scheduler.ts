@@ -1,7 +1,29 @@
 import type { PubSub, Topic } from '@google-cloud/pubsub';
 import type { Message } from '@event-driven-io/emmett';
+import { EmmettError } from '@event-driven-io/emmett';
 import type { ScheduledMessageInfo } from './types';
-import { serialize } from './serialization';
+import { serialize, serializeCloudEvent } from './serialization';
+import {
+  MAX_SCHEDULE_DELAY_MS,
+  getOrCreateScheduledResources,
+} from './scheduledMessageDispatcher';
+import type {
+  ScheduledMessageStore,
+  StoredScheduledMessage,
+} from './scheduledMessageStore';
+import { InMemoryScheduledMessageStore } from './scheduledMessageStore';
+import type { EnvelopeCodec } from './topicSchema';
+import type { CompressionOptions } from './compression';
+import { compressPayload } from './compression';
+import type { ClaimCheckOptions } from './claimCheck';
+import { checkInPayload } from './claimCheck';
+import type { MessageTypeEncryption } from './encryption';
+import { createDataKey } from './encryption';
+import type { MessageSigner } from './signing';
+import { signPayload } from './signing';
+import type { CloudEventsOptions } from './cloudEvents';
+import { inferMessageKind } from './messageTypeRegistry';
+import { generateUUID } from './utils';
 
 /**
  * Schedule options for messages
@@ -16,6 +38,49 @@ export interface ScheduledMessage {
   options?: ScheduleOptions;
 }
 
+/**
+ * Filter for listing scheduled messages
+ */
+export interface ScheduledMessageFilter {
+  /**
+   * Only messages of this type
+   */
+  messageType?: string;
+
+  /**
+   * Only messages scheduled at or before this time
+   */
+  scheduledBefore?: Date;
+
+  /**
+   * Only messages scheduled at or after this time
+   */
+  scheduledAfter?: Date;
+}
+
+/**
+ * Callback for scheduled messages that failed to be scheduled
+ *
+ * @param error - The failure
+ * @param scheduled - The scheduled message
+ * @param attempt - Number of failed attempts so far (starting at 1)
+ */
+export type ScheduleErrorHandler = (
+  error: Error,
+  scheduled: StoredScheduledMessage,
+  attempt: number,
+) => void;
+
+/**
+ * Scheduled message waiting in the outbox to be published
+ */
+interface OutboxEntry {
+  scheduled: StoredScheduledMessage;
+  attempts: number;
+  publishing: boolean;
+  retryTimer?: ReturnType<typeof setTimeout>;
+}
+
 /**
  * Scheduler configuration
  */
@@ -40,6 +105,88 @@ export interface SchedulerConfig {
    * @default "emmett"
    */
   topicPrefix?: string;
+
+  /**
+   * Resolve whether a message type is a command or an event, so scheduled
+   * messages are delivered to the right topic (production mode)
+   * @default inferMessageKind (from the type name)
+   */
+  resolveMessageKind?: (messageType: string) => 'command' | 'event';
+
+  /**
+   * Resolve the codec of message types with a topic schema, so scheduled
+   * messages are delivered in the topic's encoding (production mode)
+   */
+  resolveEnvelopeCodec?: (messageType: string) => EnvelopeCodec | undefined;
+
+  /**
+   * Resolve the version messages of a type are published with, so scheduled
+   * messages are upcast correctly when delivered (production mode)
+   * @default 1 for every type
+   */
+  resolveMessageVersion?: (messageType: string) => number;
+
+  /**
+   * Resolve the compression of message types, so large scheduled messages are
+   * compressed like published ones (production mode)
+   * @default no compression
+   */
+  resolveCompression?: (messageType: string) => CompressionOptions | undefined;
+
+  /**
+   * Resolve the claim check options of message types, so oversized scheduled
+   * messages are stored instead of published (production mode)
+   * @default no claim checks
+   */
+  resolveClaimCheck?: (messageType: string) => ClaimCheckOptions | undefined;
+
+  /**
+   * Resolve the encryption of message types, so scheduled messages are
+   * encrypted like published ones (production mode)
+   * @default no encryption
+   */
+  resolveEncryption?: (
+    messageType: string,
+  ) => MessageTypeEncryption | undefined;
+
+  /**
+   * Signs scheduled messages like published ones (production mode)
+   * @default unsigned
+   */
+  signer?: MessageSigner;
+
+  /**
+   * Resolve the CloudEvents format of message types, so scheduled messages are
+   * delivered as CloudEvents like published ones (production mode)
+   * @default envelopes encoded by the resolved codec
+   */
+  resolveCloudEvents?: (messageType: string) => CloudEventsOptions | undefined;
+
+  /**
+   * Store for pending scheduled messages and their cancellations
+   * @default InMemoryScheduledMessageStore
+   */
+  store?: ScheduledMessageStore;
+
+  /**
+   * Called whenever scheduleInBackground() fails to publish or persist a
+   * scheduled message. Failed publishes are retried from the outbox.
+   * @default logs the error
+   */
+  onScheduleError?: ScheduleErrorHandler;
+
+  /**
+   * Delay in milliseconds before the first retry of a failed publish, doubled
+   * after every failed attempt
+   * @default 1000
+   */
+  retryDelayMs?: number;
+
+  /**
+   * Maximum delay in milliseconds between retries of a failed publish
+   * @default 60000
+   */
+  maxRetryDelayMs?: number;
 }
 
 /**
@@ -72,53 +219,315 @@ export function calculateScheduledTime(options?: ScheduleOptions): Date {
  * @param now - Current time
  * @returns Messages ready for delivery
  */
-export function filterReadyMessages(
-  pending: ScheduledMessageInfo[],
+export function filterReadyMessages<T extends ScheduledMessageInfo>(
+  pending: T[],
   now: Date,
-): ScheduledMessageInfo[] {
+): T[] {
   return pending.filter((msg) => msg.scheduledAt <= now);
 }
 
+/**
+ * Check whether a scheduled message matches a filter
+ *
+ * @param message - The scheduled message
+ * @param filter - The filter to apply
+ * @returns true if the message matches all filter criteria
+ */
+export function matchesScheduledMessageFilter(
+  message: ScheduledMessageInfo,
+  filter: ScheduledMessageFilter = {},
+): boolean {
+  return (
+    (filter.messageType === undefined ||
+      message.message.type === filter.messageType) &&
+    (filter.scheduledBefore === undefined ||
+      message.scheduledAt <= filter.scheduledBefore) &&
+    (filter.scheduledAfter === undefined ||
+      message.scheduledAt >= filter.scheduledAfter)
+  );
+}
+
 /**
  * Message scheduler with dual mode support (production/emulator)
  */
 export class MessageScheduler {
-  private pendingMessages: ScheduledMessageInfo[] = [];
+  private pendingMessages: StoredScheduledMessage[] = [];
+  // Scheduled in the background, not pending until persisted (emulator mode)
+  private readonly persisting = new Map<string, StoredScheduledMessage>();
+  private readonly store: ScheduledMessageStore;
   private readonly useEmulator: boolean;
   private readonly pubsub: PubSub;
   private readonly topicPrefix: string;
+  private readonly resolveMessageKind?: (
+    messageType: string,
+  ) => 'command' | 'event';
+  private readonly resolveEnvelopeCodec?: (
+    messageType: string,
+  ) => EnvelopeCodec | undefined;
+  private readonly resolveMessageVersion?: (messageType: string) => number;
+  private readonly resolveCompression?: (
+    messageType: string,
+  ) => CompressionOptions | undefined;
+  private readonly resolveClaimCheck?: (
+    messageType: string,
+  ) => ClaimCheckOptions | undefined;
+  private readonly resolveEncryption?: (
+    messageType: string,
+  ) => MessageTypeEncryption | undefined;
+  private readonly signer?: MessageSigner;
+  private readonly resolveCloudEvents?: (
+    messageType: string,
+  ) => CloudEventsOptions | undefined;
+  private readonly onScheduleError?: ScheduleErrorHandler;
+  private readonly retryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly outbox = new Map<string, OutboxEntry>();
   private scheduledTopic?: Topic;
+  private scheduledResourcesReady = false;
 
   constructor(config: SchedulerConfig) {
     this.useEmulator = config.useEmulator;
     this.pubsub = config.pubsub;
     this.scheduledTopic = config.scheduledTopic;
     this.topicPrefix = config.topicPrefix ?? 'emmett';
+    this.resolveMessageKind = config.resolveMessageKind;
+    this.resolveEnvelopeCodec = config.resolveEnvelopeCodec;
+    this.resolveMessageVersion = config.resolveMessageVersion;
+    this.resolveCompression = config.resolveCompression;
+    this.resolveClaimCheck = config.resolveClaimCheck;
+    this.resolveEncryption = config.resolveEncryption;
+    this.signer = config.signer;
+    this.resolveCloudEvents = config.resolveCloudEvents;
+    this.store = config.store ?? new InMemoryScheduledMessageStore();
+    this.onScheduleError = config.onScheduleError;
+    this.retryDelayMs = config.retryDelayMs ?? 1000;
+    this.maxRetryDelayMs = config.maxRetryDelayMs ?? 60000;
+  }
+
+  /**
+   * Reload pending scheduled messages from the store (emulator mode only)
+   *
+   * Messages already pending in memory are kept as they are.
+   *
+   * @returns Number of messages restored
+   */
+  async restore(): Promise<number> {
+    if (!this.useEmulator) {
+      return 0;
+    }
+
+    const stored = await this.store.load();
+    const pendingIds = new Set(this.pendingMessages.map((msg) => msg.id));
+    const restored = stored.filter(
+      (msg) => !pendingIds.has(msg.id) && !this.persisting.has(msg.id),
+    );
+
+    this.pendingMessages.push(...restored);
+
+    return restored.length;
   }
 
   /**
    * Schedule a message for future delivery
    *
-   * In production mode: Publishes to PubSub with publishTime attribute
+   * In production mode: Tracks it in the scheduled message store, then
+   * publishes to PubSub with publishTime and scheduleId attributes, to be
+   * delivered by a ScheduledMessageDispatcher
    * In emulator mode: Stores in memory for later dequeue (emulator doesn't support scheduling)
+   * and writes it through to the scheduled message store
    *
    * @param message - The message to schedule
    * @param options - When to deliver the message
+   * @param id - Schedule ID (generated if not provided)
+   * @returns The schedule ID
+   * @throws EmmettError if the message is due more than MAX_SCHEDULE_DELAY_MS
+   * from now (production mode)
    */
-  async schedule(message: Message, options?: ScheduleOptions): Promise<void> {
+  async schedule(
+    message: Message,
+    options?: ScheduleOptions,
+    id = generateUUID(),
+  ): Promise<string> {
     const scheduledAt = calculateScheduledTime(options);
+    this.assertDeliverable(message, scheduledAt);
+    const pending: StoredScheduledMessage = {
+      id,
+      message,
+      options,
+      scheduledAt,
+    };
 
     if (this.useEmulator) {
-      // Emulator mode: store in memory
-      this.pendingMessages.push({
-        message,
-        options,
-        scheduledAt,
-      });
+      // Emulator mode: persist, then keep in memory (available to dequeue
+      // right away), so a message that failed to persist is not delivered
+      await this.store.add(pending);
+      this.pendingMessages.push(pending);
     } else {
-      // Production mode: publish to PubSub with publishTime attribute
-      await this.publishScheduledMessage(message, scheduledAt);
+      // Production mode: track it before publishing, since the dispatcher may
+      // deliver and forget a due message right away
+      await this.store.add(pending);
+      try {
+        await this.publishScheduledMessage(message, scheduledAt, id);
+      } catch (error) {
+        this.removeFromStore([id]);
+        throw error;
+      }
+    }
+
+    return id;
+  }
+
+  /**
+   * Schedule a message without waiting for it to be published or persisted
+   *
+   * Failures are reported to onScheduleError. In production mode, the message
+   * is kept in an outbox until published, retrying with exponential backoff.
+   * In emulator mode, the message is listed and can be cancelled right away,
+   * but only becomes pending (and dequeued) once persisted; a message that
+   * failed to persist is dropped.
+   *
+   * @param message - The message to schedule
+   * @param options - When to deliver the message
+   * @param id - Schedule ID (generated if not provided)
+   * @returns The schedule ID
+   * @throws EmmettError if the message is due more than MAX_SCHEDULE_DELAY_MS
+   * from now (production mode)
+   */
+  scheduleInBackground(
+    message: Message,
+    options?: ScheduleOptions,
+    id = generateUUID(),
+  ): string {
+    const pending: StoredScheduledMessage = {
+      id,
+      message,
+      options,
+      scheduledAt: calculateScheduledTime(options),
+    };
+    this.assertDeliverable(message, pending.scheduledAt);
+
+    if (this.useEmulator) {
+      this.persisting.set(id, pending);
+      this.store.add(pending).then(
+        () => {
+          // Not cancelled while persisting
+          if (this.persisting.delete(id)) {
+            this.pendingMessages.push(pending);
+          }
+        },
+        (error) => {
+          this.persisting.delete(id);
+          this.reportScheduleError(error, pending, 1);
+        },
+      );
+      return id;
+    }
+
+    this.outbox.set(id, { scheduled: pending, attempts: 0, publishing: false });
+    void this.publishFromOutbox(id);
+
+    return id;
+  }
+
+  /**
+   * Retry every message waiting in the outbox now
+   *
+   * Messages that fail again go back to waiting for their next retry.
+   */
+  async flushOutbox(): Promise<void> {
+    const waiting = [...this.outbox.entries()].filter(
+      ([, entry]) => !entry.publishing,
+    );
+
+    await Promise.all(
+      waiting.map(([id, entry]) => {
+        clearTimeout(entry.retryTimer);
+        entry.retryTimer = undefined;
+        return this.publishFromOutbox(id);
+      }),
+    );
+  }
+
+  /**
+   * Stop retrying and drop the messages waiting in the outbox
+   *
+   * The outbox only lives in memory, so they are lost.
+   *
+   * @returns Number of messages dropped
+   */
+  discardOutbox(): number {
+    const discarded = this.outbox.size;
+    for (const entry of this.outbox.values()) {
+      clearTimeout(entry.retryTimer);
     }
+    this.outbox.clear();
+    return discarded;
+  }
+
+  /**
+   * Get count of messages waiting in the outbox to be published (production mode)
+   *
+   * @returns Number of unpublished scheduled messages
+   */
+  getOutboxCount(): number {
+    return this.outbox.size;
+  }
+
+  /**
+   * List pending scheduled messages
+   *
+   * In production mode, lists the messages tracked by the scheduled message
+   * store that have not been delivered or cancelled yet, and the messages
+   * waiting in the outbox.
+   *
+   * @param filter - Optional filter by type and scheduled time
+   * @returns Pending scheduled messages ordered by scheduled time
+   */
+  async list(
+    filter?: ScheduledMessageFilter,
+  ): Promise<StoredScheduledMessage[]> {
+    const pending = this.useEmulator
+      ? [...this.pendingMessages, ...this.persisting.values()]
+      : await this.loadPublishedAndOutbox();
+
+    return pending
+      .filter((msg) => matchesScheduledMessageFilter(msg, filter))
+      .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+  }
+
+  /**
+   * Cancel a pending scheduled message
+   *
+   * In production mode, the cancellation is recorded in the scheduled message
+   * store, and the ScheduledMessageDispatcher drops the message when it is due.
+   * Messages still in the outbox are removed from it.
+   *
+   * @param id - The schedule ID returned by schedule()
+   * @returns true if the message was pending and is now cancelled
+   */
+  async cancel(id: string): Promise<boolean> {
+    if (!this.useEmulator) {
+      const outboxEntry = this.outbox.get(id);
+      if (outboxEntry) {
+        clearTimeout(outboxEntry.retryTimer);
+        this.outbox.delete(id);
+      }
+
+      // Also record it in case a publish is in flight (tracked by the store)
+      const wasPublished = await this.store.cancel(id);
+      return wasPublished || outboxEntry !== undefined;
+    }
+
+    const index = this.pendingMessages.findIndex((msg) => msg.id === id);
+    if (index !== -1) {
+      this.pendingMessages.splice(index, 1);
+    } else if (!this.persisting.delete(id)) {
+      return false;
+    }
+
+    await this.store.remove([id]);
+
+    return true;
   }
 
   /**
@@ -129,6 +538,20 @@ export class MessageScheduler {
    * @returns Array of scheduled messages ready for delivery
    */
   dequeue(): ScheduledMessage[] {
+    // Convert to ScheduledMessage format
+    return this.dequeueScheduled().map((info) => ({
+      message: info.message,
+      options: info.options,
+    }));
+  }
+
+  /**
+   * Dequeue ready scheduled messages with their schedule IDs (emulator mode
+   * only)
+   *
+   * @returns Array of stored scheduled messages ready for delivery
+   */
+  dequeueScheduled(): StoredScheduledMessage[] {
     if (!this.useEmulator) {
       // In production mode, PubSub handles scheduling, so dequeue returns empty
       return [];
@@ -141,12 +564,150 @@ export class MessageScheduler {
     this.pendingMessages = this.pendingMessages.filter(
       (msg) => msg.scheduledAt > now,
     );
+    this.removeFromStore(ready.map((msg) => msg.id));
 
-    // Convert to ScheduledMessage format
-    return ready.map((info) => ({
-      message: info.message,
-      options: info.options,
-    }));
+    return ready;
+  }
+
+  /**
+   * Put back a dequeued message whose delivery failed (emulator mode only)
+   *
+   * The message keeps its schedule ID, options and scheduled time, so it can
+   * still be listed and cancelled, and is due again right away.
+   *
+   * @param scheduled - The message returned by dequeueScheduled()
+   */
+  async requeue(scheduled: StoredScheduledMessage): Promise<void> {
+    if (!this.useEmulator) {
+      return;
+    }
+
+    this.pendingMessages.push(scheduled);
+    await this.store.add(scheduled);
+  }
+
+  /**
+   * Publish a message from the outbox, scheduling a retry on failure
+   *
+   * @param id - Schedule ID of the outbox entry
+   */
+  private async publishFromOutbox(id: string): Promise<void> {
+    const entry = this.outbox.get(id);
+    if (!entry) {
+      return;
+    }
+
+    const { scheduled } = entry;
+    entry.publishing = true;
+
+    try {
+      // Tracked before publishing, like schedule() does
+      await this.store.add(scheduled);
+      await this.publishScheduledMessage(
+        scheduled.message,
+        scheduled.scheduledAt,
+        id,
+      );
+    } catch (error) {
+      this.removeFromStore([id]);
+      entry.publishing = false;
+      entry.attempts++;
+      this.reportScheduleError(error, scheduled, entry.attempts);
+
+      // Cancelled while publishing
+      if (this.outbox.get(id) !== entry) {
+        return;
+      }
+
+      const delay = Math.min(
+        this.retryDelayMs * 2 ** (entry.attempts - 1),
+        this.maxRetryDelayMs,
+      );
+      entry.retryTimer = setTimeout(() => {
+        entry.retryTimer = undefined;
+        void this.publishFromOutbox(id);
+      }, delay);
+      // Don't keep the process alive just for retries
+      entry.retryTimer.unref();
+      return;
+    }
+
+    // Cancelled while publishing: the dispatcher drops it when due
+    if (this.outbox.get(id) === entry) {
+      this.outbox.delete(id);
+    }
+  }
+
+  /**
+   * Check that a scheduled message is due before the dispatcher subscription
+   * discards it (production mode)
+   *
+   * @param message - The message to schedule
+   * @param scheduledAt - When the message should be delivered
+   * @throws EmmettError if the message is due more than MAX_SCHEDULE_DELAY_MS
+   * from now
+   */
+  private assertDeliverable(message: Message, scheduledAt: Date): void {
+    if (this.useEmulator) {
+      return;
+    }
+
+    const delay = scheduledAt.getTime() - Date.now();
+    if (delay > MAX_SCHEDULE_DELAY_MS) {
+      throw new EmmettError(
+        `Cannot schedule ${message.type} for ${scheduledAt.toISOString()}: messages can be scheduled at most ${MAX_SCHEDULE_DELAY_MS} ms ahead, as PubSub retains them for 7 days`,
+      );
+    }
+  }
+
+  /**
+   * Load published messages from the store, merged with the outbox
+   *
+   * @returns Pending scheduled messages (production mode)
+   */
+  private async loadPublishedAndOutbox(): Promise<StoredScheduledMessage[]> {
+    const published = await this.store.load();
+    const publishedIds = new Set(published.map((msg) => msg.id));
+
+    return [
+      ...published,
+      ...[...this.outbox.values()]
+        .map((entry) => entry.scheduled)
+        .filter((msg) => !publishedIds.has(msg.id)),
+    ];
+  }
+
+  /**
+   * Report a scheduling failure to onScheduleError, or log it
+   *
+   * @param error - The failure
+   * @param scheduled - The scheduled message
+   * @param attempt - Number of failed attempts so far
+   */
+  private reportScheduleError(
+    error: unknown,
+    scheduled: StoredScheduledMessage,
+    attempt: number,
+  ): void {
+    const scheduleError =
+      error instanceof Error ? error : new Error(String(error));
+
+    if (!this.onScheduleError) {
+      console.error(
+        `Failed to schedule message ${scheduled.message.type} (attempt ${attempt}):`,
+        scheduleError.message,
+      );
+      return;
+    }
+
+    try {
+      this.onScheduleError(scheduleError, scheduled, attempt);
+    } catch (hookError) {
+      console.error(
+        'Error in onScheduleError handler:',
+        hookError instanceof Error ? hookError.message : String(hookError),
+      );
+    }
   }
 
   /**
@@ -154,32 +715,83 @@ export class MessageScheduler {
    *
    * @param message - The message to publish
    * @param scheduledAt - When the message should be delivered
+   * @param scheduleId - The schedule ID
    */
   private async publishScheduledMessage(
     message: Message,
     scheduledAt: Date,
+    scheduleId: string,
   ): Promise<void> {
     try {
-      // Get or create the scheduled messages topic
-      if (!this.scheduledTopic) {
-        const topicName = `${this.topicPrefix}-scheduled-messages`;
-        this.scheduledTopic = this.pubsub.topic(topicName);
-
-        const [exists] = await this.scheduledTopic.exists();
-        if (!exists) {
-          await this.scheduledTopic.create();
-        }
+      // Get or create the scheduled messages topic and dispatcher subscription
+      if (!this.scheduledTopic || !this.scheduledResourcesReady) {
+        const { topic } = await getOrCreateScheduledResources(
+          this.pubsub,
+          this.topicPrefix,
+          this.scheduledTopic,
+        );
+        this.scheduledTopic = topic;
+        this.scheduledResourcesReady = true;
       }
 
       // Serialize the message
-      const buffer = serialize(message);
+      // The dispatcher cannot read the kind from payloads that may be
+      // compressed, encrypted or claim-checked, so it is always an attribute
+      const kind =
+        this.resolveMessageKind?.(message.type) ??
+        inferMessageKind(message.type);
+      const codec = this.resolveEnvelopeCodec?.(message.type);
+      const version = this.resolveMessageVersion?.(message.type);
+      const encryption = this.resolveEncryption?.(message.type);
+      const dataKey = encryption
+        ? await createDataKey(encryption.keyProvider)
+        : undefined;
+      const serializeOptions = {
+        kind,
+        version,
+        encryption: dataKey && { key: dataKey.key, paths: encryption?.paths },
+      };
+      const cloudEvents = this.resolveCloudEvents?.(message.type);
+      const { data: buffer, attributes: formatAttributes } = cloudEvents
+        ? serializeCloudEvent(message, cloudEvents, serializeOptions)
+        : {
+            data: serialize(message, { ...serializeOptions, codec }),
+            attributes: codec?.contentType
+              ? { contentType: codec.contentType }
+              : {},
+          };
+      const compression = this.resolveCompression?.(message.type);
+      const { data: payload, contentEncoding } = compression
+        ? compressPayload(message.type, buffer, compression)
+        : { data: buffer, contentEncoding: undefined };
+      // Signed as the dispatcher forwards them, without the scheduling attributes
+      const attributes = {
+        messageType: message.type,
+        messageKind: kind,
+        ...formatAttributes,
+        ...(contentEncoding && { contentEncoding }),
+        ...(dataKey && {
+          encryptionKeyId: dataKey.keyId,
+          encryptedDataKey: dataKey.wrappedKey.toString('base64'),
+        }),
+      };
+      const signature = this.signer
+        ? await signPayload(message.type, payload, attributes, this.signer)
+        : undefined;
+      const claimCheckOptions = this.resolveClaimCheck?.(message.type);
+      const { data, claimCheck } = claimCheckOptions
+        ? await checkInPayload(message.type, payload, claimCheckOptions)
+        : { data: payload, claimCheck: undefined };
 
       // Publish with custom attributes including publish time
       await this.scheduledTopic.publishMessage({
-        data: buffer,
+        data,
         attributes: {
-          messageType: message.type,
+          ...attributes,
+          ...(claimCheck && { claimCheck }),
+          ...signature,
           publishTime: scheduledAt.toISOString(),
+          scheduleId,
         },
       });
     } catch (error) {
@@ -205,7 +817,33 @@ export class MessageScheduler {
    */
   clearPending(): void {
     if (this.useEmulator) {
+      this.removeFromStore([
+        ...this.pendingMessages.map((msg) => msg.id),
+        ...this.persisting.keys(),
+      ]);
       this.pendingMessages = [];
+      this.persisting.clear();
     }
   }
+
+  /**
+   * Remove messages from the store without blocking the caller
+   *
+   * A failed removal only means the messages are restored (and delivered
+   * again) after a restart, so it is logged rather than thrown.
+   *
+   * @param ids - Schedule IDs to remove
+   */
+  private removeFromStore(ids: string[]): void {
+    if (ids.length === 0) {
+      return;
+    }
+
+    this.store.remove(ids).catch((error) => {
+      console.error(
+        'Failed to remove scheduled messages from store:',
+        error instanceof Error ? error.message : String(error),
+      );
+    });
+  }
 }
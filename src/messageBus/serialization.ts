@@ -1,34 +1,185 @@
 import { randomUUID } from 'crypto';
 import type { Command, Event, Message } from '@event-driven-io/emmett';
 import type { PubSubMessageEnvelope } from './types';
+import type { MessageKind } from './messageTypeRegistry';
+import { inferMessageKind } from './messageTypeRegistry';
+import type { EnvelopeCodec } from './topicSchema';
+import type { MessageCodec } from './codec';
+import type { MessageUpcaster } from './upcasting';
+import { upcastMessageData } from './upcasting';
+import { decompressPayload } from './compression';
+import { ENCRYPTED_VALUE_TYPE, decryptBytes, encryptBytes } from './encryption';
+import type { CloudEventsOptions } from './cloudEvents';
+import {
+  CLOUDEVENTS_ATTRIBUTE_PREFIX,
+  decodeCloudEvent,
+  encodeCloudEvent,
+} from './cloudEvents';
 
 /**
- * Date marker for JSON serialization
+ * Marker written in place of a value JSON cannot represent
  */
-interface DateMarker {
-  __type: 'Date';
-  value: string;
+interface TypeMarkerValue {
+  __type: string;
+  value: unknown;
 }
 
 /**
- * Recursively transform Dates to DateMarkers in an object
+ * Converts values of a type to and from JSON-compatible type markers
+ *
+ * Marked values are written as `{ __type: name, value: toJSON(value) }` and
+ * restored with fromJSON() when decoded. The JSON value may contain other
+ * marked values (e.g. Dates inside a Map).
+ *
+ * @example
+ * ```typescript
+ * registerTypeMarker<Money>({
+ *   name: 'Money',
+ *   is: (value): value is Money => value instanceof Money,
+ *   toJSON: (money) => ({ amount: money.amount, currency: money.currency }),
+ *   fromJSON: (json) => {
+ *     const { amount, currency } = json as { amount: bigint; currency: string };
+ *     return new Money(amount, currency);
+ *   },
+ * });
+ * ```
  */
-function transformDatesToMarkers(obj: unknown): unknown {
-  if (obj instanceof Date) {
-    return {
-      __type: 'Date',
-      value: obj.toISOString(),
-    } satisfies DateMarker;
+export interface TypeMarker<T = unknown> {
+  /**
+   * Marker name, written as __type (must be unique)
+   */
+  name: string;
+
+  /**
+   * Whether a value is of this type
+   */
+  is(value: unknown): value is T;
+
+  /**
+   * Convert a value to its JSON value
+   */
+  toJSON(value: T): unknown;
+
+  /**
+   * Restore a value from its JSON value
+   */
+  fromJSON(json: unknown): T;
+}
+
+/**
+ * Constructor of an arbitrary-precision decimal, such as decimal.js,
+ * big.js or bignumber.js
+ */
+export interface DecimalConstructor<T> {
+  new (value: string): T;
+}
+
+const dateMarker: TypeMarker<Date> = {
+  name: 'Date',
+  is: (value): value is Date => value instanceof Date,
+  toJSON: (date) => date.toISOString(),
+  fromJSON: (json) => new Date(json as string),
+};
+
+const bigIntMarker: TypeMarker<bigint> = {
+  name: 'BigInt',
+  is: (value): value is bigint => typeof value === 'bigint',
+  toJSON: (value) => value.toString(),
+  fromJSON: (json) => BigInt(json as string),
+};
+
+const bufferMarker: TypeMarker<Buffer> = {
+  name: 'Buffer',
+  is: (value): value is Buffer => Buffer.isBuffer(value),
+  toJSON: (buffer) => buffer.toString('base64'),
+  fromJSON: (json) => Buffer.from(json as string, 'base64'),
+};
+
+const mapMarker: TypeMarker<Map<unknown, unknown>> = {
+  name: 'Map',
+  is: (value): value is Map<unknown, unknown> => value instanceof Map,
+  toJSON: (map) => [...map.entries()],
+  fromJSON: (json) => new Map(json as [unknown, unknown][]),
+};
+
+const setMarker: TypeMarker<Set<unknown>> = {
+  name: 'Set',
+  is: (value): value is Set<unknown> => value instanceof Set,
+  toJSON: (set) => [...set.values()],
+  fromJSON: (json) => new Set(json as unknown[]),
+};
+
+/**
+ * Registered type markers by name, checked in registration order
+ */
+const typeMarkers = new Map<string, TypeMarker>(
+  [dateMarker, bigIntMarker, bufferMarker, mapMarker, setMarker].map(
+    (marker) => [marker.name, marker as TypeMarker],
+  ),
+);
+
+/**
+ * Register a type marker used by jsonMessageCodec
+ *
+ * Date, BigInt, Buffer, Map and Set are registered by default. Registering a
+ * marker with the name of a registered one replaces it. Producers and
+ * consumers must register the same markers.
+ *
+ * @param marker - The type marker
+ */
+export function registerTypeMarker<T>(marker: TypeMarker<T>): void {
+  typeMarkers.set(marker.name, marker);
+}
+
+/**
+ * Create a type marker for an arbitrary-precision decimal type
+ *
+ * Decimals are written as strings, so no precision is lost.
+ *
+ * @param Decimal - The decimal constructor
+ * @param name - Marker name
+ * @returns The type marker, to be passed to registerTypeMarker()
+ *
+ * @example
+ * ```typescript
+ * import Decimal from 'decimal.js';
+ *
+ * registerTypeMarker(createDecimalTypeMarker(Decimal));
+ * ```
+ */
+export function createDecimalTypeMarker<T extends { toString(): string }>(
+  Decimal: DecimalConstructor<T>,
+  name = 'Decimal',
+): TypeMarker<T> {
+  return {
+    name,
+    is: (value): value is T => value instanceof Decimal,
+    toJSON: (decimal) => decimal.toString(),
+    fromJSON: (json) => new Decimal(json as string),
+  };
+}
+
+/**
+ * Recursively transform values of registered types to type markers
+ */
+function transformToTypeMarkers(obj: unknown): unknown {
+  for (const marker of typeMarkers.values()) {
+    if (marker.is(obj)) {
+      return {
+        __type: marker.name,
+        value: transformToTypeMarkers(marker.toJSON(obj)),
+      } satisfies TypeMarkerValue;
+    }
   }
 
   if (Array.isArray(obj)) {
-    return obj.map(transformDatesToMarkers);
+    return obj.map(transformToTypeMarkers);
   }
 
   if (obj !== null && typeof obj === 'object') {
     const result: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(obj)) {
-      result[key] = transformDatesToMarkers(value);
+      result[key] = transformToTypeMarkers(value);
     }
     return result;
   }
@@ -37,79 +188,452 @@ function transformDatesToMarkers(obj: unknown): unknown {
 }
 
 /**
- * Check if a value is a Date marker
+ * Check if a value is a type marker
  */
-function isDateMarker(value: unknown): value is DateMarker {
+function isTypeMarker(value: unknown): value is TypeMarkerValue {
   return (
     typeof value === 'object' &&
     value !== null &&
     '__type' in value &&
-    (value as DateMarker).__type === 'Date' &&
-    'value' in value &&
-    typeof (value as DateMarker).value === 'string'
+    typeof (value as TypeMarkerValue).__type === 'string' &&
+    'value' in value
+  );
+}
+
+/**
+ * JSON reviver that converts type markers of registered types back to values
+ *
+ * Markers of unregistered types are kept as-is.
+ */
+function typeMarkerReviver(_key: string, value: unknown): unknown {
+  if (isTypeMarker(value)) {
+    const marker = typeMarkers.get(value.__type);
+    if (marker) {
+      return marker.fromJSON(value.value);
+    }
+  }
+  return value;
+}
+
+/**
+ * Default codec: JSON with type markers
+ *
+ * Values of registered types (Date, BigInt, Buffer, Map, Set and those added
+ * with registerTypeMarker()) in data and metadata are written as
+ * `{ __type, value }` markers and restored when decoded.
+ */
+export const jsonMessageCodec: MessageCodec = {
+  contentType: 'application/json',
+  encode: (envelope) =>
+    Buffer.from(
+      JSON.stringify({
+        ...envelope,
+        data: transformToTypeMarkers(envelope.data),
+        metadata: transformToTypeMarkers(envelope.metadata),
+      }),
+    ),
+  decode: (data) =>
+    JSON.parse(
+      data.toString('utf-8'),
+      typeMarkerReviver,
+    ) as PubSubMessageEnvelope,
+};
+
+/**
+ * PubSub attribute names set by the message bus, not usable as custom attributes
+ */
+export const RESERVED_MESSAGE_ATTRIBUTES: readonly string[] = [
+  'messageType',
+  'messageKind',
+  'publishTime',
+  'scheduleId',
+  'messageId',
+  'correlationId',
+  'causationId',
+  'contentType',
+  'contentEncoding',
+  'claimCheck',
+  'encryptionKeyId',
+  'encryptedDataKey',
+  'signature',
+  'signatureKeyId',
+  'content-type',
+];
+
+/**
+ * Check whether an attribute name is set by the message bus
+ *
+ * @param name - The attribute name
+ * @returns true for RESERVED_MESSAGE_ATTRIBUTES and CloudEvent ("ce-") attributes
+ */
+export function isReservedAttribute(name: string): boolean {
+  return (
+    RESERVED_MESSAGE_ATTRIBUTES.includes(name) ||
+    name.startsWith(CLOUDEVENTS_ATTRIBUTE_PREFIX)
+  );
+}
+
+/**
+ * Data key encrypting message data when serializing
+ */
+export interface MessageEncryption {
+  /**
+   * 256-bit data key of the message
+   */
+  key: Buffer;
+
+  /**
+   * Dot-separated paths of the data fields to encrypt, where `*` matches every
+   * array element or object property (e.g. "customer.email" or
+   * "items.*.address"). Missing fields are skipped.
+   * @default the whole data
+   */
+  paths?: readonly string[];
+}
+
+/**
+ * Check if a value is a plain object (not a Date, Map, class instance, etc.)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    [Object.prototype, null].includes(Object.getPrototypeOf(value) as object)
   );
 }
 
 /**
- * JSON reviver that converts Date markers back to Dates
+ * Apply a function to the values at a path
  */
-function dateReviver(_key: string, value: unknown): unknown {
-  if (isDateMarker(value)) {
-    return new Date(value.value);
+function mapPath(
+  value: unknown,
+  segments: readonly string[],
+  fn: (value: unknown) => unknown,
+): unknown {
+  if (segments.length === 0) {
+    return value === undefined ? value : fn(value);
+  }
+
+  const [segment, ...rest] = segments;
+
+  if (Array.isArray(value)) {
+    if (segment === '*') {
+      return value.map((item) => mapPath(item, rest, fn));
+    }
+    const index = Number(segment);
+    return Number.isInteger(index) && index >= 0 && index < value.length
+      ? value.map((item: unknown, i) =>
+          i === index ? mapPath(item, rest, fn) : item,
+        )
+      : value;
+  }
+
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = { ...value };
+    for (const key of segment === '*' ? Object.keys(result) : [segment]) {
+      if (key in result) {
+        result[key] = mapPath(result[key], rest, fn);
+      }
+    }
+    return result;
   }
+
   return value;
 }
 
 /**
- * Determine if a message is a command or event based on its type
+ * Encrypt message data, or the values at the encrypted paths
+ *
+ * Encrypted values are written as `{ __type: 'Encrypted', value }` markers
+ * holding their JSON (with type markers) encrypted with AES-256-GCM, bound to
+ * the message type.
+ */
+function encryptMessageData(
+  messageType: string,
+  data: unknown,
+  encryption: MessageEncryption,
+): unknown {
+  const encryptValue = (value: unknown): TypeMarkerValue => ({
+    __type: ENCRYPTED_VALUE_TYPE,
+    value: encryptBytes(
+      encryption.key,
+      Buffer.from(JSON.stringify(transformToTypeMarkers(value))),
+      messageType,
+    ),
+  });
+
+  if (!encryption.paths) {
+    return encryptValue(data);
+  }
+
+  return encryption.paths.reduce(
+    (result, path) => mapPath(result, path.split('.'), encryptValue),
+    data,
+  );
+}
+
+/**
+ * Recursively decrypt the encrypted values of message data
+ */
+function decryptMessageData(
+  messageType: string,
+  data: unknown,
+  key: Buffer,
+): unknown {
+  if (isTypeMarker(data) && data.__type === ENCRYPTED_VALUE_TYPE) {
+    return JSON.parse(
+      decryptBytes(key, data.value as string, messageType).toString('utf-8'),
+      typeMarkerReviver,
+    );
+  }
+
+  if (Array.isArray(data)) {
+    return data.map((item) => decryptMessageData(messageType, item, key));
+  }
+
+  if (isPlainObject(data)) {
+    const result: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(data)) {
+      result[name] = decryptMessageData(messageType, value, key);
+    }
+    return result;
+  }
+
+  return data;
+}
+
+/**
+ * Envelope fields to set when serializing
  */
-function getMessageKind(message: Message): 'command' | 'event' {
-  // Simple heuristic: if the message type contains "Command", it's a command
-  // Otherwise, it's an event
-  // This can be customized based on your naming conventions
-  const typeStr = message.type.toLowerCase();
-  return typeStr.includes('command') ? 'command' : 'event';
+export interface SerializeOptions {
+  /**
+   * Envelope kind (inferred from the message type name if not provided)
+   */
+  kind?: MessageKind;
+
+  /**
+   * Message ID (generated if not provided)
+   */
+  messageId?: string;
+
+  /**
+   * ID shared by all messages of the same conversation or workflow
+   */
+  correlationId?: string;
+
+  /**
+   * ID of the message that caused this one
+   */
+  causationId?: string;
+
+  /**
+   * Codec encoding the envelope (message codec or topic schema codec)
+   * @default jsonMessageCodec
+   */
+  codec?: EnvelopeCodec;
+
+  /**
+   * Version of the message data shape
+   * @default 1
+   */
+  version?: number;
+
+  /**
+   * Encrypt the message data with a data key
+   */
+  encryption?: MessageEncryption;
 }
 
 /**
  * Serialize a Command or Event to a Buffer for PubSub transport
  *
  * @param message - The message to serialize
+ * @param options - Envelope kind, version, message ID, correlation/causation
+ * IDs, codec and encryption
  * @returns Buffer containing the serialized message envelope
  */
-export function serialize(message: Command | Event): Buffer {
-  const envelope = {
+export function serialize(
+  message: Command | Event,
+  options: SerializeOptions = {},
+): Buffer {
+  return (options.codec ?? jsonMessageCodec).encode(
+    createEnvelope(message, options),
+  );
+}
+
+/**
+ * Serialize a Command or Event as a CloudEvent
+ *
+ * @param message - The message to serialize
+ * @param cloudEvents - CloudEvent source and mode
+ * @param options - Envelope kind, version, message ID, correlation/causation
+ * IDs and encryption (the codec is not used)
+ * @returns The message data and the attributes to publish it with
+ *
+ * @example
+ * ```typescript
+ * const { data, attributes } = serializeCloudEvent(event, {
+ *   source: '//orders.myapp.example.com',
+ * });
+ * await topic.publishMessage({ data, attributes });
+ * ```
+ */
+export function serializeCloudEvent(
+  message: Command | Event,
+  cloudEvents: CloudEventsOptions,
+  options: SerializeOptions = {},
+): { data: Buffer; attributes: Record<string, string> } {
+  return encodeCloudEvent(createEnvelope(message, options), cloudEvents);
+}
+
+/**
+ * Create the envelope of a message
+ */
+function createEnvelope(
+  message: Command | Event,
+  options: SerializeOptions,
+): PubSubMessageEnvelope {
+  return {
     type: message.type,
-    kind: getMessageKind(message),
-    data: transformDatesToMarkers(message.data),
-    metadata: 'metadata' in message ? transformDatesToMarkers(message.metadata) : undefined,
+    kind: options.kind ?? inferMessageKind(message.type),
+    version: options.version ?? 1,
+    data: options.encryption
+      ? encryptMessageData(message.type, message.data, options.encryption)
+      : message.data,
+    metadata: 'metadata' in message ? message.metadata : undefined,
     timestamp: new Date().toISOString(),
-    messageId: randomUUID(),
+    messageId: options.messageId ?? randomUUID(),
+    correlationId: options.correlationId,
+    causationId: options.causationId,
   };
+}
 
-  const json = JSON.stringify(envelope);
-  return Buffer.from(json);
+/**
+ * Options for deserialize()
+ */
+export interface DeserializeOptions {
+  /**
+   * Codec the envelope was encoded with
+   * @default jsonMessageCodec
+   */
+  codec?: EnvelopeCodec;
+
+  /**
+   * Upcasters of the message type's older versions
+   */
+  upcasters?: readonly MessageUpcaster[];
+
+  /**
+   * The contentEncoding attribute of compressed messages
+   */
+  contentEncoding?: string;
+
+  /**
+   * Maximum size of decompressed payloads
+   * @default DEFAULT_MAX_DECOMPRESSED_BYTES (64 MiB)
+   */
+  maxDecompressedBytes?: number;
+
+  /**
+   * Data key of encrypted messages, decrypting their data before upcasting
+   */
+  decryptionKey?: Buffer;
+
+  /**
+   * PubSub attributes of the message; CloudEvents (binary mode "ce-"
+   * attributes or a structured-mode content-type) are decoded from them
+   * instead of with the codec
+   */
+  attributes?: Record<string, string>;
 }
 
 /**
  * Deserialize a Buffer from PubSub into a Command or Event
  *
  * @param buffer - The buffer containing the serialized message
- * @returns The deserialized message
- * @throws Error if the buffer cannot be deserialized
+ * @param options - Codec, upcasters, content encoding, data key and
+ * attributes of the message
+ * @returns The deserialized message, with data of the latest version
+ * @throws EmmettError if the content encoding is not supported, or the
+ * decompressed payload is too large
+ * @throws Error if the buffer cannot be deserialized, decrypted or upcast
+ */
+export function deserialize<T extends Command | Event>(
+  buffer: Buffer,
+  options: DeserializeOptions = {},
+): T {
+  return deserializeWithMessageId<T>(buffer, options).message;
+}
+
+/**
+ * Deserialize a Buffer from PubSub, keeping the envelope message ID
+ *
+ * @param buffer - The buffer containing the serialized message
+ * @param options - Codec, upcasters, content encoding, data key and
+ * attributes of the message
+ * @returns The deserialized message with its envelope messageId and
+ * correlation/causation IDs (if present)
+ * @throws EmmettError if the content encoding is not supported, or the
+ * decompressed payload is too large
+ * @throws Error if the buffer cannot be deserialized, decrypted or upcast
  */
-export function deserialize<T extends Command | Event>(buffer: Buffer): T {
+export function deserializeWithMessageId<T extends Command | Event>(
+  buffer: Buffer,
+  options: DeserializeOptions = {},
+): {
+  message: T;
+  messageId: string | undefined;
+  correlationId?: string;
+  causationId?: string;
+} {
+  const {
+    codec,
+    upcasters,
+    contentEncoding,
+    maxDecompressedBytes,
+    decryptionKey,
+    attributes,
+  } = options;
+  // Unsupported encodings and oversized payloads are permanent failures,
+  // thrown as-is
+  const payload = decompressPayload(
+    buffer,
+    contentEncoding,
+    maxDecompressedBytes,
+  );
+
   try {
-    const json = buffer.toString('utf-8');
-    const envelope = JSON.parse(json, dateReviver) as PubSubMessageEnvelope;
+    const envelope =
+      decodeCloudEvent(payload, attributes) ??
+      (codec ?? jsonMessageCodec).decode(payload);
+
+    const decrypted = decryptionKey
+      ? decryptMessageData(envelope.type, envelope.data, decryptionKey)
+      : envelope.data;
+
+    const data = upcasters
+      ? upcastMessageData(
+          envelope.type,
+          envelope.version ?? 1,
+          decrypted,
+          envelope.metadata,
+          upcasters,
+        )
+      : decrypted;
 
     const message = {
       type: envelope.type,
-      data: envelope.data,
+      data,
       ...(envelope.metadata ? { metadata: envelope.metadata } : {}),
     } as Message;
 
-    return message as T;
+    return {
+      message: message as T,
+      messageId:
+        typeof envelope.messageId === 'string' ? envelope.messageId : undefined,
+      ...(envelope.correlationId && { correlationId: envelope.correlationId }),
+      ...(envelope.causationId && { causationId: envelope.causationId }),
+    };
   } catch (error) {
     throw new Error(
       `Failed to deserialize message: ${error instanceof Error ? error.message : String(error)}`,
@@ -0,0 +1,345 @@
+import type { KeyObject } from 'crypto';
+import {
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  timingSafeEqual,
+  verify,
+} from 'crypto';
+import { EmmettError } from '@event-driven-io/emmett';
+
+/**
+ * Signs published messages
+ */
+export interface MessageSigner {
+  /**
+   * Sign message bytes with the current signing key
+   *
+   * @param data - The bytes to sign
+   * @returns ID of the signing key and the signature
+   */
+  sign(data: Buffer): Promise<{ keyId: string; signature: Buffer }>;
+}
+
+/**
+ * Verifies the signatures of received messages
+ */
+export interface MessageVerifier {
+  /**
+   * Verify a signature
+   *
+   * @param data - The signed bytes
+   * @param signature - The signature
+   * @param keyId - ID of the key the message was signed with
+   * @returns false if the signature does not match or the key is unknown
+   */
+  verify(data: Buffer, signature: Buffer, keyId: string): Promise<boolean>;
+}
+
+/**
+ * Message signing and verification
+ */
+export interface SigningOptions {
+  /**
+   * Signs published and scheduled messages
+   * @default undefined (messages are published unsigned)
+   */
+  signer?: MessageSigner;
+
+  /**
+   * Verifies received messages; unsigned messages and messages with invalid
+   * signatures are rejected
+   * @default undefined (signatures are not checked)
+   */
+  verifier?: MessageVerifier;
+}
+
+/**
+ * Key accepted by the asymmetric signer and verifier: a KeyObject or a PEM
+ * string
+ */
+export type SigningKey = KeyObject | string;
+
+/**
+ * Error thrown when a received message is unsigned or its signature is invalid
+ *
+ * Such messages are dead-lettered instead of handled.
+ */
+export class MessageSignatureError extends EmmettError {
+  constructor(
+    public readonly messageType: string,
+    reason: string,
+  ) {
+    super(`Invalid ${messageType} message signature: ${reason}`);
+    // Emmett errors reset their prototype, which would break instanceof
+    Object.setPrototypeOf(this, MessageSignatureError.prototype);
+  }
+}
+
+/**
+ * Attributes that are not signed: the signature itself, the scheduling
+ * attributes the dispatcher strips, and the claim check, which replaces the
+ * signed payload after signing
+ */
+const UNSIGNED_ATTRIBUTES: readonly string[] = [
+  'signature',
+  'signatureKeyId',
+  'publishTime',
+  'scheduleId',
+  'claimCheck',
+];
+
+/**
+ * Prefix of attributes added by the PubSub client library (e.g. tracing)
+ */
+const CLIENT_ATTRIBUTE_PREFIX = 'googclient_';
+
+/**
+ * Get the bytes signed for a message payload
+ *
+ * The message type and the attributes (sorted by name) are signed with the
+ * payload, so a signed message cannot be replayed on the topic of another
+ * type, nor its IDs, CloudEvent or custom attributes changed.
+ */
+function getSignedBytes(
+  messageType: string,
+  payload: Buffer,
+  attributes: Record<string, string>,
+): Buffer {
+  const signedAttributes = Object.entries(attributes)
+    .filter(
+      ([name]) =>
+        !UNSIGNED_ATTRIBUTES.includes(name) &&
+        !name.startsWith(CLIENT_ATTRIBUTE_PREFIX),
+    )
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  return Buffer.concat([
+    Buffer.from(`${messageType}\n${JSON.stringify(signedAttributes)}\n`),
+    payload,
+  ]);
+}
+
+/**
+ * Sign a message payload and its attributes
+ *
+ * @param messageType - The message type
+ * @param payload - The encoded (and possibly compressed) envelope
+ * @param attributes - The attributes the message is published with
+ * @param signer - The message signer
+ * @returns The signature and signatureKeyId attributes
+ */
+export async function signPayload(
+  messageType: string,
+  payload: Buffer,
+  attributes: Record<string, string>,
+  signer: MessageSigner,
+): Promise<{ signature: string; signatureKeyId: string }> {
+  const { keyId, signature } = await signer.sign(
+    getSignedBytes(messageType, payload, attributes),
+  );
+  return { signature: signature.toString('base64'), signatureKeyId: keyId };
+}
+
+/**
+ * Verify the signature of a received message payload and its attributes
+ *
+ * @param messageType - The message type being processed
+ * @param payload - The encoded (and possibly compressed) envelope
+ * @param attributes - The PubSub message attributes
+ * @param verifier - The message verifier
+ * @throws MessageSignatureError if the message is unsigned or the signature is invalid
+ */
+export async function verifyPayload(
+  messageType: string,
+  payload: Buffer,
+  attributes: Record<string, string> | undefined,
+  verifier: MessageVerifier,
+): Promise<void> {
+  const { signature, signatureKeyId } = attributes ?? {};
+  if (!signature || !signatureKeyId) {
+    throw new MessageSignatureError(messageType, 'message is not signed');
+  }
+
+  const valid = await verifier.verify(
+    getSignedBytes(messageType, payload, attributes ?? {}),
+    Buffer.from(signature, 'base64'),
+    signatureKeyId,
+  );
+  if (!valid) {
+    throw new MessageSignatureError(
+      messageType,
+      `signature does not match key ${signatureKeyId}`,
+    );
+  }
+}
+
+/**
+ * Signs and verifies messages with HMAC keys shared by all services
+ *
+ * Messages are signed with the current key and verified with the key they
+ * were signed with, so keys can be rotated by adding a key to every service,
+ * then making it current.
+ *
+ * @example
+ * ```typescript
+ * const signer = new HmacMessageSigner(
+ *   { '2024-06': Buffer.from(process.env.SIGNING_KEY!, 'base64') },
+ *   '2024-06',
+ * );
+ * const messageBus = getPubSubMessageBus({
+ *   pubsub,
+ *   signing: { signer, verifier: signer },
+ * });
+ * ```
+ */
+export class HmacMessageSigner implements MessageSigner, MessageVerifier {
+  private readonly keys: Map<string, Buffer>;
+
+  /**
+   * @param keys - HMAC keys by ID
+   * @param currentKeyId - ID of the key signing new messages
+   * @param algorithm - HMAC hash algorithm
+   * @throws EmmettError if the current key is missing
+   */
+  constructor(
+    keys: Record<string, Buffer>,
+    private readonly currentKeyId: string,
+    private readonly algorithm = 'sha256',
+  ) {
+    this.keys = new Map(Object.entries(keys));
+
+    if (!this.keys.has(currentKeyId)) {
+      throw new EmmettError(`Unknown current signing key ${currentKeyId}`);
+    }
+  }
+
+  sign(data: Buffer): Promise<{ keyId: string; signature: Buffer }> {
+    return Promise.resolve({
+      keyId: this.currentKeyId,
+      signature: this.hmac(this.keys.get(this.currentKeyId)!, data),
+    });
+  }
+
+  verify(data: Buffer, signature: Buffer, keyId: string): Promise<boolean> {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      return Promise.resolve(false);
+    }
+
+    const expected = this.hmac(key, data);
+    return Promise.resolve(
+      expected.length === signature.length &&
+        timingSafeEqual(expected, signature),
+    );
+  }
+
+  /**
+   * Compute the HMAC of data
+   */
+  private hmac(key: Buffer, data: Buffer): Buffer {
+    return createHmac(this.algorithm, key).update(data).digest();
+  }
+}
+
+/**
+ * Get the digest algorithm of crypto.sign()/verify() for a key
+ *
+ * Ed25519 and Ed448 keys sign the data itself, other keys a SHA-256 digest.
+ */
+function getDigestAlgorithm(key: KeyObject): string | null {
+  return ['ed25519', 'ed448'].includes(key.asymmetricKeyType ?? '')
+    ? null
+    : 'sha256';
+}
+
+/**
+ * Signs messages with a private key (Ed25519, ECDSA or RSA), so consumers
+ * only need the public key
+ *
+ * @example
+ * ```typescript
+ * const messageBus = getPubSubMessageBus({
+ *   pubsub,
+ *   signing: {
+ *     signer: new AsymmetricMessageSigner(process.env.ORDERS_PRIVATE_KEY!, 'orders-2024-06'),
+ *   },
+ * });
+ * ```
+ */
+export class AsymmetricMessageSigner implements MessageSigner {
+  private readonly privateKey: KeyObject;
+
+  /**
+   * @param privateKey - The private key
+   * @param keyId - ID of the key, for consumers to select the public key
+   */
+  constructor(
+    privateKey: SigningKey,
+    private readonly keyId: string,
+  ) {
+    this.privateKey =
+      typeof privateKey === 'string'
+        ? createPrivateKey(privateKey)
+        : privateKey;
+  }
+
+  sign(data: Buffer): Promise<{ keyId: string; signature: Buffer }> {
+    return Promise.resolve({
+      keyId: this.keyId,
+      signature: sign(
+        getDigestAlgorithm(this.privateKey),
+        data,
+        this.privateKey,
+      ),
+    });
+  }
+}
+
+/**
+ * Verifies messages signed by AsymmetricMessageSigner with trusted public keys
+ *
+ * Keys are rotated by adding the public key of a new signing key before
+ * producers switch to it, and removing old keys once their messages are
+ * consumed.
+ *
+ * @example
+ * ```typescript
+ * const verifier = new AsymmetricMessageVerifier({
+ *   'orders-2024-01': ordersPublicKey2024_01,
+ *   'orders-2024-06': ordersPublicKey2024_06,
+ * });
+ * ```
+ */
+export class AsymmetricMessageVerifier implements MessageVerifier {
+  private readonly publicKeys: Map<string, KeyObject>;
+
+  /**
+   * @param publicKeys - Trusted public keys by ID
+   */
+  constructor(publicKeys: Record<string, SigningKey>) {
+    this.publicKeys = new Map(
+      Object.entries(publicKeys).map(([keyId, key]) => [
+        keyId,
+        typeof key === 'string' ? createPublicKey(key) : key,
+      ]),
+    );
+  }
+
+  verify(data: Buffer, signature: Buffer, keyId: string): Promise<boolean> {
+    const publicKey = this.publicKeys.get(keyId);
+    if (!publicKey) {
+      return Promise.resolve(false);
+    }
+
+    try {
+      return Promise.resolve(
+        verify(getDigestAlgorithm(publicKey), data, publicKey, signature),
+      );
+    } catch {
+      // Malformed signatures (e.g. invalid DER) don't match
+      return Promise.resolve(false);
+    }
+  }
+}
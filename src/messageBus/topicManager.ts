@@ -1,5 +1,7 @@
-import type { PubSub, Subscription, Topic } from '@google-cloud/pubsub';
+import type { IAM, PubSub, Subscription, Topic } from '@google-cloud/pubsub';
 import type { SubscriptionOptions } from './types';
+import type { TopicSchemaDefinition, TopicSchemaEncoding } from './topicSchema';
+import { getTopicSchemaId } from './topicSchema';
 
 /**
  * Get command topic name
@@ -19,7 +21,17 @@ export function getEventTopicName(eventType: string, prefix = 'emmett'): string
 }
 
 /**
- * Get command subscription name
+ * Get shared command subscription name (one per command type, all instances)
+ */
+export function getSharedCommandSubscriptionName(
+  commandType: string,
+  prefix = 'emmett',
+): string {
+  return `${prefix}-cmd-${commandType}`;
+}
+
+/**
+ * Get command subscription name (one per command type and instance)
  */
 export function getCommandSubscriptionName(
   commandType: string,
@@ -40,16 +52,96 @@ export function getEventSubscriptionName(
   return `${prefix}-evt-${eventType}-${subscriptionId}`;
 }
 
+/**
+ * Get scheduled messages topic name
+ */
+export function getScheduledTopicName(prefix = 'emmett'): string {
+  return `${prefix}-scheduled-messages`;
+}
+
+/**
+ * Get scheduled messages subscription name (shared by all dispatchers)
+ */
+export function getScheduledSubscriptionName(prefix = 'emmett'): string {
+  return `${prefix}-scheduled-messages-dispatcher`;
+}
+
+/**
+ * Get dead-letter topic name of a message type (per-type dead-letter topology)
+ */
+export function getDeadLetterTopicName(
+  messageType: string,
+  kind: 'command' | 'event',
+  prefix = 'emmett',
+): string {
+  return `${prefix}-dlq-${kind === 'command' ? 'cmd' : 'evt'}-${messageType}`;
+}
+
+/**
+ * Get dead-letter topic name shared by all message types
+ */
+export function getSharedDeadLetterTopicName(prefix = 'emmett'): string {
+  return `${prefix}-dead-letters`;
+}
+
+/**
+ * Get the name of the subscription keeping the messages of a dead-letter
+ * topic (named after the topic, like shared command subscriptions)
+ *
+ * Full resource names ("projects/<project>/topics/<topic>") are named after
+ * their last segment.
+ */
+export function getDeadLetterSubscriptionName(
+  deadLetterTopicName: string,
+): string {
+  return deadLetterTopicName.slice(deadLetterTopicName.lastIndexOf('/') + 1);
+}
+
+/**
+ * Get or create the Pub/Sub schema of a topic
+ *
+ * An existing schema with the same ID is reused as-is, without committing a
+ * new revision of its definition.
+ *
+ * @param pubsub - PubSub client
+ * @param topicName - Name of the topic
+ * @param schema - The topic schema
+ * @returns Schema settings attaching the schema to the topic
+ */
+export async function getOrCreateTopicSchemaSettings(
+  pubsub: PubSub,
+  topicName: string,
+  schema: TopicSchemaDefinition,
+): Promise<{ schema: string; encoding: TopicSchemaEncoding }> {
+  const schemaId = getTopicSchemaId(topicName, schema);
+
+  try {
+    await pubsub.createSchema(schemaId, schema.type, schema.definition);
+  } catch (createError) {
+    // Ignore ALREADY_EXISTS errors (created before or by another instance)
+    if ((createError as { code?: number }).code !== 6) {
+      throw createError;
+    }
+  }
+
+  return {
+    schema: await pubsub.schema(schemaId).getName(),
+    encoding: schema.encoding ?? 'JSON',
+  };
+}
+
 /**
  * Get or create a topic
  *
  * @param pubsub - PubSub client
  * @param topicName - Name of the topic
+ * @param schema - Schema to attach when the topic is created (optional)
  * @returns The topic instance
  */
 export async function getOrCreateTopic(
   pubsub: PubSub,
   topicName: string,
+  schema?: TopicSchemaDefinition,
 ): Promise<Topic> {
   const topic = pubsub.topic(topicName);
 
@@ -58,7 +150,18 @@ export async function getOrCreateTopic(
 
     if (!exists) {
       try {
-        await topic.create();
+        if (schema) {
+          await pubsub.createTopic({
+            name: topicName,
+            schemaSettings: await getOrCreateTopicSchemaSettings(
+              pubsub,
+              topicName,
+              schema,
+            ),
+          });
+        } else {
+          await topic.create();
+        }
       } catch (createError: any) {
         // Ignore ALREADY_EXISTS errors (race condition)
         if (createError.code !== 6) {
@@ -75,13 +178,98 @@ export async function getOrCreateTopic(
   }
 }
 
+/**
+ * Default maximum delivery attempts of PubSub dead-letter policies
+ */
+const DEFAULT_MAX_DELIVERY_ATTEMPTS = 5;
+
+/**
+ * Check whether a subscription's dead-letter policy matches the options
+ *
+ * PubSub returns full topic names, while options may use topic IDs.
+ */
+function isSameDeadLetterPolicy(
+  existing:
+    | { deadLetterTopic?: string | null; maxDeliveryAttempts?: number | null }
+    | null
+    | undefined,
+  desired: NonNullable<SubscriptionOptions['deadLetterPolicy']>,
+): boolean {
+  const existingTopic = existing?.deadLetterTopic ?? undefined;
+  const desiredTopic = desired.deadLetterTopic;
+  const sameTopic = desiredTopic?.includes('/')
+    ? existingTopic === desiredTopic
+    : existingTopic?.split('/').pop() === desiredTopic;
+
+  return (
+    sameTopic &&
+    (existing?.maxDeliveryAttempts || DEFAULT_MAX_DELIVERY_ATTEMPTS) ===
+      (desired.maxDeliveryAttempts ?? DEFAULT_MAX_DELIVERY_ATTEMPTS)
+  );
+}
+
+/**
+ * Align an existing subscription with the options it would be created with
+ *
+ * The dead-letter policy is updated when it differs. Message ordering cannot
+ * be changed once a subscription exists, so a mismatch throws.
+ *
+ * @param subscription - The existing subscription
+ * @param subscriptionName - Name of the subscription
+ * @param options - Subscription options
+ * @throws Error if enableMessageOrdering differs from the subscription's
+ */
+async function updateExistingSubscription(
+  subscription: Subscription,
+  subscriptionName: string,
+  options: SubscriptionOptions,
+): Promise<void> {
+  const { deadLetterPolicy, enableMessageOrdering } = options;
+  if (!deadLetterPolicy && enableMessageOrdering === undefined) {
+    return;
+  }
+
+  const [metadata] = await subscription.getMetadata();
+
+  if (
+    enableMessageOrdering !== undefined &&
+    enableMessageOrdering !== Boolean(metadata.enableMessageOrdering)
+  ) {
+    throw new Error(
+      `Subscription ${subscriptionName} exists with message ordering ${
+        metadata.enableMessageOrdering ? 'enabled' : 'disabled'
+      }, which cannot be changed; delete it or set enableMessageOrdering to ${!enableMessageOrdering}`,
+    );
+  }
+
+  if (
+    deadLetterPolicy &&
+    !isSameDeadLetterPolicy(metadata.deadLetterPolicy, deadLetterPolicy)
+  ) {
+    await subscription.setMetadata({
+      deadLetterPolicy: {
+        ...(deadLetterPolicy.deadLetterTopic && {
+          deadLetterTopic: deadLetterPolicy.deadLetterTopic,
+        }),
+        ...(deadLetterPolicy.maxDeliveryAttempts && {
+          maxDeliveryAttempts: deadLetterPolicy.maxDeliveryAttempts,
+        }),
+      },
+    });
+  }
+}
+
 /**
  * Get or create a subscription
  *
+ * Existing subscriptions get the dead-letter policy of the options (see
+ * updateExistingSubscription).
+ *
  * @param topic - The topic to subscribe to
  * @param subscriptionName - Name of the subscription
  * @param options - Subscription options
  * @returns The subscription instance
+ * @throws Error if the subscription exists with a different message ordering
  */
 export async function getOrCreateSubscription(
   topic: Topic,
@@ -118,6 +306,12 @@ export async function getOrCreateSubscription(
             }),
           },
         }),
+        ...(options?.messageRetentionDuration && {
+          messageRetentionDuration: options.messageRetentionDuration,
+        }),
+        ...(options?.enableMessageOrdering && {
+          enableMessageOrdering: true,
+        }),
       };
 
       try {
@@ -128,6 +322,8 @@ export async function getOrCreateSubscription(
           throw createError;
         }
       }
+    } else if (options) {
+      await updateExistingSubscription(subscription, subscriptionName, options);
     }
 
     return subscription;
@@ -170,3 +366,67 @@ export async function deleteSubscriptions(
 ): Promise<void> {
   await Promise.all(subscriptions.map((sub) => deleteSubscription(sub)));
 }
+
+/**
+ * Add a member to a role of an IAM policy, unless it already has it
+ *
+ * @param iam - IAM of the topic or subscription
+ * @param role - The role (e.g. "roles/pubsub.publisher")
+ * @param member - The member (e.g. "serviceAccount:...")
+ */
+async function addIamPolicyBinding(
+  iam: IAM,
+  role: string,
+  member: string,
+): Promise<void> {
+  const [policy] = await iam.getPolicy();
+  const bindings = policy.bindings ?? [];
+  const binding = bindings.find((existing) => existing.role === role);
+
+  if (binding?.members?.includes(member)) {
+    return;
+  }
+
+  if (binding) {
+    binding.members = [...(binding.members ?? []), member];
+  } else {
+    bindings.push({ role, members: [member] });
+  }
+
+  await iam.setPolicy({ ...policy, bindings });
+}
+
+/**
+ * Grant the Pub/Sub service agent the permissions dead-letter policies need:
+ * publishing to the dead-letter topic and acknowledging forwarded messages on
+ * the subscription
+ *
+ * @param deadLetterTopic - The dead-letter topic
+ * @param subscription - The subscription forwarding to the dead-letter topic
+ * @param serviceAccount - Email of the Pub/Sub service agent
+ */
+export async function grantDeadLetterPermissions(
+  deadLetterTopic: Topic,
+  subscription: Subscription,
+  serviceAccount: string,
+): Promise<void> {
+  const member = `serviceAccount:${serviceAccount}`;
+
+  try {
+    await addIamPolicyBinding(
+      deadLetterTopic.iam,
+      'roles/pubsub.publisher',
+      member,
+    );
+    await addIamPolicyBinding(
+      subscription.iam,
+      'roles/pubsub.subscriber',
+      member,
+    );
+  } catch (error) {
+    // Log but don't throw - permissions may be managed outside the message bus
+    console.warn(
+      `Failed to grant dead-letter permissions to ${serviceAccount}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
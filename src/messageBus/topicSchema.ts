@@ -0,0 +1,127 @@
+import type { PubSubMessageEnvelope } from './types';
+
+/**
+ * Pub/Sub schema type
+ */
+export type TopicSchemaType = 'AVRO' | 'PROTOCOL_BUFFER';
+
+/**
+ * Encoding of messages published to a topic with a schema
+ */
+export type TopicSchemaEncoding = 'JSON' | 'BINARY';
+
+/**
+ * Converts message envelopes to and from a topic schema's wire format
+ *
+ * @example
+ * ```typescript
+ * import avro from 'avsc';
+ *
+ * const type = avro.Type.forSchema(JSON.parse(definition));
+ * const codec: EnvelopeCodec = {
+ *   encode: (envelope) => type.toBuffer(toRecord(envelope)),
+ *   decode: (data) => fromRecord(type.fromBuffer(data)),
+ * };
+ * ```
+ */
+export interface EnvelopeCodec {
+  /**
+   * MIME type sent as the contentType attribute (optional for topic schemas)
+   */
+  readonly contentType?: string;
+
+  /**
+   * Encode an envelope
+   *
+   * @param envelope - The envelope, with data and metadata as provided
+   * @returns The encoded message data
+   */
+  encode(envelope: PubSubMessageEnvelope): Buffer;
+
+  /**
+   * Decode an envelope
+   *
+   * @param data - The message data
+   * @returns The envelope
+   */
+  decode(data: Buffer): PubSubMessageEnvelope;
+}
+
+/**
+ * Pub/Sub schema attached to the topic of a message type
+ *
+ * The envelope published to the topic must match the schema definition.
+ */
+export interface TopicSchemaDefinition {
+  /**
+   * Schema type
+   */
+  type: TopicSchemaType;
+
+  /**
+   * Avro schema JSON or Protobuf definition
+   */
+  definition: string;
+
+  /**
+   * Message encoding
+   * @default "JSON"
+   */
+  encoding?: TopicSchemaEncoding;
+
+  /**
+   * Schema ID
+   * @default "{topicName}-schema"
+   */
+  schemaId?: string;
+
+  /**
+   * Envelope codec, required for BINARY encoding
+   * @default jsonEnvelopeCodec
+   */
+  codec?: EnvelopeCodec;
+}
+
+/**
+ * JSON replacer writing BigInts as decimal strings, as the Protobuf JSON
+ * mapping does for 64-bit integers (JSON.stringify throws on them otherwise)
+ */
+function bigIntReplacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+/**
+ * Codec writing envelopes as plain JSON
+ *
+ * Unlike the default serialization, Dates and BigInts are written as strings
+ * without type markers (and read back as strings), so typed readers can
+ * consume them.
+ */
+export const jsonEnvelopeCodec: EnvelopeCodec = {
+  encode: (envelope) => Buffer.from(JSON.stringify(envelope, bigIntReplacer)),
+  decode: (data) => JSON.parse(data.toString('utf-8')) as PubSubMessageEnvelope,
+};
+
+/**
+ * Get the schema ID of a topic
+ *
+ * @param topicName - Name of the topic
+ * @param schema - The topic schema
+ * @returns The configured schema ID, or one derived from the topic name
+ */
+export function getTopicSchemaId(
+  topicName: string,
+  schema: TopicSchemaDefinition,
+): string {
+  return schema.schemaId ?? `${topicName}-schema`;
+}
+
+/**
+ * Get the envelope codec of a topic schema
+ *
+ * @param schema - The topic schema
+ * @returns The schema codec, jsonEnvelopeCodec by default
+ */
+export function getEnvelopeCodec(schema: TopicSchemaDefinition): EnvelopeCodec {
+  return schema.codec ?? jsonEnvelopeCodec;
+}
@@ -1,5 +1,31 @@
 import type { PubSub, Subscription, Topic } from '@google-cloud/pubsub';
-import type { Message, SingleMessageHandler } from '@event-driven-io/emmett';
+import type {
+  Command,
+  Event,
+  Message,
+  SingleMessageHandler,
+} from '@event-driven-io/emmett';
+import type { MessageCodec } from './codec';
+import type { CompressionOptions } from './compression';
+import type { ClaimCheckOptions } from './claimCheck';
+import type { EncryptionOptions } from './encryption';
+import type { SigningOptions } from './signing';
+import type { CloudEventsOptions } from './cloudEvents';
+import type { UndecodableMessagePolicy } from './inbound';
+import type { RetryClassifier } from './retry';
+import type { DeadLetterOptions } from './deadLetter';
+import type { IdempotencyStore } from './idempotencyStore';
+import type { MessageTypeDefinitions } from './messageTypeRegistry';
+import type { OrderingKeyResolver } from './ordering';
+import type {
+  ScheduledMessageStore,
+  StoredScheduledMessage,
+} from './scheduledMessageStore';
+import type {
+  ScheduleErrorHandler,
+  ScheduleOptions,
+  ScheduledMessageFilter,
+} from './scheduler';
 
 /**
  * Configuration for PubSub MessageBus
@@ -15,6 +41,24 @@ export interface PubSubMessageBusConfig {
    */
   instanceId?: string;
 
+  /**
+   * How command subscriptions are shared between instances
+   *
+   * - "shared": all instances share one subscription per command type, so
+   *   exactly one replica handles each command
+   * - "instance": every instance gets its own subscription, so every replica
+   *   handles each command (broadcast)
+   *
+   * @default "shared"
+   */
+  commandSubscriptionMode?: CommandSubscriptionMode;
+
+  /**
+   * Command types that always use per-instance (broadcast) subscriptions,
+   * regardless of commandSubscriptionMode
+   */
+  broadcastCommandTypes?: string[];
+
   /**
    * Topic/subscription name prefix
    * @default "emmett"
@@ -22,11 +66,191 @@ export interface PubSubMessageBusConfig {
   topicPrefix?: string;
 
   /**
-   * Enable emulator mode (disables Cloud Scheduler features)
+   * Enable emulator mode (schedules messages in memory instead of the scheduled topic)
    * @default false
    */
   useEmulator?: boolean;
 
+  /**
+   * Deliver due scheduled messages from the scheduled messages topic while
+   * started (production mode only). Disable on instances that should not
+   * dispatch scheduled messages.
+   * @default true
+   */
+  dispatchScheduledMessages?: boolean;
+
+  /**
+   * Automatically deliver due scheduled messages while started (emulator mode
+   * only). Due messages are dequeued and routed through send()/publish(), so
+   * dequeue() does not need to be polled manually.
+   * @default false
+   */
+  autoDeliverScheduledMessages?: boolean;
+
+  /**
+   * Polling interval in milliseconds for autoDeliverScheduledMessages
+   * @default 1000
+   */
+  scheduledMessagePollIntervalMs?: number;
+
+  /**
+   * Store for pending scheduled messages. In emulator mode, use a persistent
+   * store (e.g. FileScheduledMessageStore) so schedules survive restarts; they
+   * are reloaded by start(). In production mode, it tracks scheduled messages
+   * for listScheduled() and cancelScheduled(), and must be shared by all
+   * instances for cancellation to work across them. Set its expireAfterMs to
+   * SCHEDULED_DELIVERY_WINDOW_MS, so messages delivered by other instances
+   * are forgotten.
+   * @default InMemoryScheduledMessageStore (expiring in production mode)
+   */
+  scheduledMessageStore?: ScheduledMessageStore;
+
+  /**
+   * Called whenever schedule() fails to publish or persist a scheduled
+   * message. In production mode, failed publishes are kept in an outbox and
+   * retried with exponential backoff until published or cancelled. Use
+   * scheduleAsync() to handle failures at the call site instead.
+   * @default logs the error
+   */
+  onScheduleError?: ScheduleErrorHandler;
+
+  /**
+   * Skip messages that were already processed on the same subscription, e.g.
+   * after a PubSub redelivery. Handlers receive messages with their ID attached
+   * either way (see extractMessageId). Multi-instance deployments need a store
+   * shared by all instances.
+   * @default undefined (no deduplication)
+   */
+  idempotencyStore?: IdempotencyStore;
+
+  /**
+   * Resolve the ordering key of published messages (e.g.
+   * orderingKeyFromMetadata('streamName')), so messages with the same key are
+   * handled in publish order. Also enables message ordering on the
+   * subscriptions this instance creates, unless
+   * subscriptionOptions.enableMessageOrdering is set.
+   */
+  orderingKey?: OrderingKeyResolver;
+
+  /**
+   * Declared message types with their kind (command or event) and optional
+   * schema. Declared kinds take precedence over handle()/subscribe()
+   * registrations and the type name ("Command" = command).
+   * @default {}
+   */
+  messageTypes?: MessageTypeDefinitions;
+
+  /**
+   * Reject message types missing from messageTypes when sending, publishing,
+   * scheduling, handling or subscribing
+   * @default false
+   */
+  strictMessageTypes?: boolean;
+
+  /**
+   * Name of the topic receiving incoming messages that fail schema validation
+   * or whose handling failed permanently, with their original data and
+   * attributes plus DEAD_LETTER_ATTRIBUTES (reason, error, handler, delivery
+   * attempt, ...). Created by start(), with a subscription named after it
+   * (getDeadLetterSubscriptionName) keeping the messages until read. Without
+   * it or deadLetters, invalid messages are logged and dropped.
+   * @default undefined
+   */
+  deadLetterTopic?: string;
+
+  /**
+   * Dead-letter topics and subscriptions provisioned by start(): one shared
+   * topic (deadLetterTopic, or "<prefix>-dead-letters") or one per message
+   * type, with the Pub/Sub dead-letter policy and IAM bindings of
+   * maxDeliveryAttempts
+   * @default undefined (dead-lettering to deadLetterTopic only, if set)
+   */
+  deadLetters?: DeadLetterOptions;
+
+  /**
+   * Codec encoding published messages, sent as the contentType attribute.
+   * Received messages are decoded with this codec or jsonMessageCodec,
+   * depending on their contentType (JSON when missing). Message types with a
+   * topic schema use the schema codec instead.
+   * @default jsonMessageCodec
+   */
+  codec?: MessageCodec;
+
+  /**
+   * Compress published and scheduled messages above a size threshold, sent
+   * with the contentEncoding attribute. Received messages are decompressed
+   * according to their contentEncoding whether or not this is set. Message
+   * types with a topic schema are never compressed.
+   * @default undefined (no compression)
+   */
+  compression?: CompressionOptions;
+
+  /**
+   * Maximum size in bytes of decompressed received messages. Larger ones are
+   * treated as undecodable (see undecodableMessages), so that small
+   * compressed payloads cannot exhaust the consumer's memory.
+   * @default 67108864 (64 MiB)
+   */
+  maxDecompressedBytes?: number;
+
+  /**
+   * Store payloads above a size threshold in a blob store and publish only
+   * their key, in the claimCheck attribute. Consumers read the payload back
+   * before handling; they need the same store. Message types with a topic
+   * schema are always published inline.
+   * @default undefined (payloads are always published inline)
+   */
+  claimCheck?: ClaimCheckOptions;
+
+  /**
+   * Encrypt the data of published and scheduled messages with AES-256-GCM,
+   * using a new data key per message wrapped by the key provider and sent in
+   * the encryptedDataKey and encryptionKeyId attributes. Message types can
+   * limit encryption to some data paths with encryptedPaths. Received messages
+   * are decrypted before validation and handling; consumers need a key
+   * provider able to unwrap the keys. Message types with a topic schema are
+   * never encrypted.
+   * @default undefined (no encryption)
+   */
+  encryption?: EncryptionOptions;
+
+  /**
+   * Sign published and scheduled messages (signature and signatureKeyId
+   * attributes) and verify received ones. With a verifier, unsigned messages
+   * and messages with invalid signatures are dead-lettered (reason
+   * "signature") instead of handled.
+   * @default undefined (no signing or verification)
+   */
+  signing?: SigningOptions;
+
+  /**
+   * Publish and schedule messages as CloudEvents 1.0, in binary mode ("ce-"
+   * attributes) or structured mode (JSON with an application/cloudevents+json
+   * content-type), instead of the envelope encoded by codec. Received
+   * CloudEvents are decoded in both modes whether or not this is set. Message
+   * types with a topic schema keep their envelope.
+   * @default undefined (envelopes encoded by codec)
+   */
+  cloudEvents?: CloudEventsOptions;
+
+  /**
+   * What to do with received messages that cannot be decoded (malformed
+   * data, unknown content types, failed decryption or inbound adapter
+   * errors): publish them to deadLetterTopic ("dead-letter", dropped without
+   * one), nack them for redelivery ("retry") or ack them ("drop")
+   * @default "dead-letter"
+   */
+  undecodableMessages?: UndecodableMessagePolicy;
+
+  /**
+   * Decides whether messages whose handler failed are redelivered (nack) or
+   * acknowledged, from the error and the message type, kind and delivery
+   * attempt. Returning undefined falls back to the default classification.
+   * @default shouldRetry (RetriableError, PermanentError, gRPC status codes,
+   * network errors and Emmett error codes)
+   */
+  retryClassifier?: RetryClassifier;
+
   /**
    * Subscription configuration options
    */
@@ -40,6 +264,7 @@ export interface PubSubMessageBusConfig {
 
   /**
    * Cleanup subscriptions on close
+   * (shared command subscriptions and consumer groups are kept)
    * @default false
    */
   cleanupOnClose?: boolean;
@@ -52,6 +277,11 @@ export interface PubSubMessageBusConfig {
   closePubSubClient?: boolean;
 }
 
+/**
+ * Command subscription sharing mode
+ */
+export type CommandSubscriptionMode = 'shared' | 'instance';
+
 /**
  * Subscription configuration options
  */
@@ -71,12 +301,28 @@ export interface SubscriptionOptions {
   };
 
   /**
-   * Dead letter policy
+   * Dead letter policy (takes precedence over the policy of
+   * deadLetters.maxDeliveryAttempts). Existing subscriptions are updated to it,
+   * once its deadLetterTopic has a subscription keeping the messages (see
+   * deadLetters.createSubscriptions).
    */
   deadLetterPolicy?: {
     deadLetterTopic?: string;
     maxDeliveryAttempts?: number;
   };
+
+  /**
+   * How long unacknowledged messages are retained (at most 7 days)
+   * @default 7 days
+   */
+  messageRetentionDuration?: { seconds: number };
+
+  /**
+   * Deliver messages with the same ordering key in publish order. PubSub
+   * cannot change it on existing subscriptions, so a mismatch fails start().
+   * @default true when an orderingKey resolver is configured, false otherwise
+   */
+  enableMessageOrdering?: boolean;
 }
 
 /**
@@ -93,6 +339,12 @@ export interface PubSubMessageEnvelope {
    */
   kind: 'command' | 'event';
 
+  /**
+   * Version of the message data shape, upcast to the latest version when
+   * consumed (missing in envelopes published before versioning = 1)
+   */
+  version?: number;
+
   /**
    * Serialized message data
    */
@@ -112,6 +364,92 @@ export interface PubSubMessageEnvelope {
    * UUID for idempotency
    */
   messageId: string;
+
+  /**
+   * ID shared by all messages of the same conversation or workflow
+   */
+  correlationId?: string;
+
+  /**
+   * ID of the message that caused this one
+   */
+  causationId?: string;
+}
+
+/**
+ * Options for send() and publish()
+ */
+export interface PubSubPublishOptions {
+  /**
+   * Message ID, e.g. derived from business data for producer-side
+   * deduplication (generated if not provided)
+   */
+  messageId?: string;
+
+  /**
+   * ID shared by all messages of the same conversation or workflow
+   */
+  correlationId?: string;
+
+  /**
+   * ID of the message that caused this one
+   */
+  causationId?: string;
+
+  /**
+   * Custom PubSub attributes (names used by the message bus are reserved)
+   */
+  attributes?: Record<string, string>;
+
+  /**
+   * Ordering key, overriding the configured orderingKey resolver. Requires
+   * message ordering (an orderingKey resolver or
+   * subscriptionOptions.enableMessageOrdering).
+   */
+  orderingKey?: string;
+}
+
+/**
+ * send() and publish() with message IDs and headers
+ */
+export interface PubSubMessagePublishing {
+  /**
+   * Send a command
+   *
+   * @param command - The command to send
+   * @param options - Message ID, correlation/causation IDs and attributes
+   */
+  send<CommandType extends Command>(
+    command: CommandType,
+    options?: PubSubPublishOptions,
+  ): Promise<void>;
+
+  /**
+   * Publish an event
+   *
+   * @param event - The event to publish
+   * @param options - Message ID, correlation/causation IDs and attributes
+   */
+  publish<EventType extends Event>(
+    event: EventType,
+    options?: PubSubPublishOptions,
+  ): Promise<void>;
+}
+
+/**
+ * Resuming ordering keys paused by a failed publish
+ */
+export interface PubSubMessageOrdering {
+  /**
+   * Resume publishing messages with an ordering key
+   *
+   * A failed publish pauses its ordering key, and later messages with that key
+   * are rejected so none overtakes the failed one. Call it right before
+   * retrying the failed message, or when giving up on it.
+   *
+   * @param orderingKey - The paused ordering key
+   */
+  resumeOrderingKey(orderingKey: string): void;
 }
 
 /**
@@ -130,6 +468,13 @@ export interface SubscriptionInfo {
   subscription: Subscription;
   messageType: string;
   kind: 'command' | 'event';
+
+  /**
+   * Whether the subscription is shared across restarts and instances
+   * (a named consumer group or a shared command subscription) and must
+   * survive cleanupOnClose
+   */
+  durable?: boolean;
 }
 
 /**
@@ -160,3 +505,75 @@ export interface PubSubMessageBusLifecycle {
    */
   isStarted(): boolean;
 }
+
+/**
+ * Durable, named event subscriptions (consumer groups)
+ */
+export interface PubSubConsumerGroupSubscription {
+  /**
+   * Subscribe to events as part of a named consumer group
+   *
+   * All handlers subscribed with the same group name share one PubSub
+   * subscription per event type, so the subscription survives restarts and
+   * horizontally scaled instances compete for its messages.
+   *
+   * @param consumerGroup - Stable consumer group name (e.g. "billing-projection")
+   * @param eventHandler - The handler function
+   * @param eventTypes - Event types to subscribe to
+   */
+  subscribeAs<EventType extends Event>(
+    consumerGroup: string,
+    eventHandler: SingleMessageHandler<EventType>,
+    ...eventTypes: EventType['type'][]
+  ): void;
+}
+
+/**
+ * Cancellable scheduled messages
+ */
+export interface PubSubScheduledMessageManagement {
+  /**
+   * Schedule a message for future delivery
+   *
+   * Failures are reported to onScheduleError and retried in the background.
+   *
+   * @param message - The message to schedule
+   * @param when - When to deliver the message (afterInMs or at)
+   * @returns The schedule ID, to be used with cancelScheduled()
+   */
+  schedule<MessageType extends Command | Event>(
+    message: MessageType,
+    when?: ScheduleOptions,
+  ): string;
+
+  /**
+   * Schedule a message for future delivery and wait until it is scheduled
+   *
+   * @param message - The message to schedule
+   * @param when - When to deliver the message (afterInMs or at)
+   * @returns The schedule ID, to be used with cancelScheduled()
+   * @throws Error if the message could not be scheduled (it is not retried)
+   */
+  scheduleAsync<MessageType extends Command | Event>(
+    message: MessageType,
+    when?: ScheduleOptions,
+  ): Promise<string>;
+
+  /**
+   * Cancel a scheduled message
+   *
+   * @param scheduleId - The schedule ID returned by schedule()
+   * @returns true if the message was pending and is now cancelled
+   */
+  cancelScheduled(scheduleId: string): Promise<boolean>;
+
+  /**
+   * List pending scheduled messages
+   *
+   * @param filter - Optional filter by type and scheduled time
+   * @returns Pending scheduled messages ordered by scheduled time
+   */
+  listScheduled(
+    filter?: ScheduledMessageFilter,
+  ): Promise<StoredScheduledMessage[]>;
+}
@@ -0,0 +1,68 @@
+/**
+ * Converts message data from one version of its type to the next
+ *
+ * @param data - Message data of the previous version
+ * @param metadata - Message metadata (read-only)
+ * @returns Message data of the next version
+ *
+ * @example
+ * ```typescript
+ * // Version 1 had a single price; version 2 adds the currency
+ * const addCurrency: MessageUpcaster = (data) => ({
+ *   ...(data as { price: number }),
+ *   currency: 'EUR',
+ * });
+ * ```
+ */
+export type MessageUpcaster = (data: unknown, metadata: unknown) => unknown;
+
+/**
+ * Get the latest version of a message type
+ *
+ * @param upcasters - Upcasters of the type's older versions
+ * @returns The number of upcasters plus one
+ */
+export function getLatestVersion(
+  upcasters: readonly MessageUpcaster[] = [],
+): number {
+  return upcasters.length + 1;
+}
+
+/**
+ * Upcast message data to the latest version of its type
+ *
+ * upcasters[0] converts version 1 to 2, upcasters[1] converts version 2 to 3,
+ * and so on. Data already at the latest version is returned as-is.
+ *
+ * @param messageType - The message type
+ * @param version - Version the data was published with
+ * @param data - The message data
+ * @param metadata - The message metadata
+ * @param upcasters - Upcasters of the type's older versions
+ * @returns Message data of the latest version
+ * @throws Error if the version is invalid or newer than the latest version
+ */
+export function upcastMessageData(
+  messageType: string,
+  version: number,
+  data: unknown,
+  metadata: unknown,
+  upcasters: readonly MessageUpcaster[],
+): unknown {
+  const latestVersion = getLatestVersion(upcasters);
+
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid ${messageType} version: ${String(version)}`);
+  }
+  if (version > latestVersion) {
+    throw new Error(
+      `Cannot read ${messageType} version ${version}, the latest known version is ${latestVersion}`,
+    );
+  }
+
+  let upcasted = data;
+  for (let from = version; from < latestVersion; from++) {
+    upcasted = upcasters[from - 1](upcasted, metadata);
+  }
+  return upcasted;
+}
@@ -0,0 +1,93 @@
+import { ValidationError } from '@event-driven-io/emmett';
+import type { MessageSchema } from './messageTypeRegistry';
+
+/**
+ * Validator function for message data
+ *
+ * Returns false for invalid data, optionally describing the problems in its
+ * errors property. Validators compiled from a JSON Schema by Ajv
+ * (`ajv.compile(schema)`) have this shape.
+ */
+export interface MessageValidator {
+  (data: unknown): boolean;
+
+  /**
+   * Errors of the last failed validation
+   */
+  errors?: ReadonlyArray<{ instancePath?: string; message?: string }> | null;
+}
+
+/**
+ * Error thrown when message data does not match its schema
+ *
+ * Thrown by send(), publish() and schedule() for outgoing messages. Incoming
+ * messages failing validation are dead-lettered instead of handled.
+ */
+export class MessageValidationError extends ValidationError {
+  constructor(
+    public readonly messageType: string,
+    public readonly errors: string[],
+  ) {
+    super(`Invalid ${messageType} message: ${errors.join('; ')}`);
+    // Emmett errors reset their prototype, which would break instanceof
+    Object.setPrototypeOf(this, MessageValidationError.prototype);
+  }
+}
+
+/**
+ * Describe the errors reported by a schema library's parse()
+ *
+ * Uses the issues of zod-like errors, falling back to the error message.
+ *
+ * @param error - The error thrown by parse()
+ * @returns Error descriptions
+ */
+function describeParseError(error: unknown): string[] {
+  if (
+    error instanceof Error &&
+    'issues' in error &&
+    Array.isArray(error.issues)
+  ) {
+    return (error.issues as { path?: unknown[]; message?: string }[]).map(
+      (issue) => {
+        const path = issue.path?.length ? `/${issue.path.join('/')}` : '';
+        return `${path} ${issue.message ?? 'is invalid'}`.trim();
+      },
+    );
+  }
+
+  return [error instanceof Error ? error.message : String(error)];
+}
+
+/**
+ * Validate message data against a schema or validator function
+ *
+ * @param messageType - The message type
+ * @param schema - Schema with parse() or validator function
+ * @param data - The message data
+ * @throws MessageValidationError if the data is invalid
+ */
+export function validateMessageData(
+  messageType: string,
+  schema: MessageSchema | MessageValidator,
+  data: unknown,
+): void {
+  if (typeof schema === 'function') {
+    if (!schema(data)) {
+      const errors = (schema.errors ?? []).map((error) =>
+        `${error.instancePath ?? ''} ${error.message ?? 'is invalid'}`.trim(),
+      );
+      throw new MessageValidationError(
+        messageType,
+        errors.length > 0 ? errors : ['data is invalid'],
+      );
+    }
+    return;
+  }
+
+  try {
+    schema.parse(data);
+  } catch (error) {
+    throw new MessageValidationError(messageType, describeParseError(error));
+  }
+}
@@ -2,9 +2,18 @@ import type { Command } from '@event-driven-io/emmett';
 import { EmmettError } from '@event-driven-io/emmett';
 import {
   getTestMessageBus,
+  getTestPubSub,
   createTestCommand,
   waitFor,
 } from './helpers';
+import { InMemoryIdempotencyStore } from '../../src/messageBus/idempotencyStore';
+import { generateUUID } from '../../src/messageBus/utils';
+import { MessageValidationError } from '../../src/messageBus/validation';
+import { PermanentError } from '../../src/messageBus/retry';
+import {
+  getDeadLetterSubscriptionName,
+  getDeadLetterTopicName,
+} from '../../src/messageBus/topicManager';
 
 describe('Commands Integration Tests', () => {
   describe('command registration and handling', () => {
@@ -325,4 +334,300 @@ describe('Commands Integration Tests', () => {
       expect(messageBus.isStarted()).toBe(false);
     });
   });
+
+  describe('message IDs and headers', () => {
+    it('should round-trip message ID, correlation/causation IDs and attributes', async () => {
+      const messageBus = getTestMessageBus();
+      const receivedCommands: Command[] = [];
+
+      messageBus.handle(
+        async (command: Command) => {
+          receivedCommands.push(command);
+        },
+        'TestCommand',
+      );
+
+      await messageBus.start();
+
+      try {
+        await messageBus.send(createTestCommand('cmd-1', 'test'), {
+          messageId: 'confirm-cart-1',
+          correlationId: 'request-1',
+          causationId: 'event-1',
+          attributes: { tenant: 'acme' },
+        });
+
+        await waitFor(() => receivedCommands.length > 0);
+
+        expect(receivedCommands[0].metadata).toEqual({
+          messageId: 'confirm-cart-1',
+          correlationId: 'request-1',
+          causationId: 'event-1',
+          attributes: { tenant: 'acme' },
+        });
+      } finally {
+        await messageBus.close();
+      }
+    });
+
+    it('should skip commands sent again with the same message ID', async () => {
+      const messageBus = getTestMessageBus({
+        idempotencyStore: new InMemoryIdempotencyStore(),
+      });
+      const receivedCommands: Command[] = [];
+
+      messageBus.handle(
+        async (command: Command) => {
+          receivedCommands.push(command);
+        },
+        'TestCommand',
+      );
+
+      await messageBus.start();
+
+      try {
+        await messageBus.send(createTestCommand('cmd-1', 'first'), {
+          messageId: 'confirm-cart-1',
+        });
+        await waitFor(() => receivedCommands.length > 0);
+
+        await messageBus.send(createTestCommand('cmd-1', 'second'), {
+          messageId: 'confirm-cart-1',
+        });
+        await messageBus.send(createTestCommand('cmd-2', 'third'));
+        await waitFor(() => receivedCommands.length > 1);
+
+        expect(receivedCommands.map((command) => command.data)).toEqual([
+          { id: 'cmd-1', value: 'first' },
+          { id: 'cmd-2', value: 'third' },
+        ]);
+      } finally {
+        await messageBus.close();
+      }
+    });
+
+    it('should reject reserved attribute names', async () => {
+      const messageBus = getTestMessageBus();
+
+      try {
+        await expect(
+          messageBus.send(createTestCommand('cmd-1', 'test'), {
+            attributes: { messageType: 'Other' },
+          }),
+        ).rejects.toThrow(EmmettError);
+      } finally {
+        await messageBus.close();
+      }
+    });
+  });
+
+  describe('declared message types', () => {
+    it('should route scheduled commands by their declared kind', async () => {
+      const topicPrefix = `test-${generateUUID()}`;
+      const consumer = getTestMessageBus({ topicPrefix });
+      // Producer-only: no handler tells it AddProductItem is a command
+      const producer = getTestMessageBus({
+        topicPrefix,
+        messageTypes: { AddProductItem: 'command' },
+        autoDeliverScheduledMessages: true,
+        scheduledMessagePollIntervalMs: 100,
+      });
+      const receivedCommands: Command[] = [];
+
+      consumer.handle(
+        async (command: Command) => {
+          receivedCommands.push(command);
+        },
+        'AddProductItem',
+      );
+
+      await consumer.start();
+      await producer.start();
+
+      try {
+        producer.schedule(
+          { type: 'AddProductItem', data: { productId: 'p-1' } },
+          { afterInMs: 100 },
+        );
+
+        await waitFor(() => receivedCommands.length > 0);
+
+        expect(receivedCommands[0].data).toEqual({ productId: 'p-1' });
+      } finally {
+        await producer.close();
+        await consumer.close();
+      }
+    });
+
+    it('should reject sending a declared event', async () => {
+      const messageBus = getTestMessageBus({
+        messageTypes: { ProductItemAdded: 'event' },
+      });
+
+      try {
+        await expect(
+          messageBus.send({ type: 'ProductItemAdded', data: {} }),
+        ).rejects.toThrow(EmmettError);
+        expect(() =>
+          messageBus.handle(async () => {}, 'ProductItemAdded'),
+        ).toThrow(EmmettError);
+      } finally {
+        await messageBus.close();
+      }
+    });
+
+    it('should reject undeclared types in strict mode', async () => {
+      const messageBus = getTestMessageBus({
+        messageTypes: { TestCommand: 'command' },
+        strictMessageTypes: true,
+      });
+
+      try {
+        expect(() =>
+          messageBus.handle(async () => {}, 'UnknownCommand'),
+        ).toThrow(EmmettError);
+        expect(() =>
+          messageBus.schedule({ type: 'UnknownCommand', data: {} }),
+        ).toThrow(EmmettError);
+        await expect(
+          messageBus.send({ type: 'UnknownCommand', data: {} }),
+        ).rejects.toThrow(EmmettError);
+        await expect(
+          messageBus.send(createTestCommand('cmd-1', 'test')),
+        ).resolves.toBeUndefined();
+      } finally {
+        await messageBus.close();
+      }
+    });
+  });
+
+  describe('schema validation', () => {
+    const messageTypes = {
+      TestCommand: {
+        kind: 'command' as const,
+        schema: (data: unknown) =>
+          typeof (data as { value?: unknown }).value === 'string',
+      },
+    };
+
+    it('should reject sending invalid commands', async () => {
+      const messageBus = getTestMessageBus({ messageTypes });
+
+      try {
+        await expect(
+          messageBus.send({ type: 'TestCommand', data: { value: 42 } }),
+        ).rejects.toThrow(MessageValidationError);
+      } finally {
+        await messageBus.close();
+      }
+    });
+
+    it('should dead-letter invalid incoming commands', async () => {
+      const topicPrefix = `test-${generateUUID()}`;
+      const deadLetterTopic = `${topicPrefix}-dead-letter`;
+      const pubsub = getTestPubSub();
+      // Producer without the schema, like another team's service
+      const producer = getTestMessageBus({ topicPrefix });
+      const consumer = getTestMessageBus({
+        topicPrefix,
+        messageTypes,
+        deadLetterTopic,
+      });
+      const receivedCommands: Command[] = [];
+      const deadLetters: Record<string, string>[] = [];
+
+      consumer.handle(
+        async (command: Command) => {
+          receivedCommands.push(command);
+        },
+        'TestCommand',
+      );
+
+      await consumer.start();
+      const [subscription] = await pubsub
+        .topic(deadLetterTopic)
+        .createSubscription(`${deadLetterTopic}-inspect`);
+      subscription.on('message', (message) => {
+        deadLetters.push(message.attributes);
+        message.ack();
+      });
+
+      try {
+        await producer.send({ type: 'TestCommand', data: { value: 42 } });
+        await producer.send(createTestCommand('cmd-1', 'valid'));
+
+        await waitFor(
+          () => receivedCommands.length > 0 && deadLetters.length > 0,
+        );
+
+        expect(receivedCommands).toHaveLength(1);
+        expect(receivedCommands[0].data).toEqual({
+          id: 'cmd-1',
+          value: 'valid',
+        });
+        expect(deadLetters[0]).toMatchObject({
+          messageType: 'TestCommand',
+          deadLetterReason: 'validation',
+          deadLetterError: 'Invalid TestCommand message: data is invalid',
+        });
+      } finally {
+        await subscription.close();
+        await subscription.delete();
+        await consumer.close();
+        await producer.close();
+      }
+    });
+  });
+
+  describe('dead-letter topics', () => {
+    it('should dead-letter commands failing permanently to their own topic', async () => {
+      const topicPrefix = `test-${generateUUID()}`;
+      const pubsub = getTestPubSub();
+      const messageBus = getTestMessageBus({
+        topicPrefix,
+        deadLetters: { topology: 'per-type', maxDeliveryAttempts: 5 },
+      });
+      const deadLetters: Record<string, string>[] = [];
+
+      messageBus.handle(
+        async function rejectOrder(command: Command) {
+          throw new PermanentError(
+            `Order ${(command.data as any).id} is cancelled`,
+          );
+        },
+        'TestCommand',
+      );
+
+      await messageBus.start();
+      const subscription = pubsub.subscription(
+        getDeadLetterSubscriptionName(
+          getDeadLetterTopicName('TestCommand', 'command', topicPrefix),
+        ),
+      );
+      subscription.on('message', (message) => {
+        deadLetters.push(message.attributes);
+        message.ack();
+      });
+
+      try {
+        await messageBus.send(createTestCommand('cmd-1', 'value'));
+
+        await waitFor(() => deadLetters.length > 0);
+
+        expect(deadLetters[0]).toMatchObject({
+          messageType: 'TestCommand',
+          deadLetterReason: 'failure',
+          deadLetterError: 'Order cmd-1 is cancelled',
+          deadLetterHandler: 'rejectOrder',
+          deadLetterSubscription: `${topicPrefix}-cmd-TestCommand`,
+        });
+        expect(deadLetters[0].deadLetterErrorStack).toContain(
+          'Order cmd-1 is cancelled',
+        );
+      } finally {
+        await subscription.close();
+        await messageBus.close();
+      }
+    });
+  });
 });
@@ -0,0 +1,230 @@
+import type { Command } from '@event-driven-io/emmett';
+import {
+  getTestMessageBus,
+  getTestPubSub,
+  createTestCommand,
+  waitFor,
+} from './helpers';
+import type { DeadLetteredMessage } from '../../src/messageBus/deadLetterManager';
+import { DeadLetterManager } from '../../src/messageBus/deadLetterManager';
+import { PermanentError } from '../../src/messageBus/retry';
+import { getDeadLetterSubscriptionName } from '../../src/messageBus/topicManager';
+import { generateUUID } from '../../src/messageBus/utils';
+
+describe('Dead Letters Integration Tests', () => {
+  /**
+   * Wait until a dead-letter manager reads the given number of messages
+   */
+  async function waitForDeadLetters(
+    manager: DeadLetterManager,
+    count: number,
+  ): Promise<DeadLetteredMessage[]> {
+    let deadLetters: DeadLetteredMessage[] = [];
+    await waitFor(async () => {
+      deadLetters = await manager.peek();
+      return deadLetters.length >= count;
+    });
+    return deadLetters;
+  }
+
+  it('should peek dead-lettered commands with their error and handler', async () => {
+    const topicPrefix = `test-${generateUUID()}`;
+    const messageBus = getTestMessageBus({ topicPrefix, deadLetters: {} });
+    const manager = new DeadLetterManager({
+      pubsub: getTestPubSub(),
+      topicPrefix,
+    });
+
+    messageBus.handle(async function rejectOrder(command: Command) {
+      throw new PermanentError(
+        `Order ${(command.data as any).id} is cancelled`,
+      );
+    }, 'TestCommand');
+
+    await messageBus.start();
+
+    try {
+      await messageBus.send(createTestCommand('cmd-1', 'value'));
+
+      const [deadLetter] = await waitForDeadLetters(manager, 1);
+
+      expect(deadLetter).toMatchObject({
+        messageType: 'TestCommand',
+        kind: 'command',
+        reason: 'failure',
+        error: 'Order cmd-1 is cancelled',
+        handlerName: 'rejectOrder',
+        subscriptionName: `${topicPrefix}-cmd-TestCommand`,
+        message: {
+          type: 'TestCommand',
+          data: { id: 'cmd-1', value: 'value' },
+        },
+      });
+      expect(deadLetter.attributes).not.toHaveProperty('deadLetterReason');
+
+      // Peeking leaves messages in the dead-letter topic
+      await expect(manager.peek()).resolves.toHaveLength(1);
+      await expect(
+        manager.peek({ error: /is cancelled/, messageTypes: ['TestCommand'] }),
+      ).resolves.toHaveLength(1);
+      await expect(
+        manager.peek({ messageTypes: ['OtherCommand'] }),
+      ).resolves.toHaveLength(0);
+    } finally {
+      await messageBus.close();
+    }
+  });
+
+  it('should keep messages dead-lettered through deadLetterTopic alone', async () => {
+    const topicPrefix = `test-${generateUUID()}`;
+    const deadLetterTopic = `${topicPrefix}-failed`;
+    const messageBus = getTestMessageBus({ topicPrefix, deadLetterTopic });
+    const manager = new DeadLetterManager({
+      pubsub: getTestPubSub(),
+      topicPrefix,
+      subscriptionName: getDeadLetterSubscriptionName(deadLetterTopic),
+    });
+
+    messageBus.handle(async () => {
+      throw new PermanentError('Order is cancelled');
+    }, 'TestCommand');
+
+    await messageBus.start();
+
+    try {
+      await messageBus.send(createTestCommand('cmd-1', 'value'));
+
+      const [deadLetter] = await waitForDeadLetters(manager, 1);
+
+      expect(deadLetter).toMatchObject({
+        messageType: 'TestCommand',
+        reason: 'failure',
+        error: 'Order is cancelled',
+        message: { data: { id: 'cmd-1', value: 'value' } },
+      });
+    } finally {
+      await messageBus.close();
+    }
+  });
+
+  it('should keep the dead-letter topic of a subscription policy', async () => {
+    const topicPrefix = `test-${generateUUID()}`;
+    const deadLetterTopic = `${topicPrefix}-policy-failed`;
+    const messageBus = getTestMessageBus({
+      topicPrefix,
+      subscriptionOptions: {
+        deadLetterPolicy: { deadLetterTopic, maxDeliveryAttempts: 5 },
+      },
+    });
+
+    messageBus.handle(async () => {}, 'TestCommand');
+
+    await messageBus.start();
+
+    try {
+      const [exists] = await getTestPubSub()
+        .subscription(getDeadLetterSubscriptionName(deadLetterTopic))
+        .exists();
+
+      expect(exists).toBe(true);
+    } finally {
+      await messageBus.close();
+    }
+  });
+
+  it('should replay dead-lettered commands to their topic', async () => {
+    const topicPrefix = `test-${generateUUID()}`;
+    const messageBus = getTestMessageBus({ topicPrefix, deadLetters: {} });
+    const manager = new DeadLetterManager({
+      pubsub: getTestPubSub(),
+      topicPrefix,
+    });
+    const handledCommands: Command[] = [];
+    let fixed = false;
+
+    messageBus.handle(async (command: Command) => {
+      if (!fixed) {
+        throw new PermanentError('Not deployed yet');
+      }
+      handledCommands.push(command);
+    }, 'TestCommand');
+
+    await messageBus.start();
+
+    try {
+      await messageBus.send(createTestCommand('cmd-1', 'value'));
+      const [deadLetter] = await waitForDeadLetters(manager, 1);
+
+      fixed = true;
+      const replayed = await manager.replay({ messageIds: [deadLetter.id] });
+
+      expect(replayed).toHaveLength(1);
+      await waitFor(() => handledCommands.length > 0);
+      expect(handledCommands[0].data).toEqual({ id: 'cmd-1', value: 'value' });
+      expect(handledCommands[0].metadata).toMatchObject({
+        messageId: (deadLetter.message as any).metadata.messageId,
+      });
+      await expect(manager.peek()).resolves.toHaveLength(0);
+    } finally {
+      await messageBus.close();
+    }
+  });
+
+  it('should replay invalid commands after editing them', async () => {
+    const topicPrefix = `test-${generateUUID()}`;
+    const messageTypes = {
+      TestCommand: {
+        kind: 'command' as const,
+        schema: (data: unknown) =>
+          typeof (data as { value?: unknown }).value === 'string',
+      },
+    };
+    // Producer without the schema, like another team's service
+    const producer = getTestMessageBus({ topicPrefix });
+    const consumer = getTestMessageBus({
+      topicPrefix,
+      messageTypes,
+      deadLetters: { topology: 'per-type' },
+    });
+    const manager = new DeadLetterManager({
+      pubsub: getTestPubSub(),
+      topicPrefix,
+      subscriptionName: `${topicPrefix}-dlq-cmd-TestCommand`,
+      messageTypes,
+      messageBus: consumer,
+    });
+    const handledCommands: Command[] = [];
+
+    consumer.handle(async (command: Command) => {
+      handledCommands.push(command);
+    }, 'TestCommand');
+
+    await consumer.start();
+
+    try {
+      await producer.send({
+        type: 'TestCommand',
+        data: { id: 'cmd-1', value: 42 },
+      });
+      await waitForDeadLetters(manager, 1);
+
+      const replayed = await manager.replay(
+        { reasons: ['validation'] },
+        {
+          edit: ({ message }) => ({
+            type: 'TestCommand',
+            data: { ...(message!.data as object), value: '42' },
+          }),
+        },
+      );
+
+      expect(replayed).toHaveLength(1);
+      await waitFor(() => handledCommands.length > 0);
+      expect(handledCommands[0].data).toEqual({ id: 'cmd-1', value: '42' });
+      await expect(manager.peek()).resolves.toHaveLength(0);
+    } finally {
+      await consumer.close();
+      await producer.close();
+    }
+  });
+});
@@ -1,9 +1,23 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import type { Event } from '@event-driven-io/emmett';
+import { EmmettError } from '@event-driven-io/emmett';
 import {
   getTestMessageBus,
+  getTestPubSub,
   createTestEvent,
   waitFor,
+  wait,
 } from './helpers';
+import { generateUUID } from '../../src/messageBus/utils';
+import { extractMessageId } from '../../src/messageBus/serialization';
+import { InMemoryIdempotencyStore } from '../../src/messageBus/idempotencyStore';
+import { orderingKeyFromMetadata } from '../../src/messageBus/ordering';
+import { FileBlobStore } from '../../src/messageBus/claimCheck';
+import { LocalKeyProvider } from '../../src/messageBus/encryption';
+import { HmacMessageSigner } from '../../src/messageBus/signing';
+import { createJsonInboundAdapter } from '../../src/messageBus/inbound';
 
 describe('Events Integration Tests', () => {
   describe('event subscription and publishing', () => {
@@ -358,6 +372,93 @@ describe('Events Integration Tests', () => {
     });
   });
 
+  describe('consumer groups', () => {
+    it('should share one subscription between instances of the same group', async () => {
+      const topicPrefix = `test-${generateUUID()}`;
+      const bus1 = getTestMessageBus({ topicPrefix });
+      const bus2 = getTestMessageBus({ topicPrefix });
+      const bus1Events: Event[] = [];
+      const bus2Events: Event[] = [];
+
+      bus1.subscribeAs(
+        'billing-projection',
+        async (event: Event) => {
+          bus1Events.push(event);
+        },
+        'TestEvent',
+      );
+      bus2.subscribeAs(
+        'billing-projection',
+        async (event: Event) => {
+          bus2Events.push(event);
+        },
+        'TestEvent',
+      );
+
+      await bus1.start();
+      await bus2.start();
+
+      try {
+        for (let i = 0; i < 5; i++) {
+          await bus1.publish(createTestEvent(`evt-${i}`, 'test'));
+        }
+
+        await waitFor(() => bus1Events.length + bus2Events.length >= 5);
+        await wait(500);
+
+        // Competing consumers: each event is handled by only one instance
+        expect(bus1Events.length + bus2Events.length).toBe(5);
+      } finally {
+        await bus1.close();
+        await bus2.close();
+      }
+    });
+
+    it('should deliver events published while the group was down', async () => {
+      const topicPrefix = `test-${generateUUID()}`;
+      const receivedEvents: Event[] = [];
+      const handler = async (event: Event) => {
+        receivedEvents.push(event);
+      };
+
+      const firstRun = getTestMessageBus({ topicPrefix });
+      firstRun.subscribeAs('billing-projection', handler, 'TestEvent');
+      await firstRun.start();
+      await firstRun.close();
+
+      // Published while no instance of the group is running
+      const producer = getTestMessageBus({ topicPrefix });
+      await producer.publish(createTestEvent('evt-offline', 'test'));
+      await producer.close();
+
+      const secondRun = getTestMessageBus({ topicPrefix });
+      secondRun.subscribeAs('billing-projection', handler, 'TestEvent');
+      await secondRun.start();
+
+      try {
+        await waitFor(() => receivedEvents.length > 0);
+
+        expect((receivedEvents[0].data as any).id).toBe('evt-offline');
+      } finally {
+        await secondRun.close();
+      }
+    });
+
+    it('should reject duplicate handlers within the same group', () => {
+      const messageBus = getTestMessageBus();
+
+      messageBus.subscribeAs('billing-projection', async () => {}, 'TestEvent');
+
+      expect(() => {
+        messageBus.subscribeAs(
+          'billing-projection',
+          async () => {},
+          'TestEvent',
+        );
+      }).toThrow(EmmettError);
+    });
+  });
+
   describe('lifecycle management', () => {
     it('should allow publishing before start (producer-only mode)', async () => {
       const messageBus = getTestMessageBus();
@@ -372,4 +473,337 @@ describe('Events Integration Tests', () => {
       await messageBus.close();
     });
   });
+
+  describe('message identity', () => {
+    it('should surface the message ID to subscribers', async () => {
+      const idempotencyStore = new InMemoryIdempotencyStore();
+      const messageBus = getTestMessageBus({ idempotencyStore });
+      const messageIds: (string | undefined)[] = [];
+
+      messageBus.subscribeAs(
+        'projections',
+        async (event: Event) => {
+          messageIds.push(extractMessageId(event));
+        },
+        'TestEvent',
+      );
+
+      await messageBus.start();
+
+      try {
+        await messageBus.publish(createTestEvent('evt-1', 'test'));
+        await messageBus.publish(createTestEvent('evt-2', 'test'));
+
+        await waitFor(() => messageIds.length === 2);
+        await wait(100);
+
+        expect(messageIds[0]).toEqual(expect.any(String));
+        expect(messageIds[1]).not.toBe(messageIds[0]);
+        expect(idempotencyStore.size()).toBe(2);
+      } finally {
+        await messageBus.close();
+      }
+    });
+  });
+
+  describe('message versioning', () => {
+    it('should upcast events published with an older version', async () => {
+      const topicPrefix = `test-${generateUUID()}`;
+      // Producer still publishing version 1 ({ id, value })
+      const producer = getTestMessageBus({ topicPrefix });
+      // Consumer on version 2 ({ id, value, source })
+      const consumer = getTestMessageBus({
+        topicPrefix,
+        messageTypes: {
+          TestEvent: {
+            kind: 'event',
+            upcasters: [(data) => ({ ...(data as object), source: 'legacy' })],
+          },
+        },
+      });
+      const receivedEvents: Event[] = [];
+
+      consumer.subscribe(
+        async (event: Event) => {
+          receivedEvents.push(event);
+        },
+        'TestEvent',
+      );
+
+      await consumer.start();
+
+      try {
+        await producer.publish(createTestEvent('evt-1', 'test'));
+
+        await waitFor(() => receivedEvents.length > 0);
+
+        expect(receivedEvents[0].data).toEqual({
+          id: 'evt-1',
+          value: 'test',
+          timestamp: expect.any(Date),
+          source: 'legacy',
+        });
+      } finally {
+        await consumer.close();
+        await producer.close();
+      }
+    });
+  });
+
+  describe('claim checks', () => {
+    it('should deliver payloads stored in the claim check store', async () => {
+      const directory = await fs.mkdtemp(
+        join(tmpdir(), 'emmett-claim-checks-'),
+      );
+      const messageBus = getTestMessageBus({
+        claimCheck: {
+          store: new FileBlobStore(directory),
+          thresholdBytes: 1024,
+        },
+      });
+      const receivedEvents: Event[] = [];
+
+      messageBus.subscribe(
+        async (event: Event) => {
+          receivedEvents.push(event);
+        },
+        'TestEvent',
+      );
+
+      await messageBus.start();
+
+      try {
+        const largeValue = 'x'.repeat(10_000);
+        await messageBus.publish(createTestEvent('evt-1', largeValue));
+
+        await waitFor(() => receivedEvents.length > 0);
+
+        expect(receivedEvents[0].data).toEqual({
+          id: 'evt-1',
+          value: largeValue,
+          timestamp: expect.any(Date),
+        });
+        expect(
+          await fs.readdir(join(directory, 'claim-checks', 'TestEvent')),
+        ).toHaveLength(1);
+      } finally {
+        await messageBus.close();
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('encryption', () => {
+    it('should deliver decrypted data of encrypted events', async () => {
+      const messageBus = getTestMessageBus({
+        messageTypes: {
+          TestEvent: { kind: 'event', encryptedPaths: ['value'] },
+        },
+        encryption: {
+          keyProvider: new LocalKeyProvider({ k1: Buffer.alloc(32, 1) }, 'k1'),
+        },
+      });
+      const receivedEvents: Event[] = [];
+
+      messageBus.subscribe(
+        async (event: Event) => {
+          receivedEvents.push(event);
+        },
+        'TestEvent',
+      );
+
+      await messageBus.start();
+
+      try {
+        await messageBus.publish(createTestEvent('evt-1', 'secret'));
+
+        await waitFor(() => receivedEvents.length > 0);
+
+        expect(receivedEvents[0].data).toEqual({
+          id: 'evt-1',
+          value: 'secret',
+          timestamp: expect.any(Date),
+        });
+      } finally {
+        await messageBus.close();
+      }
+    });
+  });
+
+  describe('signing', () => {
+    it('should handle signed events and drop unsigned ones', async () => {
+      const signer = new HmacMessageSigner({ k1: Buffer.alloc(32, 1) }, 'k1');
+      const topicPrefix = `test-${generateUUID()}`;
+      const consumer = getTestMessageBus({
+        topicPrefix,
+        signing: { verifier: signer },
+      });
+      const signingProducer = getTestMessageBus({
+        topicPrefix,
+        signing: { signer },
+      });
+      const unsignedProducer = getTestMessageBus({ topicPrefix });
+      const receivedEvents: Event[] = [];
+
+      consumer.subscribe(
+        async (event: Event) => {
+          receivedEvents.push(event);
+        },
+        'TestEvent',
+      );
+
+      await consumer.start();
+
+      try {
+        await unsignedProducer.publish(createTestEvent('evt-1', 'unsigned'));
+        await signingProducer.publish(createTestEvent('evt-2', 'signed'));
+
+        await waitFor(() => receivedEvents.length > 0);
+        await wait(500);
+
+        expect(receivedEvents.map((event) => event.data.value)).toEqual([
+          'signed',
+        ]);
+      } finally {
+        await consumer.close();
+        await signingProducer.close();
+        await unsignedProducer.close();
+      }
+    });
+  });
+
+  describe('cloud events', () => {
+    it.each(['binary', 'structured'] as const)(
+      'should deliver events published as %s CloudEvents',
+      async (mode) => {
+        const topicPrefix = `test-${generateUUID()}`;
+        const consumer = getTestMessageBus({ topicPrefix });
+        const producer = getTestMessageBus({
+          topicPrefix,
+          cloudEvents: { source: '//tests.example.com', mode },
+        });
+        const receivedEvents: Event[] = [];
+
+        consumer.subscribe(
+          async (event: Event) => {
+            receivedEvents.push(event);
+          },
+          'TestEvent',
+        );
+
+        await consumer.start();
+
+        try {
+          await producer.publish(createTestEvent('evt-1', 'cloud'));
+
+          await waitFor(() => receivedEvents.length > 0);
+
+          expect(receivedEvents[0].data.value).toBe('cloud');
+        } finally {
+          await consumer.close();
+          await producer.close();
+        }
+      },
+    );
+  });
+
+  describe('inbound adapters', () => {
+    it('should receive raw messages of another producer and drop undecodable ones', async () => {
+      const pubsub = getTestPubSub();
+      const topicName = `foreign-${generateUUID()}`;
+      const messageBus = getTestMessageBus({
+        messageTypes: {
+          ObjectFinalized: {
+            kind: 'event',
+            inbound: {
+              topic: topicName,
+              adapter: createJsonInboundAdapter('ObjectFinalized'),
+            },
+          },
+        },
+      });
+      const receivedEvents: Event[] = [];
+
+      messageBus.subscribe(
+        async (event: Event) => {
+          receivedEvents.push(event);
+        },
+        'ObjectFinalized',
+      );
+
+      await messageBus.start();
+
+      try {
+        const topic = pubsub.topic(topicName);
+        await topic.publishMessage({ data: Buffer.from('not json') });
+        await topic.publishMessage({
+          data: Buffer.from(JSON.stringify({ name: 'report.pdf' })),
+          attributes: { eventType: 'OBJECT_FINALIZE' },
+        });
+
+        await waitFor(() => receivedEvents.length > 0);
+        await wait(500);
+
+        expect(receivedEvents).toHaveLength(1);
+        expect(receivedEvents[0].data).toEqual({ name: 'report.pdf' });
+        expect((receivedEvents[0] as any).metadata).toMatchObject({
+          attributes: { eventType: 'OBJECT_FINALIZE' },
+        });
+      } finally {
+        await messageBus.close();
+        await pubsub.topic(topicName).delete();
+      }
+    });
+
+    it('should not publish events received through an inbound adapter', async () => {
+      const messageBus = getTestMessageBus({
+        messageTypes: {
+          ObjectFinalized: {
+            kind: 'event',
+            inbound: { adapter: createJsonInboundAdapter('ObjectFinalized') },
+          },
+        },
+      });
+
+      await expect(
+        messageBus.publish({ type: 'ObjectFinalized', data: {} }),
+      ).rejects.toThrow(EmmettError);
+    });
+  });
+
+  describe('message ordering', () => {
+    it('should deliver events with the same ordering key in publish order', async () => {
+      const messageBus = getTestMessageBus({
+        orderingKey: orderingKeyFromMetadata('streamName'),
+      });
+      const received: number[] = [];
+
+      messageBus.subscribeAs(
+        'projections',
+        async (event: Event) => {
+          received.push((event.data as { sequence: number }).sequence);
+        },
+        'ProductItemAdded',
+      );
+
+      await messageBus.start();
+
+      try {
+        const sequences = Array.from({ length: 10 }, (_, index) => index + 1);
+        for (const sequence of sequences) {
+          await messageBus.publish({
+            type: 'ProductItemAdded',
+            data: { sequence },
+            metadata: { streamName: 'shopping_cart-123' },
+          } as Event);
+        }
+
+        await waitFor(() => received.length === sequences.length);
+
+        expect(received).toEqual(sequences);
+      } finally {
+        await messageBus.close();
+      }
+    });
+  });
 });
@@ -4,7 +4,9 @@ import {
   createTestCommand,
   createTestEvent,
   waitFor,
+  wait,
 } from './helpers';
+import { generateUUID } from '../../src/messageBus/utils';
 
 describe('MessageBus Integration Tests', () => {
   describe('full workflow integration', () => {
@@ -277,6 +279,90 @@ describe('MessageBus Integration Tests', () => {
     });
   });
 
+  describe('command subscription modes', () => {
+    it('should handle each command on exactly one instance in shared mode', async () => {
+      const topicPrefix = `test-${generateUUID()}`;
+      const bus1 = getTestMessageBus({ topicPrefix });
+      const bus2 = getTestMessageBus({ topicPrefix });
+      const bus1Received: Command[] = [];
+      const bus2Received: Command[] = [];
+
+      bus1.handle(
+        async (command: Command) => {
+          bus1Received.push(command);
+        },
+        'TestCommand',
+      );
+      bus2.handle(
+        async (command: Command) => {
+          bus2Received.push(command);
+        },
+        'TestCommand',
+      );
+
+      await bus1.start();
+      await bus2.start();
+
+      try {
+        for (let i = 0; i < 5; i++) {
+          await bus1.send(createTestCommand(`cmd-${i}`, 'test'));
+        }
+
+        await waitFor(() => bus1Received.length + bus2Received.length >= 5);
+        await wait(500);
+
+        expect(bus1Received.length + bus2Received.length).toBe(5);
+      } finally {
+        await bus1.close();
+        await bus2.close();
+      }
+    });
+
+    it('should handle broadcast commands on every instance', async () => {
+      const topicPrefix = `test-${generateUUID()}`;
+      const bus1 = getTestMessageBus({
+        topicPrefix,
+        broadcastCommandTypes: ['TestCommand'],
+      });
+      const bus2 = getTestMessageBus({
+        topicPrefix,
+        commandSubscriptionMode: 'instance',
+      });
+      const bus1Received: Command[] = [];
+      const bus2Received: Command[] = [];
+
+      bus1.handle(
+        async (command: Command) => {
+          bus1Received.push(command);
+        },
+        'TestCommand',
+      );
+      bus2.handle(
+        async (command: Command) => {
+          bus2Received.push(command);
+        },
+        'TestCommand',
+      );
+
+      await bus1.start();
+      await bus2.start();
+
+      try {
+        await bus1.send(createTestCommand('cmd-1', 'test'));
+
+        await waitFor(
+          () => bus1Received.length > 0 && bus2Received.length > 0,
+        );
+
+        expect(bus1Received).toHaveLength(1);
+        expect(bus2Received).toHaveLength(1);
+      } finally {
+        await bus1.close();
+        await bus2.close();
+      }
+    });
+  });
+
   describe('configuration options', () => {
     it('should respect custom instance ID', async () => {
       const customInstanceId = 'custom-instance-123';
@@ -1,5 +1,12 @@
 import type { Message } from '@event-driven-io/emmett';
-import { getTestMessageBus, createTestCommand, waitFor } from './helpers';
+import { Topic } from '@google-cloud/pubsub';
+import {
+  getTestMessageBus,
+  createTestCommand,
+  createTestEvent,
+  waitFor,
+  wait,
+} from './helpers';
 
 describe('Scheduling Integration Tests', () => {
   describe('message scheduling in emulator mode', () => {
@@ -32,6 +39,33 @@ describe('Scheduling Integration Tests', () => {
       }
     });
 
+    it('should schedule message with scheduleAsync', async () => {
+      const messageBus = getTestMessageBus();
+
+      await messageBus.start();
+
+      try {
+        const scheduleId = await messageBus.scheduleAsync(
+          createTestCommand('cmd-1', 'async'),
+          { afterInMs: 100 },
+        );
+
+        const pending = await messageBus.listScheduled();
+        expect(pending.map((msg) => msg.id)).toEqual([scheduleId]);
+
+        await wait(150);
+
+        const scheduled = messageBus.dequeue();
+        expect(scheduled).toHaveLength(1);
+        expect(scheduled[0].message.data).toEqual({
+          id: 'cmd-1',
+          value: 'async',
+        });
+      } finally {
+        await messageBus.close();
+      }
+    });
+
     it('should schedule message with specific date', async () => {
       const messageBus = getTestMessageBus();
 
@@ -176,7 +210,8 @@ describe('Scheduling Integration Tests', () => {
         const message = createTestCommand('cmd-1', 'test');
         messageBus.schedule(message);
 
-        // Should be ready immediately
+        // Should be ready as soon as it is written to the store
+        await wait(0);
         const scheduled = messageBus.dequeue();
         expect(scheduled).toHaveLength(1);
         expect(scheduled[0].message.type).toBe('TestCommand');
@@ -225,7 +260,8 @@ describe('Scheduling Integration Tests', () => {
         const message = createTestCommand('cmd-1', 'test');
         messageBus.schedule(message, { at: pastDate });
 
-        // Should be ready immediately
+        // Should be ready as soon as it is written to the store
+        await wait(0);
         const scheduled = messageBus.dequeue();
         expect(scheduled).toHaveLength(1);
       } finally {
@@ -234,6 +270,57 @@ describe('Scheduling Integration Tests', () => {
     });
   });
 
+  describe('cancelling and listing schedules', () => {
+    it('should list pending scheduled messages', async () => {
+      const messageBus = getTestMessageBus();
+
+      await messageBus.start();
+
+      try {
+        const reminderId = messageBus.schedule(
+          createTestCommand('cmd-1', 'reminder'),
+          { afterInMs: 60000 },
+        );
+        messageBus.schedule(createTestEvent('evt-1', 'other'), {
+          afterInMs: 30000,
+        });
+
+        const pending = await messageBus.listScheduled();
+        expect(pending).toHaveLength(2);
+
+        const commands = await messageBus.listScheduled({
+          messageType: 'TestCommand',
+        });
+        expect(commands.map((msg) => msg.id)).toEqual([reminderId]);
+      } finally {
+        await messageBus.close();
+      }
+    });
+
+    it('should not deliver cancelled messages', async () => {
+      const messageBus = getTestMessageBus();
+
+      await messageBus.start();
+
+      try {
+        const scheduleId = messageBus.schedule(
+          createTestCommand('cmd-1', 'test'),
+          { afterInMs: 100 },
+        );
+
+        expect(await messageBus.cancelScheduled(scheduleId)).toBe(true);
+        expect(await messageBus.cancelScheduled(scheduleId)).toBe(false);
+
+        await wait(150);
+
+        expect(messageBus.dequeue()).toHaveLength(0);
+        expect(await messageBus.listScheduled()).toHaveLength(0);
+      } finally {
+        await messageBus.close();
+      }
+    });
+  });
+
   describe('scheduling with message handling', () => {
     it('should integrate scheduled messages with command handling', async () => {
       const messageBus = getTestMessageBus();
@@ -273,6 +360,127 @@ describe('Scheduling Integration Tests', () => {
     });
   });
 
+  describe('automatic delivery in emulator mode', () => {
+    it('should deliver due scheduled commands to their handler', async () => {
+      const messageBus = getTestMessageBus({
+        autoDeliverScheduledMessages: true,
+        scheduledMessagePollIntervalMs: 100,
+      });
+      const receivedCommands: Message[] = [];
+
+      messageBus.handle(
+        async (command: Message) => {
+          receivedCommands.push(command);
+        },
+        'TestCommand',
+      );
+
+      await messageBus.start();
+
+      try {
+        messageBus.schedule(createTestCommand('cmd-1', 'scheduled'), {
+          afterInMs: 500,
+        });
+
+        await waitFor(() => receivedCommands.length > 0);
+
+        expect(receivedCommands).toHaveLength(1);
+        expect(receivedCommands[0].data.id).toBe('cmd-1');
+        expect(messageBus.dequeue()).toHaveLength(0);
+      } finally {
+        await messageBus.close();
+      }
+    });
+
+    it('should deliver due scheduled events to their subscribers', async () => {
+      const messageBus = getTestMessageBus({
+        autoDeliverScheduledMessages: true,
+        scheduledMessagePollIntervalMs: 100,
+      });
+      const receivedEvents: Message[] = [];
+
+      messageBus.subscribe(
+        async (event: Message) => {
+          receivedEvents.push(event);
+        },
+        'TestEvent',
+      );
+
+      await messageBus.start();
+
+      try {
+        messageBus.schedule(createTestEvent('evt-1', 'scheduled'), {
+          afterInMs: 200,
+        });
+
+        await waitFor(() => receivedEvents.length > 0);
+
+        expect(receivedEvents[0].data.id).toBe('evt-1');
+      } finally {
+        await messageBus.close();
+      }
+    });
+
+    it('should not deliver scheduled messages after close', async () => {
+      const messageBus = getTestMessageBus({
+        autoDeliverScheduledMessages: true,
+        scheduledMessagePollIntervalMs: 100,
+      });
+
+      await messageBus.start();
+      await messageBus.close();
+
+      messageBus.schedule(createTestCommand('cmd-1', 'test'));
+      await wait(300);
+
+      // Still pending, since the pump stopped with close()
+      expect(messageBus.dequeue()).toHaveLength(1);
+    });
+
+    it('should keep the schedule ID of messages whose delivery failed', async () => {
+      // Every publish fails, as if the command topic were unavailable
+      const publishMessage = jest
+        .spyOn(
+          Topic.prototype as {
+            publishMessage(message: unknown): Promise<string>;
+          },
+          'publishMessage',
+        )
+        .mockRejectedValue(new Error('Publish failed'));
+      const messageBus = getTestMessageBus({
+        autoDeliverScheduledMessages: true,
+        scheduledMessagePollIntervalMs: 1000,
+      });
+
+      await messageBus.start();
+
+      try {
+        const scheduleId = messageBus.schedule(
+          createTestCommand('cmd-1', 'test'),
+          { afterInMs: 0 },
+        );
+
+        await waitFor(() => publishMessage.mock.calls.length > 0);
+        await waitFor(async () =>
+          (await messageBus.listScheduled()).some(
+            ({ id }) => id === scheduleId,
+          ),
+        );
+
+        await expect(messageBus.cancelScheduled(scheduleId)).resolves.toBe(
+          true,
+        );
+        await wait(1500);
+
+        expect(publishMessage).toHaveBeenCalledTimes(1);
+        await expect(messageBus.listScheduled()).resolves.toHaveLength(0);
+      } finally {
+        publishMessage.mockRestore();
+        await messageBus.close();
+      }
+    });
+  });
+
   describe('scheduling edge cases', () => {
     it('should handle zero delay', async () => {
       const messageBus = getTestMessageBus();
@@ -283,6 +491,7 @@ describe('Scheduling Integration Tests', () => {
         messageBus.schedule(createTestCommand('cmd-1', 'test'), {
           afterInMs: 0,
         });
+        await wait(0);
 
         const scheduled = messageBus.dequeue();
         expect(scheduled).toHaveLength(1);
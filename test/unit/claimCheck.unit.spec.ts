@@ -0,0 +1,159 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EmmettError } from '@event-driven-io/emmett';
+import {
+  FileBlobStore,
+  GcsBlobStore,
+  checkInPayload,
+  checkOutPayload,
+} from '../../src/messageBus/claimCheck';
+import type { BlobStore, GcsBucket } from '../../src/messageBus/claimCheck';
+
+/**
+ * Blob store keeping payloads in memory
+ */
+function createBlobStoreStandIn() {
+  const blobs = new Map<string, Buffer>();
+  const store: BlobStore = {
+    put: jest.fn(async (key: string, data: Buffer) => {
+      blobs.set(key, data);
+    }),
+    get: jest.fn(async (key: string) => {
+      const data = blobs.get(key);
+      if (!data) {
+        throw new Error(`Blob ${key} not found`);
+      }
+      return data;
+    }),
+  };
+  return { store, blobs };
+}
+
+describe('ClaimCheck', () => {
+  const payload = Buffer.from('x'.repeat(100));
+
+  describe('checkInPayload', () => {
+    it('should store payloads reaching the threshold and return their key', async () => {
+      const { store, blobs } = createBlobStoreStandIn();
+
+      const result = await checkInPayload('CartSnapshotTaken', payload, {
+        store,
+        thresholdBytes: 100,
+      });
+
+      expect(result.data).toHaveLength(0);
+      expect(result.claimCheck).toMatch(/^claim-checks\/CartSnapshotTaken\//);
+      expect(blobs.get(result.claimCheck!)).toBe(payload);
+    });
+
+    it('should use the key prefix', async () => {
+      const { store } = createBlobStoreStandIn();
+
+      const result = await checkInPayload('CartSnapshotTaken', payload, {
+        store,
+        thresholdBytes: 0,
+        keyPrefix: 'myapp/',
+      });
+
+      expect(result.claimCheck).toMatch(/^myapp\/CartSnapshotTaken\//);
+    });
+
+    it('should keep payloads below the threshold inline', async () => {
+      const { store } = createBlobStoreStandIn();
+
+      const result = await checkInPayload('CartSnapshotTaken', payload, {
+        store,
+      });
+
+      expect(result).toEqual({ data: payload });
+      expect(store.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkOutPayload', () => {
+    it('should return inline payloads as-is', async () => {
+      expect(await checkOutPayload(payload, undefined, undefined)).toBe(
+        payload,
+      );
+    });
+
+    it('should read claim-checked payloads from the store', async () => {
+      const { store } = createBlobStoreStandIn();
+      const { claimCheck } = await checkInPayload(
+        'CartSnapshotTaken',
+        payload,
+        {
+          store,
+          thresholdBytes: 0,
+        },
+      );
+
+      expect(await checkOutPayload(Buffer.alloc(0), claimCheck, store)).toEqual(
+        payload,
+      );
+    });
+
+    it('should throw EmmettError for claim checks without a store', async () => {
+      await expect(
+        checkOutPayload(Buffer.alloc(0), 'claim-checks/x', undefined),
+      ).rejects.toThrow(EmmettError);
+    });
+  });
+
+  describe('FileBlobStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(join(tmpdir(), 'emmett-claim-checks-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should store and read payloads by key', async () => {
+      const store = new FileBlobStore(directory);
+
+      await store.put('claim-checks/CartSnapshotTaken/1', payload);
+
+      expect(await store.get('claim-checks/CartSnapshotTaken/1')).toEqual(
+        payload,
+      );
+    });
+
+    it('should fail to read missing payloads', async () => {
+      const store = new FileBlobStore(directory);
+
+      await expect(store.get('claim-checks/missing')).rejects.toThrow();
+    });
+
+    it('should reject keys outside the directory', async () => {
+      const store = new FileBlobStore(directory);
+
+      await expect(store.put('../escaped', payload)).rejects.toThrow(
+        'Invalid blob key ../escaped',
+      );
+    });
+  });
+
+  describe('GcsBlobStore', () => {
+    it('should save and download payloads as bucket files', async () => {
+      const files = new Map<string, Buffer>();
+      const bucket: GcsBucket = {
+        file: (name) => ({
+          save: async (data) => {
+            files.set(name, data);
+          },
+          download: async () => [files.get(name)!],
+        }),
+      };
+      const store = new GcsBlobStore(bucket);
+
+      await store.put('claim-checks/1', payload);
+
+      expect(files.get('claim-checks/1')).toBe(payload);
+      expect(await store.get('claim-checks/1')).toBe(payload);
+    });
+  });
+});
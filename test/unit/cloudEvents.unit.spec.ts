@@ -0,0 +1,207 @@
+import { EmmettError } from '@event-driven-io/emmett';
+import {
+  CLOUDEVENTS_CONTENT_TYPE,
+  decodeCloudEvent,
+  encodeCloudEvent,
+  fromCloudEvent,
+  toCloudEvent,
+} from '../../src/messageBus/cloudEvents';
+import type { PubSubMessageEnvelope } from '../../src/messageBus/types';
+
+describe('CloudEvents', () => {
+  const envelope: PubSubMessageEnvelope = {
+    type: 'OrderPlaced',
+    kind: 'event',
+    version: 2,
+    data: { orderId: 'o-1', total: 42 },
+    metadata: { tenant: 'acme' },
+    timestamp: '2024-01-15T10:30:00.000Z',
+    messageId: 'msg-1',
+    correlationId: 'corr-1',
+    causationId: 'cause-1',
+  };
+  const source = '//orders.example.com';
+
+  describe('toCloudEvent and fromCloudEvent', () => {
+    it('should map envelope fields to CloudEvent attributes and extensions', () => {
+      expect(toCloudEvent(envelope, source)).toEqual({
+        specversion: '1.0',
+        id: 'msg-1',
+        source,
+        type: 'OrderPlaced',
+        time: '2024-01-15T10:30:00.000Z',
+        datacontenttype: 'application/json',
+        data: { orderId: 'o-1', total: 42 },
+        emmettkind: 'event',
+        emmettversion: 2,
+        emmettmetadata: '{"tenant":"acme"}',
+        correlationid: 'corr-1',
+        causationid: 'cause-1',
+      });
+    });
+
+    it('should map CloudEvents back to envelopes', () => {
+      expect(fromCloudEvent(toCloudEvent(envelope, source))).toEqual(envelope);
+    });
+
+    it('should write BigInts, Maps, Sets and Buffers as plain JSON', () => {
+      // Without the BigInt.prototype.toJSON patch of the test setup
+      const bigIntPrototype = BigInt.prototype as { toJSON?: unknown };
+      const toJSON = bigIntPrototype.toJSON;
+      delete bigIntPrototype.toJSON;
+
+      try {
+        const event = toCloudEvent(
+          {
+            ...envelope,
+            data: {
+              total: 9007199254740993n,
+              quantities: new Map([['p-1', 2n]]),
+              tags: new Set(['gift']),
+              receipt: Buffer.from('paid'),
+              placedAt: new Date('2024-01-15T10:30:00.000Z'),
+            },
+            metadata: { streamPosition: 42n },
+          },
+          source,
+        );
+
+        expect(event.data).toEqual({
+          total: '9007199254740993',
+          quantities: { 'p-1': '2' },
+          tags: ['gift'],
+          receipt: Buffer.from('paid').toString('base64'),
+          placedAt: '2024-01-15T10:30:00.000Z',
+        });
+        expect(event.emmettmetadata).toBe('{"streamPosition":"42"}');
+        expect(() => JSON.stringify(event)).not.toThrow();
+      } finally {
+        bigIntPrototype.toJSON = toJSON;
+      }
+    });
+
+    it('should read CloudEvents of other producers', () => {
+      expect(
+        fromCloudEvent({
+          specversion: '1.0',
+          id: 'evt-1',
+          source: '//storage.googleapis.com/projects/_/buckets/uploads',
+          type: 'google.cloud.storage.object.v1.finalized',
+          time: '2024-01-15T10:30:00.000Z',
+          data: { name: 'report.pdf' },
+        }),
+      ).toEqual({
+        type: 'google.cloud.storage.object.v1.finalized',
+        kind: 'event',
+        version: 1,
+        data: { name: 'report.pdf' },
+        metadata: undefined,
+        timestamp: '2024-01-15T10:30:00.000Z',
+        messageId: 'evt-1',
+      });
+    });
+
+    it('should decode data_base64', () => {
+      expect(
+        fromCloudEvent({
+          specversion: '1.0',
+          id: 'evt-1',
+          source,
+          type: 'BlobUploaded',
+          data_base64: Buffer.from('raw').toString('base64'),
+        }).data,
+      ).toEqual(Buffer.from('raw'));
+    });
+
+    it('should reject CloudEvents without required attributes', () => {
+      expect(() =>
+        fromCloudEvent({ specversion: '1.0', source } as never),
+      ).toThrow('Invalid CloudEvent: missing id');
+    });
+  });
+
+  describe('binary mode', () => {
+    it('should encode the data with ce- attributes and its content-type', () => {
+      const { data, attributes } = encodeCloudEvent(envelope, { source });
+
+      expect(JSON.parse(data.toString())).toEqual(envelope.data);
+      expect(attributes).toEqual({
+        'ce-specversion': '1.0',
+        'ce-id': 'msg-1',
+        'ce-source': source,
+        'ce-type': 'OrderPlaced',
+        'ce-time': '2024-01-15T10:30:00.000Z',
+        'content-type': 'application/json',
+        'ce-emmettkind': 'event',
+        'ce-emmettversion': '2',
+        'ce-emmettmetadata': '{"tenant":"acme"}',
+        'ce-correlationid': 'corr-1',
+        'ce-causationid': 'cause-1',
+      });
+    });
+
+    it('should decode what it encodes', () => {
+      const { data, attributes } = encodeCloudEvent(envelope, { source });
+
+      expect(decodeCloudEvent(data, attributes)).toEqual(envelope);
+    });
+
+    it('should keep data with a non-JSON content-type as a Buffer', () => {
+      const decoded = decodeCloudEvent(Buffer.from('a,b'), {
+        'ce-specversion': '1.0',
+        'ce-id': 'evt-1',
+        'ce-source': source,
+        'ce-type': 'CsvUploaded',
+        'content-type': 'text/csv',
+      });
+
+      expect(decoded?.data).toEqual(Buffer.from('a,b'));
+    });
+
+    it('should parse data with a JSON content-type', () => {
+      const decoded = decodeCloudEvent(Buffer.from('{"size":3}'), {
+        'ce-specversion': '1.0',
+        'ce-id': 'evt-1',
+        'ce-source': source,
+        'ce-type': 'CsvUploaded',
+        'content-type': 'application/vnd.uploads+json; charset=utf-8',
+      });
+
+      expect(decoded?.data).toEqual({ size: 3 });
+    });
+
+    it('should reject attributes over the PubSub attribute value limit', () => {
+      const large = { ...envelope, metadata: { note: 'x'.repeat(1024) } };
+
+      expect(() => encodeCloudEvent(large, { source })).toThrow(EmmettError);
+      expect(() => encodeCloudEvent(large, { source })).toThrow(
+        'CloudEvent attribute ce-emmettmetadata of OrderPlaced is 1035 bytes, over the 1024-byte limit of PubSub attribute values; use the structured mode',
+      );
+      expect(() =>
+        encodeCloudEvent(large, { source, mode: 'structured' }),
+      ).not.toThrow();
+    });
+  });
+
+  describe('structured mode', () => {
+    it('should encode the whole CloudEvent as JSON', () => {
+      const { data, attributes } = encodeCloudEvent(envelope, {
+        source,
+        mode: 'structured',
+      });
+
+      expect(attributes).toEqual({ 'content-type': CLOUDEVENTS_CONTENT_TYPE });
+      expect(JSON.parse(data.toString())).toEqual(
+        toCloudEvent(envelope, source),
+      );
+      expect(decodeCloudEvent(data, attributes)).toEqual(envelope);
+    });
+  });
+
+  it('should not decode messages that are not CloudEvents', () => {
+    expect(
+      decodeCloudEvent(Buffer.from('{}'), { messageType: 'OrderPlaced' }),
+    ).toBeUndefined();
+    expect(decodeCloudEvent(Buffer.from('{}'), undefined)).toBeUndefined();
+  });
+});
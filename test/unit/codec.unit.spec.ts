@@ -0,0 +1,93 @@
+import { EmmettError } from '@event-driven-io/emmett';
+import {
+  createCborCodec,
+  createMessagePackCodec,
+  resolveMessageCodec,
+} from '../../src/messageBus/codec';
+import type { BinaryEncoder } from '../../src/messageBus/codec';
+import { jsonMessageCodec } from '../../src/messageBus/serialization';
+import type { PubSubMessageEnvelope } from '../../src/messageBus/types';
+
+describe('Codec', () => {
+  // Stands in for a binary encoding library
+  const fakeEncoder: BinaryEncoder = {
+    encode: (value) => new TextEncoder().encode(`bin:${JSON.stringify(value)}`),
+    decode: (data) =>
+      JSON.parse(new TextDecoder().decode(data).slice('bin:'.length)),
+  };
+
+  const envelope: PubSubMessageEnvelope = {
+    type: 'ProductItemAdded',
+    kind: 'event',
+    data: { productId: 'p-1', quantity: 2 },
+    timestamp: '2024-01-15T10:30:00.000Z',
+    messageId: 'msg-1',
+  };
+
+  describe('createMessagePackCodec', () => {
+    it('should encode and decode envelopes with the encoder', () => {
+      const codec = createMessagePackCodec(fakeEncoder);
+
+      const buffer = codec.encode(envelope);
+
+      expect(Buffer.isBuffer(buffer)).toBe(true);
+      expect(buffer.toString().startsWith('bin:')).toBe(true);
+      expect(codec.decode(buffer)).toEqual(envelope);
+    });
+
+    it('should use the MessagePack content type', () => {
+      expect(createMessagePackCodec(fakeEncoder).contentType).toBe(
+        'application/msgpack',
+      );
+    });
+  });
+
+  describe('createCborCodec', () => {
+    it('should encode and decode envelopes with the encoder', () => {
+      const codec = createCborCodec(fakeEncoder);
+
+      expect(codec.decode(codec.encode(envelope))).toEqual(envelope);
+    });
+
+    it('should use the CBOR content type', () => {
+      expect(createCborCodec(fakeEncoder).contentType).toBe('application/cbor');
+    });
+  });
+
+  describe('resolveMessageCodec', () => {
+    const msgpackCodec = createMessagePackCodec(fakeEncoder);
+
+    it('should use the default codec without content type', () => {
+      expect(
+        resolveMessageCodec(undefined, [msgpackCodec], jsonMessageCodec),
+      ).toBe(jsonMessageCodec);
+    });
+
+    it('should find the codec matching the content type', () => {
+      expect(
+        resolveMessageCodec(
+          'application/msgpack',
+          [msgpackCodec, jsonMessageCodec],
+          jsonMessageCodec,
+        ),
+      ).toBe(msgpackCodec);
+    });
+
+    it('should throw for unknown content types', () => {
+      expect(() =>
+        resolveMessageCodec(
+          'application/cbor',
+          [msgpackCodec],
+          jsonMessageCodec,
+        ),
+      ).toThrow(EmmettError);
+      expect(() =>
+        resolveMessageCodec(
+          'application/cbor',
+          [msgpackCodec],
+          jsonMessageCodec,
+        ),
+      ).toThrow('No codec registered for content type application/cbor');
+    });
+  });
+});
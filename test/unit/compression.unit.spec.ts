@@ -0,0 +1,123 @@
+import { EmmettError } from '@event-driven-io/emmett';
+import { brotliCompressSync, gzipSync } from 'zlib';
+import {
+  compressPayload,
+  decompressPayload,
+} from '../../src/messageBus/compression';
+
+describe('Compression', () => {
+  const largePayload = Buffer.from(
+    JSON.stringify({ items: Array.from({ length: 200 }, () => 'product') }),
+  );
+  const smallPayload = Buffer.from(JSON.stringify({ id: '1' }));
+
+  describe('compressPayload', () => {
+    it('should gzip payloads reaching the threshold by default', () => {
+      const result = compressPayload('CartSnapshot', largePayload, {});
+
+      expect(result.contentEncoding).toBe('gzip');
+      expect(result.data.length).toBeLessThan(largePayload.length);
+      expect(decompressPayload(result.data, 'gzip')).toEqual(largePayload);
+    });
+
+    it('should compress with brotli', () => {
+      const result = compressPayload('CartSnapshot', largePayload, {
+        algorithm: 'br',
+      });
+
+      expect(result.contentEncoding).toBe('br');
+      expect(decompressPayload(result.data, 'br')).toEqual(largePayload);
+    });
+
+    it('should not compress payloads below the threshold', () => {
+      const result = compressPayload('CartSnapshot', largePayload, {
+        thresholdBytes: largePayload.length + 1,
+      });
+
+      expect(result.data).toBe(largePayload);
+      expect(result.contentEncoding).toBeUndefined();
+    });
+
+    it('should not compress payloads that would not get smaller', () => {
+      const result = compressPayload('ItemAdded', smallPayload, {
+        thresholdBytes: 0,
+      });
+
+      expect(result.data).toBe(smallPayload);
+      expect(result.contentEncoding).toBeUndefined();
+    });
+
+    it('should report payload sizes', () => {
+      const onMetrics = jest.fn();
+
+      const compressed = compressPayload('CartSnapshot', largePayload, {
+        onMetrics,
+      });
+      compressPayload('ItemAdded', smallPayload, { onMetrics });
+
+      expect(onMetrics).toHaveBeenCalledWith({
+        messageType: 'CartSnapshot',
+        originalBytes: largePayload.length,
+        publishedBytes: compressed.data.length,
+        contentEncoding: 'gzip',
+      });
+      expect(onMetrics).toHaveBeenCalledWith({
+        messageType: 'ItemAdded',
+        originalBytes: smallPayload.length,
+        publishedBytes: smallPayload.length,
+      });
+    });
+
+    it('should not fail when the metrics hook throws', () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      expect(() =>
+        compressPayload('CartSnapshot', largePayload, {
+          onMetrics: () => {
+            throw new Error('metrics unavailable');
+          },
+        }),
+      ).not.toThrow();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Payload metrics hook failed:',
+        'metrics unavailable',
+      );
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('decompressPayload', () => {
+    it('should return uncompressed data as-is', () => {
+      expect(decompressPayload(smallPayload, undefined)).toBe(smallPayload);
+      expect(decompressPayload(smallPayload, 'identity')).toBe(smallPayload);
+    });
+
+    it('should gunzip gzip data', () => {
+      expect(decompressPayload(gzipSync(largePayload), 'gzip')).toEqual(
+        largePayload,
+      );
+    });
+
+    it('should reject unsupported encodings', () => {
+      expect(() => decompressPayload(smallPayload, 'zstd')).toThrow(
+        EmmettError,
+      );
+      expect(() => decompressPayload(smallPayload, 'zstd')).toThrow(
+        'Unsupported content encoding zstd',
+      );
+    });
+
+    it('should reject payloads decompressing beyond the maximum size', () => {
+      const bomb = Buffer.alloc(100_000);
+
+      expect(() => decompressPayload(gzipSync(bomb), 'gzip', 1000)).toThrow(
+        'Decompressed payload exceeds 1000 bytes',
+      );
+      expect(() =>
+        decompressPayload(brotliCompressSync(bomb), 'br', 1000),
+      ).toThrow(EmmettError);
+      expect(decompressPayload(gzipSync(bomb), 'gzip', 100_000)).toEqual(bomb);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import type { Message as PubSubMessage, Topic } from '@google-cloud/pubsub';
+import {
+  DEAD_LETTER_ATTRIBUTES,
+  MAX_ERROR_ATTRIBUTE_LENGTH,
+  assertDeadLetterOptions,
+  publishToDeadLetterTopic,
+} from '../../src/messageBus/deadLetter';
+
+describe('DeadLetter', () => {
+  describe('publishToDeadLetterTopic', () => {
+    const createMockTopic = () =>
+      ({
+        publishMessage: jest.fn().mockResolvedValue('dlq-id'),
+      }) as unknown as Topic & { publishMessage: jest.Mock };
+
+    const message = {
+      data: Buffer.from('{"type":"TestCommand"}'),
+      attributes: { messageType: 'TestCommand', tenant: 'acme' },
+    } as unknown as PubSubMessage;
+
+    it('should keep the original data and attributes and add the reason', async () => {
+      const topic = createMockTopic();
+
+      await publishToDeadLetterTopic(topic, message, {
+        reason: 'validation',
+        error: new Error('Invalid TestCommand message: id is required'),
+        subscriptionName: 'test-cmd-TestCommand',
+      });
+
+      expect(topic.publishMessage).toHaveBeenCalledWith({
+        data: message.data,
+        attributes: {
+          messageType: 'TestCommand',
+          tenant: 'acme',
+          [DEAD_LETTER_ATTRIBUTES.reason]: 'validation',
+          [DEAD_LETTER_ATTRIBUTES.error]:
+            'Invalid TestCommand message: id is required',
+          [DEAD_LETTER_ATTRIBUTES.errorStack]: expect.stringContaining(
+            'Invalid TestCommand message: id is required',
+          ),
+          [DEAD_LETTER_ATTRIBUTES.subscription]: 'test-cmd-TestCommand',
+        },
+      });
+    });
+
+    it('should truncate long error messages', async () => {
+      const topic = createMockTopic();
+
+      await publishToDeadLetterTopic(topic, message, {
+        reason: 'validation',
+        error: new Error('x'.repeat(5000)),
+      });
+
+      const { attributes } = topic.publishMessage.mock.calls[0][0] as {
+        attributes: Record<string, string>;
+      };
+      expect(attributes[DEAD_LETTER_ATTRIBUTES.error].length).toBeLessThan(
+        1024,
+      );
+      expect(attributes).not.toHaveProperty(
+        DEAD_LETTER_ATTRIBUTES.subscription,
+      );
+    });
+
+    it('should add the handler and delivery attempt of failed messages', async () => {
+      const topic = createMockTopic();
+      const error = new Error('Order not found');
+      error.stack = `Error: Order not found\n${'    at handler\n'.repeat(100)}`;
+
+      await publishToDeadLetterTopic(topic, message, {
+        reason: 'failure',
+        error,
+        subscriptionName: 'test-cmd-TestCommand',
+        handlerName: 'handleTestCommand',
+        deliveryAttempt: 3,
+      });
+
+      const { attributes } = topic.publishMessage.mock.calls[0][0] as {
+        attributes: Record<string, string>;
+      };
+      expect(attributes).toMatchObject({
+        [DEAD_LETTER_ATTRIBUTES.reason]: 'failure',
+        [DEAD_LETTER_ATTRIBUTES.error]: 'Order not found',
+        [DEAD_LETTER_ATTRIBUTES.handler]: 'handleTestCommand',
+        [DEAD_LETTER_ATTRIBUTES.deliveryAttempt]: '3',
+      });
+      expect(attributes[DEAD_LETTER_ATTRIBUTES.errorStack]).toBe(
+        error.stack.slice(0, MAX_ERROR_ATTRIBUTE_LENGTH),
+      );
+    });
+
+    it('should omit unknown handlers and delivery attempts', async () => {
+      const topic = createMockTopic();
+
+      await publishToDeadLetterTopic(topic, message, {
+        reason: 'failure',
+        error: new Error('Order not found'),
+        deliveryAttempt: 0,
+      });
+
+      const { attributes } = topic.publishMessage.mock.calls[0][0] as {
+        attributes: Record<string, string>;
+      };
+      expect(attributes).not.toHaveProperty(DEAD_LETTER_ATTRIBUTES.handler);
+      expect(attributes).not.toHaveProperty(
+        DEAD_LETTER_ATTRIBUTES.deliveryAttempt,
+      );
+    });
+  });
+
+  describe('assertDeadLetterOptions', () => {
+    it('should accept the delivery attempts Pub/Sub supports', () => {
+      expect(() =>
+        assertDeadLetterOptions({ maxDeliveryAttempts: 5 }),
+      ).not.toThrow();
+      expect(() =>
+        assertDeadLetterOptions({ maxDeliveryAttempts: 100 }),
+      ).not.toThrow();
+    });
+
+    it.each([0, 4, 101, 5.5])(
+      'should reject %p delivery attempts',
+      (maxDeliveryAttempts) => {
+        expect(() => assertDeadLetterOptions({ maxDeliveryAttempts })).toThrow(
+          'maxDeliveryAttempts must be an integer between 5 and 100',
+        );
+      },
+    );
+
+    it('should reject a shared topic name with per-type topics', () => {
+      expect(() =>
+        assertDeadLetterOptions({ topology: 'per-type' }, 'dead-letters'),
+      ).toThrow('cannot be used with per-type dead-letter topics');
+      expect(() =>
+        assertDeadLetterOptions({ topology: 'shared' }, 'dead-letters'),
+      ).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,369 @@
+import type { PubSub } from '@google-cloud/pubsub';
+import type { Command } from '@event-driven-io/emmett';
+import { EmmettError } from '@event-driven-io/emmett';
+import { DeadLetterManager } from '../../src/messageBus/deadLetterManager';
+import { serialize } from '../../src/messageBus/serialization';
+import type { PubSubMessagePublishing } from '../../src/messageBus/types';
+
+interface MockRequest {
+  method: string;
+  reqOpts: Record<string, unknown>;
+}
+
+/**
+ * Create a dead-lettered message as returned by a pull
+ */
+function createPulledMessage(
+  id: string,
+  command: Command,
+  deadLetterAttributes: Record<string, string> = {},
+) {
+  return {
+    ackId: `ack-${id}`,
+    message: {
+      messageId: id,
+      data: serialize(command, { kind: 'command', messageId: `msg-${id}` }),
+      attributes: {
+        messageType: command.type,
+        messageKind: 'command',
+        tenant: 'acme',
+        ...deadLetterAttributes,
+      },
+      publishTime: { seconds: 1760000000, nanos: 500000000 },
+    },
+  };
+}
+
+/**
+ * Create a PubSub client pulling the given messages once
+ */
+function createMockPubSub(receivedMessages: unknown[]) {
+  const requests: MockRequest[] = [];
+  const pulls = [receivedMessages];
+  const publishMessage = jest.fn().mockResolvedValue('replayed-id');
+
+  const pubsub = {
+    subscription: jest.fn((name: string) => ({
+      name: `projects/test-project/subscriptions/${name}`,
+    })),
+    topic: jest.fn(() => ({ publishMessage })),
+    request: jest.fn(
+      (
+        config: MockRequest,
+        callback: (error: Error | null, response?: unknown) => void,
+      ) => {
+        requests.push({ method: config.method, reqOpts: config.reqOpts });
+        callback(
+          null,
+          config.method === 'pull'
+            ? { receivedMessages: pulls.shift() ?? [] }
+            : {},
+        );
+      },
+    ),
+  } as unknown as PubSub;
+
+  return { pubsub, requests, publishMessage };
+}
+
+describe('DeadLetterManager', () => {
+  const failed = createPulledMessage(
+    'dl-1',
+    { type: 'ChargeCard', data: { amount: 10 } },
+    {
+      deadLetterReason: 'failure',
+      deadLetterError: 'Card declined',
+      deadLetterErrorStack: 'Error: Card declined\n    at chargeCard',
+      deadLetterHandler: 'chargeCard',
+      deadLetterSubscription: 'myapp-cmd-ChargeCard',
+      deadLetterDeliveryAttempt: '5',
+    },
+  );
+  const invalid = createPulledMessage(
+    'dl-2',
+    { type: 'ShipOrder', data: {} },
+    {
+      deadLetterReason: 'validation',
+      deadLetterError: 'orderId is required',
+    },
+  );
+
+  describe('peek', () => {
+    it('should read dead-lettered messages with their dead-letter details', async () => {
+      const { pubsub } = createMockPubSub([failed]);
+      const manager = new DeadLetterManager({ pubsub, topicPrefix: 'myapp' });
+
+      const [deadLetter] = await manager.peek();
+
+      expect(deadLetter).toMatchObject({
+        id: 'dl-1',
+        messageType: 'ChargeCard',
+        kind: 'command',
+        message: {
+          type: 'ChargeCard',
+          data: { amount: 10 },
+          metadata: { messageId: 'msg-dl-1' },
+        },
+        attributes: {
+          messageType: 'ChargeCard',
+          messageKind: 'command',
+          tenant: 'acme',
+        },
+        reason: 'failure',
+        error: 'Card declined',
+        errorStack: 'Error: Card declined\n    at chargeCard',
+        handlerName: 'chargeCard',
+        subscriptionName: 'myapp-cmd-ChargeCard',
+        deliveryAttempt: 5,
+        deadLetteredAt: new Date(1760000000500),
+      });
+      expect(deadLetter.attributes).not.toHaveProperty('deadLetterReason');
+    });
+
+    it('should pull from the shared dead-letter subscription by default', async () => {
+      const { pubsub, requests } = createMockPubSub([]);
+      const manager = new DeadLetterManager({ pubsub, topicPrefix: 'myapp' });
+
+      await manager.peek();
+
+      expect(pubsub.subscription).toHaveBeenCalledWith('myapp-dead-letters');
+      expect(requests[0]).toEqual({
+        method: 'pull',
+        reqOpts: {
+          subscription:
+            'projects/test-project/subscriptions/myapp-dead-letters',
+          maxMessages: 100,
+          returnImmediately: true,
+        },
+      });
+    });
+
+    it('should release the messages it read', async () => {
+      const { pubsub, requests } = createMockPubSub([failed, invalid]);
+      const manager = new DeadLetterManager({ pubsub });
+
+      await manager.peek({ reasons: ['validation'] });
+
+      expect(requests.map(({ method }) => method)).toEqual([
+        'pull',
+        'pull',
+        'modifyAckDeadline',
+      ]);
+      expect(requests[2].reqOpts).toMatchObject({
+        ackIds: ['ack-dl-1', 'ack-dl-2'],
+        ackDeadlineSeconds: 0,
+      });
+    });
+
+    it('should filter messages by type, reason, error and ID', async () => {
+      const manager = () =>
+        new DeadLetterManager({
+          pubsub: createMockPubSub([failed, invalid]).pubsub,
+        });
+      const ids = async (deadLetters: Promise<{ id: string }[]>) =>
+        (await deadLetters).map(({ id }) => id);
+
+      await expect(
+        ids(manager().peek({ messageTypes: ['ShipOrder'] })),
+      ).resolves.toEqual(['dl-2']);
+      await expect(
+        ids(manager().peek({ reasons: ['failure'] })),
+      ).resolves.toEqual(['dl-1']);
+      await expect(ids(manager().peek({ error: 'declined' }))).resolves.toEqual(
+        ['dl-1'],
+      );
+      await expect(ids(manager().peek({ error: /^orderId/ }))).resolves.toEqual(
+        ['dl-2'],
+      );
+      await expect(
+        ids(manager().peek({ messageIds: ['dl-2'], reasons: ['failure'] })),
+      ).resolves.toEqual([]);
+    });
+
+    it('should fall back to the attributes of Pub/Sub dead-letter policies', async () => {
+      const forwarded = createPulledMessage(
+        'dl-3',
+        { type: 'ChargeCard', data: {} },
+        {
+          CloudPubSubDeadLetterSourceSubscription: 'myapp-cmd-ChargeCard',
+          CloudPubSubDeadLetterSourceDeliveryCount: '5',
+        },
+      );
+      const manager = new DeadLetterManager({
+        pubsub: createMockPubSub([forwarded]).pubsub,
+      });
+
+      const [deadLetter] = await manager.peek();
+
+      expect(deadLetter.reason).toBeUndefined();
+      expect(deadLetter.subscriptionName).toBe('myapp-cmd-ChargeCard');
+      expect(deadLetter.deliveryAttempt).toBe(5);
+      expect(Object.keys(deadLetter.attributes)).not.toContain(
+        'CloudPubSubDeadLetterSourceSubscription',
+      );
+    });
+
+    it('should keep undecodable messages with their decoding error', async () => {
+      const undecodable = {
+        ackId: 'ack-dl-4',
+        message: {
+          messageId: 'dl-4',
+          data: Buffer.from('not json'),
+          attributes: {
+            messageType: 'ChargeCard',
+            deadLetterReason: 'decoding',
+          },
+        },
+      };
+      const manager = new DeadLetterManager({
+        pubsub: createMockPubSub([undecodable]).pubsub,
+      });
+
+      const [deadLetter] = await manager.peek();
+
+      expect(deadLetter.message).toBeUndefined();
+      expect(deadLetter.decodingError).toContain(
+        'Cannot decode ChargeCard message',
+      );
+      expect(deadLetter.data.toString()).toBe('not json');
+    });
+  });
+
+  describe('replay', () => {
+    it('should republish matching messages to their topic and acknowledge them', async () => {
+      const { pubsub, requests, publishMessage } = createMockPubSub([
+        failed,
+        invalid,
+      ]);
+      const manager = new DeadLetterManager({ pubsub, topicPrefix: 'myapp' });
+
+      const replayed = await manager.replay({ messageTypes: ['ChargeCard'] });
+
+      expect(replayed.map(({ id }) => id)).toEqual(['dl-1']);
+      expect(pubsub.topic).toHaveBeenCalledWith('myapp-cmd-ChargeCard');
+      expect(publishMessage).toHaveBeenCalledWith({
+        data: failed.message.data,
+        attributes: {
+          messageType: 'ChargeCard',
+          messageKind: 'command',
+          tenant: 'acme',
+        },
+      });
+      expect(requests.slice(2)).toEqual([
+        {
+          method: 'acknowledge',
+          reqOpts: expect.objectContaining({ ackIds: ['ack-dl-1'] }),
+        },
+        {
+          method: 'modifyAckDeadline',
+          reqOpts: expect.objectContaining({ ackIds: ['ack-dl-2'] }),
+        },
+      ]);
+    });
+
+    it('should send edited messages with the message bus', async () => {
+      const messageBus = {
+        send: jest.fn().mockResolvedValue(undefined),
+        publish: jest.fn().mockResolvedValue(undefined),
+        schedule: jest.fn(),
+      } as unknown as PubSubMessagePublishing;
+      const { pubsub, publishMessage } = createMockPubSub([invalid]);
+      const manager = new DeadLetterManager({ pubsub, messageBus });
+
+      await manager.replay(
+        {},
+        {
+          edit: ({ message }) => ({
+            type: 'ShipOrder',
+            data: { ...(message!.data as object), orderId: 'order-1' },
+          }),
+        },
+      );
+
+      expect(publishMessage).not.toHaveBeenCalled();
+      expect(messageBus.send).toHaveBeenCalledWith(
+        { type: 'ShipOrder', data: { orderId: 'order-1' } },
+        {
+          correlationId: undefined,
+          causationId: 'msg-dl-2',
+          attributes: { tenant: 'acme' },
+        },
+      );
+    });
+
+    it('should require a message bus to replay edited messages', async () => {
+      const { pubsub, requests } = createMockPubSub([invalid]);
+      const manager = new DeadLetterManager({ pubsub });
+
+      await expect(
+        manager.replay({}, { edit: ({ message }) => message }),
+      ).rejects.toThrow(
+        'Cannot replay edited message dl-2 without a messageBus',
+      );
+      expect(requests.at(-1)).toMatchObject({
+        method: 'modifyAckDeadline',
+        reqOpts: { ackIds: ['ack-dl-2'] },
+      });
+    });
+
+    it('should not replay anything if a message has no type', async () => {
+      const untyped = {
+        ackId: 'ack-dl-5',
+        message: { messageId: 'dl-5', data: Buffer.from('{}'), attributes: {} },
+      };
+      const { pubsub, publishMessage } = createMockPubSub([failed, untyped]);
+      const manager = new DeadLetterManager({ pubsub });
+
+      await expect(manager.replay()).rejects.toThrow(EmmettError);
+      await expect(
+        new DeadLetterManager({
+          pubsub: createMockPubSub([untyped]).pubsub,
+        }).replay(),
+      ).rejects.toThrow(
+        'Dead-lettered message dl-5 has no message type and cannot be replayed',
+      );
+      expect(publishMessage).not.toHaveBeenCalled();
+    });
+
+    it('should replay events of other producers to their inbound topic', async () => {
+      const uploaded = {
+        ackId: 'ack-dl-6',
+        message: {
+          messageId: 'dl-6',
+          data: Buffer.from('{"name":"photo.png"}'),
+          attributes: {
+            messageType: 'ObjectFinalized',
+            deadLetterReason: 'failure',
+          },
+        },
+      };
+      const { pubsub } = createMockPubSub([uploaded]);
+      const manager = new DeadLetterManager({
+        pubsub,
+        messageTypes: {
+          ObjectFinalized: {
+            kind: 'event',
+            inbound: {
+              topic: 'gcs-uploads',
+              adapter: (message) => ({
+                type: 'ObjectFinalized',
+                data: JSON.parse(message.data.toString()) as Record<
+                  string,
+                  unknown
+                >,
+              }),
+            },
+          },
+        },
+      });
+
+      const [deadLetter] = await manager.replay();
+
+      expect(deadLetter.message).toMatchObject({
+        type: 'ObjectFinalized',
+        data: { name: 'photo.png' },
+      });
+      expect(pubsub.topic).toHaveBeenCalledWith('gcs-uploads');
+    });
+  });
+});
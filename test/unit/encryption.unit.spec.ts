@@ -0,0 +1,148 @@
+import { randomBytes } from 'crypto';
+import { EmmettError } from '@event-driven-io/emmett';
+import {
+  LocalKeyProvider,
+  createDataKey,
+  decryptBytes,
+  encryptBytes,
+  unwrapDataKey,
+} from '../../src/messageBus/encryption';
+
+describe('Encryption', () => {
+  const key = randomBytes(32);
+
+  describe('encryptBytes', () => {
+    it('should encrypt bytes that decryptBytes restores', () => {
+      const encrypted = encryptBytes(
+        key,
+        Buffer.from('secret'),
+        'UserRegistered',
+      );
+
+      expect(encrypted).not.toContain('secret');
+      expect(
+        decryptBytes(key, encrypted, 'UserRegistered').toString('utf-8'),
+      ).toBe('secret');
+    });
+
+    it('should use a new IV for every encryption', () => {
+      expect(encryptBytes(key, Buffer.from('secret'), 'A')).not.toBe(
+        encryptBytes(key, Buffer.from('secret'), 'A'),
+      );
+    });
+
+    it('should reject a wrong key or additional data', () => {
+      const encrypted = encryptBytes(key, Buffer.from('secret'), 'A');
+
+      expect(() => decryptBytes(randomBytes(32), encrypted, 'A')).toThrow();
+      expect(() => decryptBytes(key, encrypted, 'B')).toThrow();
+    });
+
+    it('should reject tampered data', () => {
+      const bytes = Buffer.from(
+        encryptBytes(key, Buffer.from('secret'), 'A'),
+        'base64',
+      );
+      bytes[bytes.length - 1] ^= 1;
+
+      expect(() => decryptBytes(key, bytes.toString('base64'), 'A')).toThrow();
+    });
+
+    it('should reject truncated authentication tags', () => {
+      // IV and the first 4 bytes of the tag of an empty plaintext
+      const truncated = Buffer.from(
+        encryptBytes(key, Buffer.alloc(0), 'A'),
+        'base64',
+      ).subarray(0, 16);
+
+      expect(() =>
+        decryptBytes(key, truncated.toString('base64'), 'A'),
+      ).toThrow(EmmettError);
+      expect(() =>
+        decryptBytes(key, truncated.toString('base64'), 'A'),
+      ).toThrow('Cannot decrypt data without a 16-byte authentication tag');
+    });
+  });
+
+  describe('LocalKeyProvider', () => {
+    it('should wrap data keys with the current key', async () => {
+      const keyProvider = new LocalKeyProvider(
+        { old: randomBytes(32), current: randomBytes(32) },
+        'current',
+      );
+
+      const dataKey = await createDataKey(keyProvider);
+
+      expect(dataKey.key).toHaveLength(32);
+      expect(dataKey.keyId).toBe('current');
+      expect(dataKey.wrappedKey.equals(dataKey.key)).toBe(false);
+      await expect(
+        keyProvider.unwrapKey(dataKey.wrappedKey, 'current'),
+      ).resolves.toEqual(dataKey.key);
+    });
+
+    it('should unwrap keys wrapped with a rotated key', async () => {
+      const keys = { old: randomBytes(32), current: randomBytes(32) };
+      const { wrappedKey, key: dataKey } = await createDataKey(
+        new LocalKeyProvider(keys, 'old'),
+      );
+
+      await expect(
+        new LocalKeyProvider(keys, 'current').unwrapKey(wrappedKey, 'old'),
+      ).resolves.toEqual(dataKey);
+    });
+
+    it('should reject unknown key IDs', async () => {
+      const keyProvider = new LocalKeyProvider({ k1: randomBytes(32) }, 'k1');
+
+      await expect(
+        keyProvider.unwrapKey(randomBytes(60), 'k2'),
+      ).rejects.toThrow('Unknown encryption key k2');
+    });
+
+    it('should reject keys that are not 256 bits', () => {
+      expect(() => new LocalKeyProvider({ k1: randomBytes(16) }, 'k1')).toThrow(
+        EmmettError,
+      );
+    });
+
+    it('should reject a missing current key', () => {
+      expect(() => new LocalKeyProvider({ k1: randomBytes(32) }, 'k2')).toThrow(
+        'Unknown current encryption key k2',
+      );
+    });
+  });
+
+  describe('unwrapDataKey', () => {
+    const keyProvider = new LocalKeyProvider({ k1: randomBytes(32) }, 'k1');
+
+    it('should return undefined for unencrypted messages', async () => {
+      await expect(
+        unwrapDataKey({ messageType: 'A' }, keyProvider),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should unwrap the data key of encrypted messages', async () => {
+      const dataKey = await createDataKey(keyProvider);
+
+      await expect(
+        unwrapDataKey(
+          {
+            encryptionKeyId: dataKey.keyId,
+            encryptedDataKey: dataKey.wrappedKey.toString('base64'),
+          },
+          keyProvider,
+        ),
+      ).resolves.toEqual(dataKey.key);
+    });
+
+    it('should throw EmmettError for encrypted messages without key provider', async () => {
+      await expect(
+        unwrapDataKey(
+          { encryptionKeyId: 'k1', encryptedDataKey: 'AAAA' },
+          undefined,
+        ),
+      ).rejects.toThrow(EmmettError);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import {
+  InMemoryIdempotencyStore,
+  getIdempotencyKey,
+} from '../../src/messageBus/idempotencyStore';
+
+describe('IdempotencyStore', () => {
+  describe('getIdempotencyKey', () => {
+    it('should scope message IDs by subscription', () => {
+      expect(getIdempotencyKey('emmett-cmd-AddProductItem', 'msg-1')).toBe(
+        'emmett-cmd-AddProductItem/msg-1',
+      );
+    });
+  });
+
+  describe('InMemoryIdempotencyStore', () => {
+    it('should remember processed keys', async () => {
+      const store = new InMemoryIdempotencyStore();
+
+      expect(await store.isProcessed('sub/msg-1')).toBe(false);
+
+      await store.markProcessed('sub/msg-1');
+
+      expect(await store.isProcessed('sub/msg-1')).toBe(true);
+      expect(await store.isProcessed('sub/msg-2')).toBe(false);
+    });
+
+    it('should evict the least recently used keys', async () => {
+      const store = new InMemoryIdempotencyStore(2);
+
+      await store.markProcessed('sub/msg-1');
+      await store.markProcessed('sub/msg-2');
+      // Using msg-1 makes msg-2 the least recently used
+      await store.isProcessed('sub/msg-1');
+      await store.markProcessed('sub/msg-3');
+
+      expect(store.size()).toBe(2);
+      expect(await store.isProcessed('sub/msg-1')).toBe(true);
+      expect(await store.isProcessed('sub/msg-2')).toBe(false);
+      expect(await store.isProcessed('sub/msg-3')).toBe(true);
+    });
+  });
+});
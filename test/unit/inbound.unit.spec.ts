@@ -0,0 +1,54 @@
+import { EmmettError } from '@event-driven-io/emmett';
+import {
+  MessageDecodingError,
+  createJsonInboundAdapter,
+} from '../../src/messageBus/inbound';
+
+describe('Inbound', () => {
+  describe('createJsonInboundAdapter', () => {
+    const adapter = createJsonInboundAdapter('ObjectFinalized');
+
+    it('should map JSON data and attributes to an event', () => {
+      expect(
+        adapter({
+          id: 'pubsub-id',
+          data: Buffer.from('{"name":"report.pdf","size":"1024"}'),
+          attributes: { eventType: 'OBJECT_FINALIZE', bucketId: 'uploads' },
+        }),
+      ).toEqual({
+        type: 'ObjectFinalized',
+        data: { name: 'report.pdf', size: '1024' },
+        metadata: {
+          attributes: { eventType: 'OBJECT_FINALIZE', bucketId: 'uploads' },
+        },
+      });
+    });
+
+    it('should map messages without data to events with empty data', () => {
+      expect(
+        adapter({ id: 'pubsub-id', data: Buffer.alloc(0), attributes: {} }),
+      ).toEqual({
+        type: 'ObjectFinalized',
+        data: {},
+        metadata: { attributes: {} },
+      });
+    });
+
+    it('should throw for data that is not JSON', () => {
+      expect(() =>
+        adapter({ id: 'pubsub-id', data: Buffer.from('a,b'), attributes: {} }),
+      ).toThrow(SyntaxError);
+    });
+  });
+
+  describe('MessageDecodingError', () => {
+    it('should be an EmmettError with the message type', () => {
+      const error = new MessageDecodingError('OrderPlaced', 'bad data');
+
+      expect(error).toBeInstanceOf(MessageDecodingError);
+      expect(error).toBeInstanceOf(EmmettError);
+      expect(error.messageType).toBe('OrderPlaced');
+      expect(error.message).toBe('Cannot decode OrderPlaced message: bad data');
+    });
+  });
+});
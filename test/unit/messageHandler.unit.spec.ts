@@ -6,67 +6,38 @@ import type {
   SingleRawMessageHandlerWithoutContext,
 } from '@event-driven-io/emmett';
 import { EmmettError } from '@event-driven-io/emmett';
+import { gzipSync } from 'zlib';
 import {
-  shouldRetry,
   handleCommandMessage,
   handleEventMessage,
   createMessageListener,
 } from '../../src/messageBus/messageHandler';
-import { serialize } from '../../src/messageBus/serialization';
+import { InMemoryIdempotencyStore } from '../../src/messageBus/idempotencyStore';
+import { MessageTypeRegistry } from '../../src/messageBus/messageTypeRegistry';
+import {
+  extractMessageId,
+  serialize,
+} from '../../src/messageBus/serialization';
+import { MessageValidationError } from '../../src/messageBus/validation';
+import type { MessageCodec } from '../../src/messageBus/codec';
+import {
+  LocalKeyProvider,
+  createDataKey,
+} from '../../src/messageBus/encryption';
+import {
+  HmacMessageSigner,
+  MessageSignatureError,
+  signPayload,
+} from '../../src/messageBus/signing';
+import { encodeCloudEvent } from '../../src/messageBus/cloudEvents';
+import {
+  MessageDecodingError,
+  createJsonInboundAdapter,
+} from '../../src/messageBus/inbound';
+import { PermanentError, RetriableError } from '../../src/messageBus/retry';
+import type { PubSubMessageEnvelope } from '../../src/messageBus/types';
 
 describe('MessageHandler', () => {
-  describe('shouldRetry', () => {
-    it('should return true for network errors', () => {
-      const error = new Error('Network error occurred');
-      expect(shouldRetry(error)).toBe(true);
-    });
-
-    it('should return true for timeout errors', () => {
-      const error = new Error('Request timeout');
-      expect(shouldRetry(error)).toBe(true);
-    });
-
-    it('should return true for ECONNREFUSED errors', () => {
-      const error = new Error('ECONNREFUSED');
-      expect(shouldRetry(error)).toBe(true);
-    });
-
-    it('should return true for unavailable errors', () => {
-      const error = new Error('Service unavailable');
-      expect(shouldRetry(error)).toBe(true);
-    });
-
-    it('should return false for EmmettError', () => {
-      const error = new EmmettError('Business logic error');
-      expect(shouldRetry(error)).toBe(false);
-    });
-
-    it('should return false for validation errors', () => {
-      const error = new Error('Validation failed');
-      expect(shouldRetry(error)).toBe(false);
-    });
-
-    it('should return false for invalid errors', () => {
-      const error = new Error('Invalid input');
-      expect(shouldRetry(error)).toBe(false);
-    });
-
-    it('should return false for not found errors', () => {
-      const error = new Error('Resource not found');
-      expect(shouldRetry(error)).toBe(false);
-    });
-
-    it('should return true for unknown error types', () => {
-      const error = 'Unknown error';
-      expect(shouldRetry(error)).toBe(true);
-    });
-
-    it('should return true for unknown Error instances', () => {
-      const error = new Error('Something went wrong');
-      expect(shouldRetry(error)).toBe(true);
-    });
-  });
-
   describe('handleCommandMessage', () => {
     const createMockMessage = (command: Command): PubSubMessage => {
       const buffer = serialize(command);
@@ -235,6 +206,280 @@ describe('MessageHandler', () => {
     });
   });
 
+  describe('retry classifier', () => {
+    let consoleErrorSpy: jest.SpyInstance;
+    let consoleWarnSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    });
+
+    afterEach(() => {
+      consoleErrorSpy.mockRestore();
+      consoleWarnSpy.mockRestore();
+    });
+
+    it('should ack commands the classifier marks as permanent', async () => {
+      const error = new Error('Payment declined');
+      const retryClassifier = jest.fn().mockReturnValue(false);
+
+      const result = await handleCommandMessage(
+        {
+          data: serialize({ type: 'ChargeCard', data: {} }),
+          deliveryAttempt: 3,
+        } as unknown as PubSubMessage,
+        new Map([['ChargeCard', [jest.fn().mockRejectedValue(error)]]]),
+        'ChargeCard',
+        { retryClassifier },
+      );
+
+      expect(result).toBe('ack');
+      expect(retryClassifier).toHaveBeenCalledWith(error, {
+        messageType: 'ChargeCard',
+        kind: 'command',
+        deliveryAttempt: 3,
+      });
+    });
+
+    it('should fall back to shouldRetry when the classifier returns undefined', async () => {
+      const consoleInfoSpy = jest.spyOn(console, 'info').mockImplementation();
+
+      const result = await handleEventMessage(
+        {
+          data: serialize({ type: 'OrderPlaced', data: {} }),
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        new Map([
+          [
+            'OrderPlaced',
+            [jest.fn().mockRejectedValue(new RetriableError('Not yet'))],
+          ],
+        ]),
+        'OrderPlaced',
+        { retryClassifier: () => undefined },
+      );
+
+      expect(result).toBe('nack');
+
+      consoleInfoSpy.mockRestore();
+    });
+
+    it('should ack events whose handler throws PermanentError', async () => {
+      const secondHandler = jest.fn().mockResolvedValue(undefined);
+
+      const result = await handleEventMessage(
+        {
+          data: serialize({ type: 'OrderPlaced', data: {} }),
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        new Map([
+          [
+            'OrderPlaced',
+            [
+              jest
+                .fn()
+                .mockRejectedValue(new PermanentError('Unknown customer')),
+              secondHandler,
+            ],
+          ],
+        ]),
+        'OrderPlaced',
+      );
+
+      expect(result).toBe('ack');
+      expect(secondHandler).toHaveBeenCalled();
+    });
+  });
+
+  describe('dead-lettering failed messages', () => {
+    let consoleErrorSpy: jest.SpyInstance;
+    let consoleWarnSpy: jest.SpyInstance;
+    let consoleInfoSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      consoleInfoSpy = jest.spyOn(console, 'info').mockImplementation();
+    });
+
+    afterEach(() => {
+      consoleErrorSpy.mockRestore();
+      consoleWarnSpy.mockRestore();
+      consoleInfoSpy.mockRestore();
+    });
+
+    const createMockMessage = (
+      message: Command | Event,
+      deliveryAttempt: number,
+    ): PubSubMessage =>
+      ({
+        id: 'pubsub-id',
+        data: serialize(message),
+        deliveryAttempt,
+      }) as unknown as PubSubMessage;
+
+    const paymentDeclined = new PermanentError('Payment declined');
+    const gatewayUnavailable = new RetriableError('Gateway unavailable');
+
+    async function chargeCard(): Promise<void> {
+      throw paymentDeclined;
+    }
+
+    async function retryCharge(): Promise<void> {
+      throw gatewayUnavailable;
+    }
+
+    it('should dead-letter commands failing with a permanent error', async () => {
+      const message = createMockMessage({ type: 'ChargeCard', data: {} }, 2);
+      const deadLetter = jest.fn().mockResolvedValue(undefined);
+
+      const result = await handleCommandMessage(
+        message,
+        new Map([['ChargeCard', [chargeCard]]]),
+        'ChargeCard',
+        { deadLetter, subscriptionName: 'test-cmd-ChargeCard' },
+      );
+
+      expect(result).toBe('ack');
+      expect(deadLetter).toHaveBeenCalledWith(message, {
+        reason: 'failure',
+        error: paymentDeclined,
+        subscriptionName: 'test-cmd-ChargeCard',
+        handlerName: 'chargeCard',
+        deliveryAttempt: 2,
+      });
+    });
+
+    it('should nack commands failing with a retriable error before the last delivery attempt', async () => {
+      const deadLetter = jest.fn().mockResolvedValue(undefined);
+
+      const result = await handleCommandMessage(
+        createMockMessage({ type: 'ChargeCard', data: {} }, 4),
+        new Map([['ChargeCard', [retryCharge]]]),
+        'ChargeCard',
+        { deadLetter, maxDeliveryAttempts: 5 },
+      );
+
+      expect(result).toBe('nack');
+      expect(deadLetter).not.toHaveBeenCalled();
+    });
+
+    it('should dead-letter commands failing with a retriable error on the last delivery attempt', async () => {
+      const deadLetter = jest.fn().mockResolvedValue(undefined);
+
+      const result = await handleCommandMessage(
+        createMockMessage({ type: 'ChargeCard', data: {} }, 5),
+        new Map([['ChargeCard', [retryCharge]]]),
+        'ChargeCard',
+        { deadLetter, maxDeliveryAttempts: 5 },
+      );
+
+      expect(result).toBe('ack');
+      expect(deadLetter).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          reason: 'max-delivery-attempts',
+          error: gatewayUnavailable,
+          handlerName: 'retryCharge',
+          deliveryAttempt: 5,
+        }),
+      );
+    });
+
+    it('should keep retrying without a dead-letter destination', async () => {
+      const result = await handleCommandMessage(
+        createMockMessage({ type: 'ChargeCard', data: {} }, 5),
+        new Map([['ChargeCard', [retryCharge]]]),
+        'ChargeCard',
+        { maxDeliveryAttempts: 5 },
+      );
+
+      expect(result).toBe('nack');
+    });
+
+    it('should nack failed commands that cannot be dead-lettered', async () => {
+      const result = await handleCommandMessage(
+        createMockMessage({ type: 'ChargeCard', data: {} }, 1),
+        new Map([['ChargeCard', [chargeCard]]]),
+        'ChargeCard',
+        { deadLetter: jest.fn().mockRejectedValue(new Error('Unavailable')) },
+      );
+
+      expect(result).toBe('nack');
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Failed to dead-letter failed ChargeCard message:',
+        'Unavailable',
+      );
+    });
+
+    it('should dead-letter events once the other handlers ran', async () => {
+      const calls: string[] = [];
+      const secondHandler = jest.fn().mockImplementation(() => {
+        calls.push('handler');
+        return Promise.resolve();
+      });
+      const deadLetter = jest.fn().mockImplementation(() => {
+        calls.push('deadLetter');
+        return Promise.resolve();
+      });
+
+      const result = await handleEventMessage(
+        createMockMessage({ type: 'OrderPlaced', data: {} }, 1),
+        new Map([['OrderPlaced', [chargeCard, secondHandler]]]),
+        'OrderPlaced',
+        { deadLetter },
+      );
+
+      expect(result).toBe('ack');
+      expect(calls).toEqual(['handler', 'deadLetter']);
+      expect(deadLetter).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          reason: 'failure',
+          error: paymentDeclined,
+          handlerName: 'chargeCard',
+        }),
+      );
+    });
+
+    it('should not mark dead-lettered events as processed, so replays are handled', async () => {
+      const idempotencyStore = new InMemoryIdempotencyStore();
+      const markSpy = jest.spyOn(idempotencyStore, 'markProcessed');
+
+      const result = await handleEventMessage(
+        createMockMessage({ type: 'OrderPlaced', data: {} }, 1),
+        new Map([['OrderPlaced', [chargeCard]]]),
+        'OrderPlaced',
+        {
+          deadLetter: jest.fn().mockResolvedValue(undefined),
+          idempotencyStore,
+        },
+      );
+
+      expect(result).toBe('ack');
+      expect(markSpy).not.toHaveBeenCalled();
+    });
+
+    it('should not mark events as processed when they cannot be dead-lettered', async () => {
+      const idempotencyStore = new InMemoryIdempotencyStore();
+      const markSpy = jest.spyOn(idempotencyStore, 'markProcessed');
+
+      const result = await handleEventMessage(
+        createMockMessage({ type: 'OrderPlaced', data: {} }, 1),
+        new Map([['OrderPlaced', [chargeCard]]]),
+        'OrderPlaced',
+        {
+          deadLetter: jest.fn().mockRejectedValue(new Error('Unavailable')),
+          idempotencyStore,
+        },
+      );
+
+      expect(result).toBe('nack');
+      expect(markSpy).not.toHaveBeenCalled();
+    });
+  });
+
   describe('handleEventMessage', () => {
     const createMockMessage = (event: Event): PubSubMessage => {
       const buffer = serialize(event);
@@ -387,6 +632,1015 @@ describe('MessageHandler', () => {
     });
   });
 
+  describe('message identity and idempotency', () => {
+    const createMockMessage = (event: Event): PubSubMessage =>
+      ({
+        id: 'pubsub-id',
+        data: serialize(event),
+        deliveryAttempt: 1,
+        ack: jest.fn(),
+        nack: jest.fn(),
+      }) as unknown as PubSubMessage;
+
+    const getEnvelopeMessageId = (message: PubSubMessage): string =>
+      (JSON.parse(message.data.toString()) as { messageId: string }).messageId;
+
+    it('should attach the envelope message ID to handled messages', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['TestEvent', [handler]]]);
+      const message = createMockMessage({ type: 'TestEvent', data: {} });
+
+      await handleEventMessage(message, handlers, 'TestEvent');
+
+      expect(extractMessageId(handler.mock.calls[0][0] as AnyMessage)).toBe(
+        getEnvelopeMessageId(message),
+      );
+    });
+
+    it('should add IDs and custom attributes to the message metadata', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['TestEvent', [handler]]]);
+      const message = {
+        id: 'pubsub-id',
+        data: serialize(
+          {
+            type: 'TestEvent',
+            data: {},
+            metadata: { userId: 'user-1' },
+          } as Event,
+          {
+            messageId: 'msg-1',
+            correlationId: 'request-1',
+            causationId: 'command-1',
+          },
+        ),
+        attributes: {
+          messageType: 'TestEvent',
+          messageKind: 'event',
+          messageId: 'msg-1',
+          tenant: 'acme',
+        },
+      } as unknown as PubSubMessage;
+
+      await handleEventMessage(message, handlers, 'TestEvent');
+
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metadata: {
+            userId: 'user-1',
+            messageId: 'msg-1',
+            correlationId: 'request-1',
+            causationId: 'command-1',
+            attributes: { tenant: 'acme' },
+          },
+        }),
+      );
+    });
+
+    it('should skip events already processed on the same subscription', async () => {
+      const consoleInfoSpy = jest.spyOn(console, 'info').mockImplementation();
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['TestEvent', [handler]]]);
+      const options = {
+        idempotencyStore: new InMemoryIdempotencyStore(),
+        subscriptionName: 'emmett-evt-TestEvent-group-a',
+      };
+      const message = createMockMessage({ type: 'TestEvent', data: {} });
+
+      expect(
+        await handleEventMessage(message, handlers, 'TestEvent', options),
+      ).toBe('ack');
+      // Redelivery
+      expect(
+        await handleEventMessage(message, handlers, 'TestEvent', options),
+      ).toBe('ack');
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      // Another consumer group still processes it
+      await handleEventMessage(message, handlers, 'TestEvent', {
+        ...options,
+        subscriptionName: 'emmett-evt-TestEvent-group-b',
+      });
+      expect(handler).toHaveBeenCalledTimes(2);
+
+      consoleInfoSpy.mockRestore();
+    });
+
+    it('should not record commands that failed', async () => {
+      const consoleErrorSpy = jest
+        .spyOn(console, 'error')
+        .mockImplementation();
+      const consoleInfoSpy = jest.spyOn(console, 'info').mockImplementation();
+      const handler = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['TestCommand', [handler]]]);
+      const idempotencyStore = new InMemoryIdempotencyStore();
+      const message = createMockMessage({ type: 'TestCommand', data: {} });
+
+      expect(
+        await handleCommandMessage(message, handlers, 'TestCommand', {
+          idempotencyStore,
+        }),
+      ).toBe('nack');
+      expect(
+        await handleCommandMessage(message, handlers, 'TestCommand', {
+          idempotencyStore,
+        }),
+      ).toBe('ack');
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(
+        await idempotencyStore.isProcessed(
+          `TestCommand/${getEnvelopeMessageId(message)}`,
+        ),
+      ).toBe(true);
+
+      consoleErrorSpy.mockRestore();
+      consoleInfoSpy.mockRestore();
+    });
+
+    it('should process messages when the idempotency store fails', async () => {
+      const consoleErrorSpy = jest
+        .spyOn(console, 'error')
+        .mockImplementation();
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['TestEvent', [handler]]]);
+      const idempotencyStore = {
+        isProcessed: jest.fn().mockRejectedValue(new Error('Store down')),
+        markProcessed: jest.fn().mockRejectedValue(new Error('Store down')),
+      };
+
+      const result = await handleEventMessage(
+        createMockMessage({ type: 'TestEvent', data: {} }),
+        handlers,
+        'TestEvent',
+        { idempotencyStore },
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('schema validation', () => {
+    const messageTypes = new MessageTypeRegistry({
+      TestCommand: {
+        kind: 'command',
+        schema: (data: unknown) =>
+          typeof (data as { id?: unknown }).id === 'string',
+      },
+    });
+
+    const createMockMessage = (command: Command): PubSubMessage =>
+      ({
+        id: 'pubsub-id',
+        data: serialize(command),
+        attributes: { messageType: command.type, messageKind: 'command' },
+        deliveryAttempt: 1,
+      }) as unknown as PubSubMessage;
+
+    let consoleErrorSpy: jest.SpyInstance;
+    let consoleWarnSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    });
+
+    afterEach(() => {
+      consoleErrorSpy.mockRestore();
+      consoleWarnSpy.mockRestore();
+    });
+
+    it('should handle valid messages', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['TestCommand', [handler]]]);
+
+      const result = await handleCommandMessage(
+        createMockMessage({ type: 'TestCommand', data: { id: 'cmd-1' } }),
+        handlers,
+        'TestCommand',
+        { messageTypes },
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).toHaveBeenCalled();
+    });
+
+    it('should dead-letter invalid messages without calling the handler', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const deadLetter = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['TestCommand', [handler]]]);
+      const message = createMockMessage({
+        type: 'TestCommand',
+        data: { id: 42 },
+      });
+
+      const result = await handleCommandMessage(
+        message,
+        handlers,
+        'TestCommand',
+        { messageTypes, deadLetter, subscriptionName: 'test-cmd-sub' },
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).not.toHaveBeenCalled();
+      expect(deadLetter).toHaveBeenCalledWith(message, {
+        reason: 'validation',
+        error: expect.any(MessageValidationError),
+        subscriptionName: 'test-cmd-sub',
+      });
+    });
+
+    it('should drop invalid messages without a dead-letter handler', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['TestEvent', [handler]]]);
+      const eventTypes = new MessageTypeRegistry({
+        TestEvent: {
+          kind: 'event',
+          schema: {
+            parse: () => {
+              throw new Error('id is required');
+            },
+          },
+        },
+      });
+
+      const result = await handleEventMessage(
+        {
+          data: serialize({ type: 'TestEvent', data: {} }),
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        handlers,
+        'TestEvent',
+        { messageTypes: eventTypes },
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Dropping invalid message: Invalid TestEvent message: id is required',
+      );
+    });
+
+    it('should nack invalid messages when dead-lettering fails', async () => {
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['TestCommand', [jest.fn()]]]);
+
+      const result = await handleCommandMessage(
+        createMockMessage({ type: 'TestCommand', data: {} }),
+        handlers,
+        'TestCommand',
+        {
+          messageTypes,
+          deadLetter: jest.fn().mockRejectedValue(new Error('unavailable')),
+        },
+      );
+
+      expect(result).toBe('nack');
+    });
+  });
+
+  describe('message codecs', () => {
+    const textCodec: MessageCodec = {
+      contentType: 'text/test',
+      encode: (envelope) => Buffer.from(`text:${JSON.stringify(envelope)}`),
+      decode: (data) =>
+        JSON.parse(
+          data.toString().slice('text:'.length),
+        ) as PubSubMessageEnvelope,
+    };
+
+    let consoleErrorSpy: jest.SpyInstance;
+    let consoleWarnSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    });
+
+    afterEach(() => {
+      consoleErrorSpy.mockRestore();
+      consoleWarnSpy.mockRestore();
+    });
+
+    it('should decode messages with the codec of their content type', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['TestEvent', [handler]]]);
+      const event: Event = { type: 'TestEvent', data: { id: 'evt-1' } };
+
+      const result = await handleEventMessage(
+        {
+          id: 'pubsub-id',
+          data: serialize(event, { codec: textCodec }),
+          attributes: { messageType: 'TestEvent', contentType: 'text/test' },
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        handlers,
+        'TestEvent',
+        { codecs: [textCodec] },
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'TestEvent', data: { id: 'evt-1' } }),
+      );
+    });
+
+    it('should decode messages without content type as JSON', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['TestEvent', [handler]]]);
+
+      const result = await handleEventMessage(
+        {
+          id: 'pubsub-id',
+          data: serialize({ type: 'TestEvent', data: { id: 'evt-1' } }),
+          attributes: { messageType: 'TestEvent' },
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        handlers,
+        'TestEvent',
+        { codecs: [textCodec] },
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).toHaveBeenCalled();
+    });
+
+    it('should ack messages with an unknown content type without handling them', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['TestCommand', [handler]]]);
+
+      const result = await handleCommandMessage(
+        {
+          id: 'pubsub-id',
+          data: serialize(
+            { type: 'TestCommand', data: {} },
+            { codec: textCodec },
+          ),
+          attributes: { messageType: 'TestCommand', contentType: 'text/test' },
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        handlers,
+        'TestCommand',
+        {},
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('compressed messages', () => {
+    it('should decompress messages according to their content encoding', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['TestEvent', [handler]]]);
+
+      const result = await handleEventMessage(
+        {
+          id: 'pubsub-id',
+          data: gzipSync(
+            serialize({ type: 'TestEvent', data: { id: 'evt-1' } }),
+          ),
+          attributes: { messageType: 'TestEvent', contentEncoding: 'gzip' },
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        handlers,
+        'TestEvent',
+        {},
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { id: 'evt-1' } }),
+      );
+    });
+
+    it('should dead-letter messages decompressing beyond the maximum size', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const deadLetter = jest.fn().mockResolvedValue(undefined);
+      const message = {
+        id: 'pubsub-id',
+        data: gzipSync(
+          serialize({ type: 'TestEvent', data: { padding: 'x'.repeat(5000) } }),
+        ),
+        attributes: { messageType: 'TestEvent', contentEncoding: 'gzip' },
+        deliveryAttempt: 1,
+      } as unknown as PubSubMessage;
+
+      const result = await handleEventMessage(
+        message,
+        new Map([['TestEvent', [handler]]]),
+        'TestEvent',
+        { deadLetter, maxDecompressedBytes: 1000 },
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).not.toHaveBeenCalled();
+      expect(deadLetter).toHaveBeenCalledWith(message, {
+        reason: 'decoding',
+        error: expect.any(MessageDecodingError),
+        subscriptionName: undefined,
+      });
+      expect(deadLetter.mock.calls[0][1].error.message).toContain(
+        'Decompressed payload exceeds 1000 bytes',
+      );
+    });
+  });
+
+  describe('claim checks', () => {
+    it('should read claim-checked payloads from the store', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['TestEvent', [handler]]]);
+      const claimCheckStore = {
+        put: jest.fn(),
+        get: jest
+          .fn()
+          .mockResolvedValue(
+            serialize({ type: 'TestEvent', data: { id: 'evt-1' } }),
+          ),
+      };
+
+      const result = await handleEventMessage(
+        {
+          id: 'pubsub-id',
+          data: Buffer.alloc(0),
+          attributes: { messageType: 'TestEvent', claimCheck: 'blob-1' },
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        handlers,
+        'TestEvent',
+        { claimCheckStore },
+      );
+
+      expect(result).toBe('ack');
+      expect(claimCheckStore.get).toHaveBeenCalledWith('blob-1');
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { id: 'evt-1' } }),
+      );
+    });
+
+    it('should nack when the payload cannot be read', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['TestEvent', [handler]]]);
+
+      const result = await handleEventMessage(
+        {
+          id: 'pubsub-id',
+          data: Buffer.alloc(0),
+          attributes: { messageType: 'TestEvent', claimCheck: 'blob-1' },
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        handlers,
+        'TestEvent',
+        {
+          claimCheckStore: {
+            put: jest.fn(),
+            get: jest.fn().mockRejectedValue(new Error('Service unavailable')),
+          },
+        },
+      );
+
+      expect(result).toBe('nack');
+      expect(handler).not.toHaveBeenCalled();
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('signature verification', () => {
+    const signer = new HmacMessageSigner({ k1: Buffer.alloc(32, 1) }, 'k1');
+    const data = serialize({ type: 'ShipOrder', data: { orderId: 'o-1' } });
+
+    const createHandlers = (handler: jest.Mock) =>
+      new Map<string, SingleRawMessageHandlerWithoutContext<AnyMessage>[]>([
+        ['ShipOrder', [handler]],
+      ]);
+
+    let consoleWarnSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    });
+
+    afterEach(() => {
+      consoleWarnSpy.mockRestore();
+    });
+
+    it('should handle messages with a valid signature', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+
+      const result = await handleCommandMessage(
+        {
+          id: 'pubsub-id',
+          data,
+          attributes: {
+            messageType: 'ShipOrder',
+            ...(await signPayload(
+              'ShipOrder',
+              data,
+              { messageType: 'ShipOrder' },
+              signer,
+            )),
+          },
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        createHandlers(handler),
+        'ShipOrder',
+        { verifier: signer },
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { orderId: 'o-1' } }),
+      );
+    });
+
+    it('should dead-letter unsigned messages without calling the handler', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const deadLetter = jest.fn().mockResolvedValue(undefined);
+      const message = {
+        id: 'pubsub-id',
+        data,
+        attributes: { messageType: 'ShipOrder' },
+        deliveryAttempt: 1,
+      } as unknown as PubSubMessage;
+
+      const result = await handleCommandMessage(
+        message,
+        createHandlers(handler),
+        'ShipOrder',
+        { verifier: signer, deadLetter, subscriptionName: 'ship-order-sub' },
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).not.toHaveBeenCalled();
+      expect(deadLetter).toHaveBeenCalledWith(message, {
+        reason: 'signature',
+        error: expect.any(MessageSignatureError),
+        subscriptionName: 'ship-order-sub',
+      });
+    });
+
+    it('should dead-letter tampered events', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const deadLetter = jest.fn().mockResolvedValue(undefined);
+
+      const result = await handleEventMessage(
+        {
+          id: 'pubsub-id',
+          data: serialize({ type: 'ShipOrder', data: { orderId: 'o-2' } }),
+          attributes: {
+            messageType: 'ShipOrder',
+            ...(await signPayload(
+              'ShipOrder',
+              data,
+              { messageType: 'ShipOrder' },
+              signer,
+            )),
+          },
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        createHandlers(handler),
+        'ShipOrder',
+        { verifier: signer, deadLetter },
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).not.toHaveBeenCalled();
+      expect(deadLetter).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ reason: 'signature' }),
+      );
+    });
+
+    it('should dead-letter messages with tampered attributes', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const deadLetter = jest.fn().mockResolvedValue(undefined);
+      const attributes = { messageType: 'ShipOrder', tenant: 'acme' };
+
+      const result = await handleCommandMessage(
+        {
+          id: 'pubsub-id',
+          data,
+          attributes: {
+            ...attributes,
+            ...(await signPayload('ShipOrder', data, attributes, signer)),
+            tenant: 'other',
+          },
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        createHandlers(handler),
+        'ShipOrder',
+        { verifier: signer, deadLetter },
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).not.toHaveBeenCalled();
+      expect(deadLetter).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ reason: 'signature' }),
+      );
+    });
+
+    it('should nack when the verifier fails', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const handler = jest.fn().mockResolvedValue(undefined);
+
+      const result = await handleCommandMessage(
+        {
+          id: 'pubsub-id',
+          data,
+          attributes: {
+            messageType: 'ShipOrder',
+            signature: 'c2ln',
+            signatureKeyId: 'k1',
+          },
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        createHandlers(handler),
+        'ShipOrder',
+        {
+          verifier: {
+            verify: jest.fn().mockRejectedValue(new Error('KMS unavailable')),
+          },
+        },
+      );
+
+      expect(result).toBe('nack');
+      expect(handler).not.toHaveBeenCalled();
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('encrypted messages', () => {
+    const keyProvider = new LocalKeyProvider({ k1: Buffer.alloc(32, 1) }, 'k1');
+
+    it('should decrypt data before validation and handling', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['UserRegistered', [handler]]]);
+      const messageTypes = new MessageTypeRegistry({
+        UserRegistered: {
+          kind: 'event',
+          schema: (data: unknown) =>
+            typeof (data as { email?: unknown }).email === 'string',
+        },
+      });
+      const dataKey = await createDataKey(keyProvider);
+
+      const result = await handleEventMessage(
+        {
+          id: 'pubsub-id',
+          data: serialize(
+            {
+              type: 'UserRegistered',
+              data: { userId: 'u-1', email: 'jane@example.com' },
+            },
+            { encryption: { key: dataKey.key, paths: ['email'] } },
+          ),
+          attributes: {
+            messageType: 'UserRegistered',
+            encryptionKeyId: dataKey.keyId,
+            encryptedDataKey: dataKey.wrappedKey.toString('base64'),
+          },
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        handlers,
+        'UserRegistered',
+        { messageTypes, keyProvider },
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { userId: 'u-1', email: 'jane@example.com' },
+        }),
+      );
+      expect(handler.mock.calls[0][0].metadata.attributes).toBeUndefined();
+    });
+
+    it('should ack encrypted messages without key provider', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['UserRegistered', [handler]]]);
+      const dataKey = await createDataKey(keyProvider);
+
+      const result = await handleEventMessage(
+        {
+          id: 'pubsub-id',
+          data: serialize(
+            { type: 'UserRegistered', data: { email: 'jane@example.com' } },
+            { encryption: { key: dataKey.key } },
+          ),
+          attributes: {
+            messageType: 'UserRegistered',
+            encryptionKeyId: dataKey.keyId,
+            encryptedDataKey: dataKey.wrappedKey.toString('base64'),
+          },
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        handlers,
+        'UserRegistered',
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).not.toHaveBeenCalled();
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('CloudEvents', () => {
+    it('should handle binary CloudEvents without passing ce- attributes as custom attributes', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['OrderPlaced', [handler]]]);
+      const { data, attributes } = encodeCloudEvent(
+        {
+          type: 'OrderPlaced',
+          kind: 'event',
+          data: { orderId: 'o-1' },
+          timestamp: '2024-01-15T10:30:00.000Z',
+          messageId: 'msg-1',
+          correlationId: 'corr-1',
+        },
+        { source: '//orders.example.com' },
+      );
+
+      const result = await handleEventMessage(
+        {
+          id: 'pubsub-id',
+          data,
+          attributes: {
+            ...attributes,
+            messageType: 'OrderPlaced',
+            tenant: 'acme',
+          },
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        handlers,
+        'OrderPlaced',
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'OrderPlaced',
+          data: { orderId: 'o-1' },
+          metadata: expect.objectContaining({
+            messageId: 'msg-1',
+            correlationId: 'corr-1',
+            attributes: { tenant: 'acme' },
+          }),
+        }),
+      );
+    });
+  });
+
+  describe('undecodable messages', () => {
+    let consoleErrorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    });
+
+    afterEach(() => {
+      consoleErrorSpy.mockRestore();
+    });
+
+    const handler = jest.fn();
+    const handlers = new Map<
+      string,
+      SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+    >([['OrderPlaced', [handler]]]);
+    const createUndecodableMessage = () =>
+      ({
+        id: 'pubsub-id',
+        data: Buffer.from('not json'),
+        attributes: { messageType: 'OrderPlaced' },
+        deliveryAttempt: 1,
+      }) as unknown as PubSubMessage;
+
+    it('should dead-letter undecodable messages by default', async () => {
+      const deadLetter = jest.fn().mockResolvedValue(undefined);
+      const message = createUndecodableMessage();
+
+      const result = await handleEventMessage(
+        message,
+        handlers,
+        'OrderPlaced',
+        { deadLetter, subscriptionName: 'orders-sub' },
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).not.toHaveBeenCalled();
+      expect(deadLetter).toHaveBeenCalledWith(message, {
+        reason: 'decoding',
+        error: expect.any(MessageDecodingError),
+        subscriptionName: 'orders-sub',
+      });
+    });
+
+    it('should nack undecodable messages with the retry policy', async () => {
+      const result = await handleCommandMessage(
+        createUndecodableMessage(),
+        new Map([['OrderPlaced', [jest.fn()]]]),
+        'OrderPlaced',
+        { undecodableMessages: 'retry' },
+      );
+
+      expect(result).toBe('nack');
+    });
+
+    it('should ack undecodable messages with the drop policy', async () => {
+      const deadLetter = jest.fn();
+
+      const result = await handleEventMessage(
+        createUndecodableMessage(),
+        handlers,
+        'OrderPlaced',
+        { deadLetter, undecodableMessages: 'drop' },
+      );
+
+      expect(result).toBe('ack');
+      expect(deadLetter).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'Dropping undecodable message: Cannot decode OrderPlaced message',
+        ),
+      );
+    });
+  });
+
+  describe('inbound adapters', () => {
+    const createRawMessage = (data: string) =>
+      ({
+        id: 'pubsub-id',
+        data: Buffer.from(data),
+        attributes: { eventType: 'OBJECT_FINALIZE', bucketId: 'uploads' },
+        deliveryAttempt: 1,
+      }) as unknown as PubSubMessage;
+
+    it('should map raw messages with the adapter without verifying them', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['ObjectFinalized', [handler]]]);
+      const messageTypes = new MessageTypeRegistry({
+        ObjectFinalized: {
+          kind: 'event',
+          inbound: {
+            topic: 'gcs-uploads',
+            adapter: createJsonInboundAdapter('ObjectFinalized'),
+          },
+        },
+      });
+
+      const result = await handleEventMessage(
+        createRawMessage('{"name":"report.pdf"}'),
+        handlers,
+        'ObjectFinalized',
+        {
+          messageTypes,
+          verifier: new HmacMessageSigner({ k1: Buffer.alloc(32, 1) }, 'k1'),
+        },
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).toHaveBeenCalledWith({
+        type: 'ObjectFinalized',
+        data: { name: 'report.pdf' },
+        metadata: {
+          attributes: { eventType: 'OBJECT_FINALIZE', bucketId: 'uploads' },
+          messageId: 'pubsub-id',
+        },
+        __messageId: 'pubsub-id',
+      });
+    });
+
+    it('should dead-letter messages the adapter cannot map', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const handler = jest.fn();
+      const deadLetter = jest.fn().mockResolvedValue(undefined);
+      const messageTypes = new MessageTypeRegistry({
+        ObjectFinalized: {
+          kind: 'event',
+          inbound: { adapter: createJsonInboundAdapter('ObjectFinalized') },
+        },
+      });
+
+      const result = await handleEventMessage(
+        createRawMessage('a,b'),
+        new Map([['ObjectFinalized', [handler]]]),
+        'ObjectFinalized',
+        { messageTypes, deadLetter },
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).not.toHaveBeenCalled();
+      expect(deadLetter).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ reason: 'decoding' }),
+      );
+
+      consoleWarnSpy.mockRestore();
+    });
+  });
+
+  describe('upcasting', () => {
+    it('should pass upcast data to handlers and validate it', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const handlers = new Map<
+        string,
+        SingleRawMessageHandlerWithoutContext<AnyMessage>[]
+      >([['PriceSet', [handler]]]);
+      const messageTypes = new MessageTypeRegistry({
+        PriceSet: {
+          kind: 'event',
+          schema: (data: unknown) =>
+            typeof (data as { currency?: unknown }).currency === 'string',
+          upcasters: [(data) => ({ ...(data as object), currency: 'EUR' })],
+        },
+      });
+
+      const result = await handleEventMessage(
+        {
+          id: 'pubsub-id',
+          data: serialize({ type: 'PriceSet', data: { price: 10 } }),
+          attributes: { messageType: 'PriceSet' },
+          deliveryAttempt: 1,
+        } as unknown as PubSubMessage,
+        handlers,
+        'PriceSet',
+        { messageTypes },
+      );
+
+      expect(result).toBe('ack');
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { price: 10, currency: 'EUR' } }),
+      );
+    });
+  });
+
   describe('createMessageListener', () => {
     it('should create message listener for commands', () => {
       const mockOn = jest.fn();
@@ -0,0 +1,203 @@
+import { EmmettError } from '@event-driven-io/emmett';
+import {
+  inferMessageKind,
+  MessageTypeRegistry,
+} from '../../src/messageBus/messageTypeRegistry';
+import { jsonEnvelopeCodec } from '../../src/messageBus/topicSchema';
+
+describe('MessageTypeRegistry', () => {
+  describe('inferMessageKind', () => {
+    it('should treat types containing "Command" as commands', () => {
+      expect(inferMessageKind('AddItemCommand')).toBe('command');
+      expect(inferMessageKind('commandIssued')).toBe('command');
+    });
+
+    it('should treat other types as events', () => {
+      expect(inferMessageKind('AddProductItem')).toBe('event');
+    });
+  });
+
+  describe('resolveKind', () => {
+    it('should use declared kinds', () => {
+      const registry = new MessageTypeRegistry({
+        AddProductItem: 'command',
+        CommandLogged: { kind: 'event' },
+      });
+
+      expect(registry.resolveKind('AddProductItem')).toBe('command');
+      expect(registry.resolveKind('CommandLogged')).toBe('event');
+    });
+
+    it('should use registered kinds for undeclared types', () => {
+      const registry = new MessageTypeRegistry();
+      registry.register('AddProductItem', 'command');
+      registry.register('AuditCommandIssued', 'event');
+
+      expect(registry.resolveKind('AddProductItem')).toBe('command');
+      expect(registry.resolveKind('AuditCommandIssued')).toBe('event');
+    });
+
+    it('should fall back to the type name', () => {
+      const registry = new MessageTypeRegistry();
+
+      expect(registry.resolveKind('AddItemCommand')).toBe('command');
+      expect(registry.resolveKind('ItemAdded')).toBe('event');
+    });
+
+    it('should reject undeclared types in strict mode', () => {
+      const registry = new MessageTypeRegistry({ ItemAdded: 'event' }, true);
+
+      expect(registry.resolveKind('ItemAdded')).toBe('event');
+      expect(() => registry.resolveKind('AddItemCommand')).toThrow(EmmettError);
+    });
+  });
+
+  describe('get', () => {
+    it('should return declared definitions with their schema', () => {
+      const schema = { parse: (data: unknown) => data };
+      const registry = new MessageTypeRegistry({
+        ItemAdded: { kind: 'event', schema },
+        AddItem: 'command',
+      });
+
+      expect(registry.get('ItemAdded')).toEqual({ kind: 'event', schema });
+      expect(registry.get('AddItem')).toEqual({ kind: 'command' });
+      expect(registry.get('Unknown')).toBeUndefined();
+    });
+  });
+
+  describe('register and assertKind', () => {
+    it('should reject using a declared type as another kind', () => {
+      const registry = new MessageTypeRegistry({ ItemAdded: 'event' });
+
+      expect(() => registry.register('ItemAdded', 'command')).toThrow(
+        'Message type ItemAdded is declared as event and cannot be used as command',
+      );
+      expect(() => registry.assertKind('ItemAdded', 'command')).toThrow(
+        EmmettError,
+      );
+      expect(() => registry.assertKind('ItemAdded', 'event')).not.toThrow();
+    });
+
+    it('should allow undeclared types unless strict', () => {
+      expect(() =>
+        new MessageTypeRegistry().assertKind('ItemAdded', 'command'),
+      ).not.toThrow();
+      expect(() =>
+        new MessageTypeRegistry({}, true).register('ItemAdded', 'event'),
+      ).toThrow('Unknown message type ItemAdded');
+    });
+  });
+
+  describe('versions', () => {
+    it('should derive the version from the upcasters', () => {
+      const upcasters = [(data: unknown) => data, (data: unknown) => data];
+      const registry = new MessageTypeRegistry({
+        ItemAdded: { kind: 'event', upcasters },
+        AddItem: 'command',
+      });
+
+      expect(registry.getUpcasters('ItemAdded')).toBe(upcasters);
+      expect(registry.getVersion('ItemAdded')).toBe(3);
+      expect(registry.getUpcasters('AddItem')).toEqual([]);
+      expect(registry.getVersion('AddItem')).toBe(1);
+      expect(registry.getVersion('Unknown')).toBe(1);
+    });
+  });
+
+  describe('encrypted paths', () => {
+    it('should return the encrypted paths of declared types', () => {
+      const registry = new MessageTypeRegistry({
+        UserRegistered: { kind: 'event', encryptedPaths: ['email'] },
+        AddItem: 'command',
+      });
+
+      expect(registry.getEncryptedPaths('UserRegistered')).toEqual(['email']);
+      expect(registry.getEncryptedPaths('AddItem')).toBeUndefined();
+      expect(registry.getEncryptedPaths('Unknown')).toBeUndefined();
+    });
+  });
+
+  describe('inbound adapters', () => {
+    const adapter = jest.fn();
+
+    it('should return the inbound adapter and topic of declared types', () => {
+      const registry = new MessageTypeRegistry({
+        ObjectFinalized: {
+          kind: 'event',
+          inbound: { topic: 'gcs-uploads', adapter },
+        },
+        ItemAdded: 'event',
+      });
+
+      expect(registry.getInboundAdapter('ObjectFinalized')).toBe(adapter);
+      expect(registry.getInboundTopic('ObjectFinalized')).toBe('gcs-uploads');
+      expect(registry.getInboundAdapter('ItemAdded')).toBeUndefined();
+      expect(registry.getInboundTopic('Unknown')).toBeUndefined();
+    });
+
+    it('should reject publishing types with an inbound adapter', () => {
+      const registry = new MessageTypeRegistry({
+        ObjectFinalized: { kind: 'event', inbound: { adapter } },
+      });
+
+      expect(() => registry.assertPublishable('ObjectFinalized')).toThrow(
+        'Message type ObjectFinalized is received through an inbound adapter and cannot be published',
+      );
+      expect(() => registry.assertPublishable('ItemAdded')).not.toThrow();
+    });
+
+    it('should reject commands with an inbound adapter', () => {
+      expect(
+        () =>
+          new MessageTypeRegistry({
+            RunBuild: { kind: 'command', inbound: { adapter } },
+          }),
+      ).toThrow(EmmettError);
+    });
+  });
+
+  describe('topic schemas', () => {
+    it('should return the codec of types with a topic schema', () => {
+      const codec = { encode: jest.fn(), decode: jest.fn() };
+      const registry = new MessageTypeRegistry({
+        ItemAdded: {
+          kind: 'event',
+          topicSchema: {
+            type: 'AVRO',
+            definition: '{}',
+            encoding: 'BINARY',
+            codec,
+          },
+        },
+        ItemRemoved: {
+          kind: 'event',
+          topicSchema: { type: 'AVRO', definition: '{}' },
+        },
+        AddItem: 'command',
+      });
+
+      expect(registry.getEnvelopeCodec('ItemAdded')).toBe(codec);
+      expect(registry.getEnvelopeCodec('ItemRemoved')).toBe(jsonEnvelopeCodec);
+      expect(registry.getEnvelopeCodec('AddItem')).toBeUndefined();
+    });
+
+    it('should reject BINARY topic schemas without a codec', () => {
+      expect(
+        () =>
+          new MessageTypeRegistry({
+            ItemAdded: {
+              kind: 'event',
+              topicSchema: {
+                type: 'AVRO',
+                definition: '{}',
+                encoding: 'BINARY',
+              },
+            },
+          }),
+      ).toThrow(
+        'Message type ItemAdded has a BINARY topic schema without a codec',
+      );
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import type { Topic } from '@google-cloud/pubsub';
+import type { Event } from '@event-driven-io/emmett';
+import {
+  orderingKeyFromMetadata,
+  publishWithOrderingKey,
+} from '../../src/messageBus/ordering';
+
+describe('Ordering', () => {
+  describe('orderingKeyFromMetadata', () => {
+    it('should read the stream name by default', () => {
+      const resolve = orderingKeyFromMetadata();
+
+      expect(
+        resolve({
+          type: 'ProductItemAdded',
+          data: {},
+          metadata: { streamName: 'shopping_cart-123' },
+        } as Event),
+      ).toBe('shopping_cart-123');
+    });
+
+    it('should read a custom metadata field', () => {
+      const resolve = orderingKeyFromMetadata('tenantId');
+
+      expect(
+        resolve({
+          type: 'TenantCreated',
+          data: {},
+          metadata: { tenantId: 't-1' },
+        } as Event),
+      ).toBe('t-1');
+    });
+
+    it('should return undefined without a usable value', () => {
+      const resolve = orderingKeyFromMetadata();
+
+      expect(resolve({ type: 'ProductItemAdded', data: {} })).toBeUndefined();
+      expect(
+        resolve({
+          type: 'ProductItemAdded',
+          data: {},
+          metadata: { streamName: 42 },
+        } as Event),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('publishWithOrderingKey', () => {
+    const createMockTopic = (publishMessage: jest.Mock) =>
+      ({
+        publishMessage,
+        resumePublishing: jest.fn(),
+      }) as unknown as Topic & { resumePublishing: jest.Mock };
+
+    it('should publish the message with its ordering key', async () => {
+      const topic = createMockTopic(jest.fn().mockResolvedValue('message-id'));
+      const message = {
+        data: Buffer.from('{}'),
+        attributes: { messageType: 'ProductItemAdded' },
+        orderingKey: 'shopping_cart-123',
+      };
+
+      expect(await publishWithOrderingKey(topic, message)).toBe('message-id');
+      expect(topic.publishMessage).toHaveBeenCalledWith(message);
+      expect(topic.resumePublishing).not.toHaveBeenCalled();
+    });
+
+    it('should leave the ordering key paused after a failure', async () => {
+      const topic = createMockTopic(
+        jest.fn().mockRejectedValue(new Error('Publish failed')),
+      );
+
+      await expect(
+        publishWithOrderingKey(topic, {
+          data: Buffer.from('{}'),
+          attributes: {},
+          orderingKey: 'shopping_cart-123',
+        }),
+      ).rejects.toThrow(
+        'Publish failed (ordering key shopping_cart-123 is paused until resumeOrderingKey() is called)',
+      );
+
+      expect(topic.resumePublishing).not.toHaveBeenCalled();
+    });
+
+    it('should rethrow failures of messages without ordering key', async () => {
+      const error = new Error('Publish failed');
+      const topic = createMockTopic(jest.fn().mockRejectedValue(error));
+
+      await expect(
+        publishWithOrderingKey(topic, {
+          data: Buffer.from('{}'),
+          attributes: {},
+        }),
+      ).rejects.toBe(error);
+
+      expect(topic.resumePublishing).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import type { PubSub } from '@google-cloud/pubsub';
+import { EmmettError } from '@event-driven-io/emmett';
+import { getPubSubMessageBus } from '../../src/messageBus/pubsubMessageBus';
+
+describe('PubSubMessageBus', () => {
+  const createMessageBus = () =>
+    getPubSubMessageBus({
+      pubsub: {} as PubSub,
+      topicPrefix: 'myapp',
+      useEmulator: true,
+    });
+
+  describe('subscribeAs', () => {
+    it('should accept consumer groups naming valid subscriptions', () => {
+      const messageBus = createMessageBus();
+
+      expect(() =>
+        messageBus.subscribeAs(
+          'billing.projection_v2~eu+1%',
+          async () => {},
+          'ProductItemAdded',
+        ),
+      ).not.toThrow();
+    });
+
+    it('should reject consumer groups with characters PubSub does not allow', () => {
+      const messageBus = createMessageBus();
+
+      expect(() =>
+        messageBus.subscribeAs(
+          'billing projection',
+          async () => {},
+          'ProductItemAdded',
+        ),
+      ).toThrow(EmmettError);
+      expect(() =>
+        messageBus.subscribeAs(
+          'billing/eu',
+          async () => {},
+          'ProductItemAdded',
+        ),
+      ).toThrow(
+        'Consumer group billing/eu cannot name the PubSub subscription myapp-evt-ProductItemAdded-billing/eu',
+      );
+    });
+
+    it('should reject consumer groups making subscription names over 255 characters', () => {
+      const messageBus = createMessageBus();
+      // "myapp-evt-ProductItemAdded-" is 27 characters
+      const consumerGroup = 'g'.repeat(229);
+
+      expect(() =>
+        messageBus.subscribeAs(
+          consumerGroup,
+          async () => {},
+          'ProductItemAdded',
+        ),
+      ).toThrow(EmmettError);
+      expect(() =>
+        messageBus.subscribeAs(
+          consumerGroup.slice(1),
+          async () => {},
+          'ProductItemAdded',
+        ),
+      ).not.toThrow();
+    });
+
+    it('should not register any event type of an invalid group', () => {
+      const messageBus = createMessageBus();
+
+      expect(() =>
+        messageBus.subscribeAs(
+          'billing projection',
+          async () => {},
+          'ProductItemAdded',
+          'ProductItemRemoved',
+        ),
+      ).toThrow(EmmettError);
+      expect(() =>
+        messageBus.subscribeAs(
+          'billing-projection',
+          async () => {},
+          'ProductItemAdded',
+          'ProductItemRemoved',
+        ),
+      ).not.toThrow();
+    });
+  });
+
+  describe('ordering keys', () => {
+    const createOrderedTopic = () => ({
+      exists: jest.fn().mockResolvedValue([true]),
+      publishMessage: jest.fn().mockRejectedValue(new Error('Publish failed')),
+      resumePublishing: jest.fn(),
+    });
+
+    it('should reject ordering keys while message ordering is disabled', async () => {
+      const messageBus = createMessageBus();
+
+      await expect(
+        messageBus.publish(
+          { type: 'ProductItemAdded', data: {} },
+          { orderingKey: 'shopping_cart-123' },
+        ),
+      ).rejects.toThrow(EmmettError);
+    });
+
+    it('should keep a failed ordering key paused until resumed', async () => {
+      const topic = createOrderedTopic();
+      const messageBus = getPubSubMessageBus({
+        pubsub: {
+          topic: jest.fn().mockReturnValue(topic),
+        } as unknown as PubSub,
+        autoCreateResources: false,
+        subscriptionOptions: { enableMessageOrdering: true },
+      });
+
+      await expect(
+        messageBus.publish(
+          { type: 'ProductItemAdded', data: {} },
+          { orderingKey: 'shopping_cart-123' },
+        ),
+      ).rejects.toThrow('ordering key shopping_cart-123 is paused');
+      expect(topic.resumePublishing).not.toHaveBeenCalled();
+
+      messageBus.resumeOrderingKey('shopping_cart-123');
+
+      expect(topic.resumePublishing).toHaveBeenCalledWith('shopping_cart-123');
+    });
+  });
+});
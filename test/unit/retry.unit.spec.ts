@@ -0,0 +1,99 @@
+import {
+  ConcurrencyError,
+  EmmettError,
+  NotFoundError,
+  ValidationError,
+} from '@event-driven-io/emmett';
+import {
+  PermanentError,
+  RetriableError,
+  shouldRetry,
+} from '../../src/messageBus/retry';
+
+/**
+ * Create an error like those thrown by Google Cloud clients
+ */
+function createGrpcError(code: number, message: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+describe('Retry', () => {
+  describe('shouldRetry', () => {
+    it('should return true for RetriableError', () => {
+      const error = new RetriableError('Order not projected yet');
+      expect(shouldRetry(error)).toBe(true);
+    });
+
+    it('should return false for PermanentError', () => {
+      const error = new PermanentError('Network error mentioned by a user');
+      expect(shouldRetry(error)).toBe(false);
+    });
+
+    it('should keep the wrapped error of marker errors', () => {
+      const cause = new Error('Deadline exceeded');
+      const error = new PermanentError('Giving up', cause);
+
+      expect(error.cause).toBe(cause);
+      expect(error).toBeInstanceOf(EmmettError);
+    });
+
+    it('should return true for transient gRPC status codes', () => {
+      expect(shouldRetry(createGrpcError(14, '14 UNAVAILABLE'))).toBe(true);
+      expect(shouldRetry(createGrpcError(4, '4 DEADLINE_EXCEEDED'))).toBe(true);
+      expect(shouldRetry(createGrpcError(10, '10 ABORTED'))).toBe(true);
+    });
+
+    it('should return true for gRPC NOT_FOUND errors', () => {
+      const error = createGrpcError(5, '5 NOT_FOUND: No document to update');
+      expect(shouldRetry(error)).toBe(true);
+    });
+
+    it('should return false for permanent gRPC status codes', () => {
+      expect(shouldRetry(createGrpcError(3, '3 INVALID_ARGUMENT'))).toBe(false);
+      expect(shouldRetry(createGrpcError(6, '6 ALREADY_EXISTS'))).toBe(false);
+      expect(shouldRetry(createGrpcError(9, '9 FAILED_PRECONDITION'))).toBe(
+        false,
+      );
+    });
+
+    it('should return true for network errors', () => {
+      const error = Object.assign(new Error('connect ECONNREFUSED'), {
+        code: 'ECONNREFUSED',
+      });
+      expect(shouldRetry(error)).toBe(true);
+    });
+
+    it('should return false for EmmettError', () => {
+      const error = new EmmettError('Business logic error');
+      expect(shouldRetry(error)).toBe(false);
+    });
+
+    it('should return false for Emmett validation and not found errors', () => {
+      expect(shouldRetry(new ValidationError('Invalid input'))).toBe(false);
+      expect(
+        shouldRetry(new NotFoundError({ id: 'cart-1', type: 'ShoppingCart' })),
+      ).toBe(false);
+    });
+
+    it('should return true for Emmett concurrency errors', () => {
+      const error = new ConcurrencyError('1', '2');
+      expect(shouldRetry(error)).toBe(true);
+    });
+
+    it('should not classify errors by their message', () => {
+      expect(shouldRetry(new Error('Validation failed'))).toBe(true);
+      expect(shouldRetry(new Error('Resource not found'))).toBe(true);
+      expect(shouldRetry(new EmmettError('Network error'))).toBe(false);
+    });
+
+    it('should return true for unknown error types', () => {
+      const error = 'Unknown error';
+      expect(shouldRetry(error)).toBe(true);
+    });
+
+    it('should return true for unknown Error instances', () => {
+      const error = new Error('Something went wrong');
+      expect(shouldRetry(error)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,401 @@
+import { EventEmitter } from 'events';
+import { gzipSync } from 'zlib';
+import type { Message as PubSubMessage, PubSub } from '@google-cloud/pubsub';
+import {
+  ScheduledMessageDispatcher,
+  getOrCreateScheduledResources,
+} from '../../src/messageBus/scheduledMessageDispatcher';
+import { InMemoryScheduledMessageStore } from '../../src/messageBus/scheduledMessageStore';
+import { serialize } from '../../src/messageBus/serialization';
+
+/**
+ * In-memory stand-in for the PubSub topics and subscription used by the dispatcher
+ */
+function createPubSubStandIn() {
+  const published = new Map<string, { data: Buffer; attributes: any }[]>();
+  const subscription = Object.assign(new EventEmitter(), {
+    exists: jest.fn().mockResolvedValue([true]),
+    create: jest.fn(),
+    close: jest.fn().mockResolvedValue(undefined),
+  });
+  let failPublish = false;
+
+  const pubsub = {
+    topic: jest.fn((name: string) => ({
+      exists: jest.fn().mockResolvedValue([true]),
+      create: jest.fn(),
+      subscription: jest.fn().mockReturnValue(subscription),
+      publishMessage: jest.fn(
+        async (msg: { data: Buffer; attributes: any }) => {
+          if (failPublish) {
+            throw new Error('Publish failed');
+          }
+          published.set(name, [...(published.get(name) ?? []), msg]);
+          return 'published-id';
+        },
+      ),
+    })),
+  } as unknown as PubSub;
+
+  return {
+    pubsub,
+    subscription,
+    published,
+    failPublishes: () => {
+      failPublish = true;
+    },
+  };
+}
+
+function createScheduledMessage(
+  publishTime: Date,
+  attributes: Record<string, string> = {},
+) {
+  return {
+    data: serialize({ type: 'SendReminder', data: { cartId: 'cart-1' } }),
+    attributes: {
+      messageType: 'SendReminder',
+      publishTime: publishTime.toISOString(),
+      ...attributes,
+    },
+    ack: jest.fn(),
+    nack: jest.fn(),
+  };
+}
+
+describe('ScheduledMessageDispatcher', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getOrCreateScheduledResources', () => {
+    it('should use the scheduled topic and dispatcher subscription names', async () => {
+      const { pubsub } = createPubSubStandIn();
+
+      await getOrCreateScheduledResources(pubsub, 'myapp');
+
+      expect(pubsub.topic).toHaveBeenCalledWith('myapp-scheduled-messages');
+      const topic = (pubsub.topic as jest.Mock).mock.results[0].value;
+      expect(topic.subscription).toHaveBeenCalledWith(
+        'myapp-scheduled-messages-dispatcher',
+      );
+    });
+  });
+
+  describe('delivery', () => {
+    it('should deliver due messages to the command topic and ack', async () => {
+      const { pubsub, published } = createPubSubStandIn();
+      const dispatcher = new ScheduledMessageDispatcher({ pubsub });
+      const message = createScheduledMessage(
+        new Date('2024-01-15T09:59:00.000Z'),
+        { messageKind: 'command' },
+      );
+
+      await dispatcher.handleMessage(message as unknown as PubSubMessage);
+
+      const delivered = published.get('emmett-cmd-SendReminder') ?? [];
+      expect(delivered).toHaveLength(1);
+      expect(delivered[0].data).toBe(message.data);
+      expect(delivered[0].attributes).toEqual({
+        messageType: 'SendReminder',
+        messageKind: 'command',
+      });
+      expect(message.ack).toHaveBeenCalled();
+    });
+
+    it('should forward the content type and encoding attributes', async () => {
+      const { pubsub, published } = createPubSubStandIn();
+      const dispatcher = new ScheduledMessageDispatcher({ pubsub });
+      const message = createScheduledMessage(
+        new Date('2024-01-15T09:59:00.000Z'),
+        {
+          messageKind: 'event',
+          contentType: 'application/json',
+          contentEncoding: 'gzip',
+        },
+      );
+
+      await dispatcher.handleMessage(message as unknown as PubSubMessage);
+
+      expect(published.get('emmett-evt-SendReminder')?.[0].attributes).toEqual({
+        messageType: 'SendReminder',
+        messageKind: 'event',
+        contentType: 'application/json',
+        contentEncoding: 'gzip',
+      });
+    });
+
+    it('should forward the claim check and encryption attributes', async () => {
+      const { pubsub, published } = createPubSubStandIn();
+      const dispatcher = new ScheduledMessageDispatcher({ pubsub });
+      const message = createScheduledMessage(
+        new Date('2024-01-15T09:59:00.000Z'),
+        {
+          messageKind: 'event',
+          claimCheck: 'claim-checks/SendReminder/blob-1',
+          encryptionKeyId: 'k1',
+          encryptedDataKey: 'd3JhcHBlZA==',
+        },
+      );
+
+      await dispatcher.handleMessage(message as unknown as PubSubMessage);
+
+      expect(published.get('emmett-evt-SendReminder')?.[0].attributes).toEqual({
+        messageType: 'SendReminder',
+        messageKind: 'event',
+        claimCheck: 'claim-checks/SendReminder/blob-1',
+        encryptionKeyId: 'k1',
+        encryptedDataKey: 'd3JhcHBlZA==',
+      });
+    });
+
+    it('should forward the signature attributes with the unchanged data', async () => {
+      const { pubsub, published } = createPubSubStandIn();
+      const dispatcher = new ScheduledMessageDispatcher({ pubsub });
+      const message = createScheduledMessage(
+        new Date('2024-01-15T09:59:00.000Z'),
+        { messageKind: 'event', signature: 'c2ln', signatureKeyId: 'k1' },
+      );
+
+      await dispatcher.handleMessage(message as unknown as PubSubMessage);
+
+      const delivered = published.get('emmett-evt-SendReminder') ?? [];
+      expect(delivered[0].data).toBe(message.data);
+      expect(delivered[0].attributes).toEqual({
+        messageType: 'SendReminder',
+        messageKind: 'event',
+        signature: 'c2ln',
+        signatureKeyId: 'k1',
+      });
+    });
+
+    it('should forward CloudEvents attributes but not scheduling attributes', async () => {
+      const { pubsub, published } = createPubSubStandIn();
+      const dispatcher = new ScheduledMessageDispatcher({ pubsub });
+      const message = createScheduledMessage(
+        new Date('2024-01-15T09:59:00.000Z'),
+        {
+          messageKind: 'event',
+          scheduleId: 'schedule-1',
+          'ce-specversion': '1.0',
+          'ce-type': 'SendReminder',
+        },
+      );
+
+      await dispatcher.handleMessage(message as unknown as PubSubMessage);
+
+      expect(published.get('emmett-evt-SendReminder')?.[0].attributes).toEqual({
+        messageType: 'SendReminder',
+        messageKind: 'event',
+        'ce-specversion': '1.0',
+        'ce-type': 'SendReminder',
+      });
+    });
+
+    it('should fall back to the type name without messageKind attribute', async () => {
+      const { pubsub, published } = createPubSubStandIn();
+      const dispatcher = new ScheduledMessageDispatcher({ pubsub });
+      const message = createScheduledMessage(
+        new Date('2024-01-15T09:59:00.000Z'),
+      );
+
+      await dispatcher.handleMessage(message as unknown as PubSubMessage);
+
+      expect(published.get('emmett-evt-SendReminder')).toHaveLength(1);
+      expect(message.ack).toHaveBeenCalled();
+    });
+
+    it('should deliver messages whose payload is not JSON', async () => {
+      const { pubsub, published } = createPubSubStandIn();
+      const dispatcher = new ScheduledMessageDispatcher({ pubsub });
+      const message = {
+        ...createScheduledMessage(new Date('2024-01-15T09:59:00.000Z'), {
+          contentEncoding: 'gzip',
+        }),
+        data: gzipSync(Buffer.from('{"type":"SendReminder"}')),
+      };
+
+      await dispatcher.handleMessage(message as unknown as PubSubMessage);
+
+      expect(published.get('emmett-evt-SendReminder')).toEqual([
+        expect.objectContaining({ data: message.data }),
+      ]);
+      expect(message.ack).toHaveBeenCalled();
+      expect(message.nack).not.toHaveBeenCalled();
+    });
+
+    it('should hold messages due within the hold window until due', async () => {
+      const { pubsub, published } = createPubSubStandIn();
+      const dispatcher = new ScheduledMessageDispatcher({ pubsub });
+      const message = createScheduledMessage(
+        new Date('2024-01-15T10:00:05.000Z'),
+        { messageKind: 'command' },
+      );
+
+      await dispatcher.handleMessage(message as unknown as PubSubMessage);
+
+      expect(dispatcher.getHeldCount()).toBe(1);
+      expect(message.ack).not.toHaveBeenCalled();
+      expect(message.nack).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(dispatcher.getHeldCount()).toBe(0);
+      expect(published.get('emmett-cmd-SendReminder')).toHaveLength(1);
+      expect(message.ack).toHaveBeenCalled();
+    });
+
+    it('should nack messages due after the hold window', async () => {
+      const { pubsub, published } = createPubSubStandIn();
+      const dispatcher = new ScheduledMessageDispatcher({
+        pubsub,
+        maxHoldMs: 60000,
+      });
+      const message = createScheduledMessage(
+        new Date('2024-01-15T11:00:00.000Z'),
+      );
+
+      await dispatcher.handleMessage(message as unknown as PubSubMessage);
+
+      expect(message.nack).toHaveBeenCalled();
+      expect(dispatcher.getHeldCount()).toBe(0);
+      expect(published.size).toBe(0);
+    });
+
+    it('should hold at most maxHeldMessages, keeping the earliest due', async () => {
+      const { pubsub, published } = createPubSubStandIn();
+      const dispatcher = new ScheduledMessageDispatcher({
+        pubsub,
+        maxHeldMessages: 2,
+      });
+      const at30s = createScheduledMessage(new Date('2024-01-15T10:00:30Z'));
+      const at20s = createScheduledMessage(new Date('2024-01-15T10:00:20Z'));
+      const at40s = createScheduledMessage(new Date('2024-01-15T10:00:40Z'));
+      const at10s = createScheduledMessage(new Date('2024-01-15T10:00:10Z'));
+      const due = createScheduledMessage(new Date('2024-01-15T09:59:00Z'));
+
+      for (const message of [at30s, at20s, at40s, at10s, due]) {
+        await dispatcher.handleMessage(message as unknown as PubSubMessage);
+      }
+
+      expect(dispatcher.getHeldCount()).toBe(2);
+      // Full with earlier messages: nacked right away
+      expect(at40s.nack).toHaveBeenCalled();
+      // Released for an earlier message
+      expect(at30s.nack).toHaveBeenCalled();
+      expect(at20s.nack).not.toHaveBeenCalled();
+      expect(at10s.nack).not.toHaveBeenCalled();
+      // Due messages are never held back
+      expect(due.ack).toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(20000);
+
+      expect(published.get('emmett-evt-SendReminder')).toHaveLength(3);
+      expect(at30s.ack).not.toHaveBeenCalled();
+    });
+
+    it('should nack when re-publishing fails', async () => {
+      const { pubsub, failPublishes } = createPubSubStandIn();
+      const dispatcher = new ScheduledMessageDispatcher({ pubsub });
+      const message = createScheduledMessage(
+        new Date('2024-01-15T09:59:00.000Z'),
+      );
+      failPublishes();
+
+      await dispatcher.handleMessage(message as unknown as PubSubMessage);
+
+      expect(message.ack).not.toHaveBeenCalled();
+      expect(message.nack).toHaveBeenCalled();
+    });
+  });
+
+  describe('cancellation', () => {
+    const storedReminder = {
+      id: 'schedule-1',
+      message: { type: 'SendReminder', data: { cartId: 'cart-1' } },
+      scheduledAt: new Date('2024-01-15T09:59:00.000Z'),
+    };
+
+    it('should drop cancelled messages when due', async () => {
+      const { pubsub, published } = createPubSubStandIn();
+      const store = new InMemoryScheduledMessageStore();
+      await store.add(storedReminder);
+      await store.cancel('schedule-1');
+
+      const dispatcher = new ScheduledMessageDispatcher({ pubsub, store });
+      const message = createScheduledMessage(
+        new Date('2024-01-15T09:59:00.000Z'),
+        { scheduleId: 'schedule-1' },
+      );
+
+      await dispatcher.handleMessage(message as unknown as PubSubMessage);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(published.size).toBe(0);
+      expect(message.ack).toHaveBeenCalled();
+      expect(await store.isCancelled('schedule-1')).toBe(false);
+    });
+
+    it('should remove delivered messages from the store', async () => {
+      const { pubsub, published } = createPubSubStandIn();
+      const store = new InMemoryScheduledMessageStore();
+      await store.add(storedReminder);
+
+      const dispatcher = new ScheduledMessageDispatcher({ pubsub, store });
+      const message = createScheduledMessage(
+        new Date('2024-01-15T09:59:00.000Z'),
+        { scheduleId: 'schedule-1' },
+      );
+
+      await dispatcher.handleMessage(message as unknown as PubSubMessage);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(published.get('emmett-evt-SendReminder')).toHaveLength(1);
+      expect(await store.load()).toEqual([]);
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('should consume messages from the subscription after start', async () => {
+      const { pubsub, subscription, published } = createPubSubStandIn();
+      const dispatcher = new ScheduledMessageDispatcher({ pubsub });
+
+      await dispatcher.start();
+
+      const message = createScheduledMessage(
+        new Date('2024-01-15T09:59:00.000Z'),
+        { messageKind: 'event' },
+      );
+      subscription.emit('message', message);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(published.get('emmett-evt-SendReminder')).toHaveLength(1);
+      expect(message.ack).toHaveBeenCalled();
+    });
+
+    it('should release held messages and close the subscription on close', async () => {
+      const { pubsub, subscription, published } = createPubSubStandIn();
+      const dispatcher = new ScheduledMessageDispatcher({ pubsub });
+
+      await dispatcher.start();
+
+      const message = createScheduledMessage(
+        new Date('2024-01-15T10:01:00.000Z'),
+      );
+      await dispatcher.handleMessage(message as unknown as PubSubMessage);
+
+      await dispatcher.close();
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(message.nack).toHaveBeenCalled();
+      expect(published.size).toBe(0);
+      expect(subscription.close).toHaveBeenCalled();
+      expect(subscription.listenerCount('message')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  FileScheduledMessageStore,
+  InMemoryScheduledMessageStore,
+} from '../../src/messageBus/scheduledMessageStore';
+import type { StoredScheduledMessage } from '../../src/messageBus/scheduledMessageStore';
+
+describe('ScheduledMessageStore', () => {
+  const reminder: StoredScheduledMessage = {
+    id: 'schedule-1',
+    message: {
+      type: 'SendReminder',
+      data: { cartId: 'cart-1', dueAt: new Date('2024-01-16T10:00:00.000Z') },
+    },
+    options: { at: new Date('2024-01-16T10:00:00.000Z') },
+    scheduledAt: new Date('2024-01-16T10:00:00.000Z'),
+  };
+
+  const abandonCart: StoredScheduledMessage = {
+    id: 'schedule-2',
+    message: { type: 'AbandonCart', data: { cartId: 'cart-1' } },
+    options: { afterInMs: 86400000 },
+    scheduledAt: new Date('2024-01-16T10:00:00.000Z'),
+  };
+
+  describe('InMemoryScheduledMessageStore', () => {
+    it('should add, load and remove messages', async () => {
+      const store = new InMemoryScheduledMessageStore();
+
+      await store.add(reminder);
+      await store.add(abandonCart);
+      await store.remove(['schedule-1']);
+
+      expect(await store.load()).toEqual([abandonCart]);
+    });
+
+    it('should remember cancellations until removed', async () => {
+      const store = new InMemoryScheduledMessageStore();
+
+      await store.add(reminder);
+
+      expect(await store.cancel('schedule-1')).toBe(true);
+      expect(await store.cancel('schedule-2')).toBe(false);
+      expect(await store.load()).toEqual([]);
+      expect(await store.isCancelled('schedule-1')).toBe(true);
+      // Unknown messages are not remembered, so cancellations don't pile up
+      expect(await store.isCancelled('schedule-2')).toBe(false);
+
+      await store.remove(['schedule-1']);
+
+      expect(await store.isCancelled('schedule-1')).toBe(false);
+    });
+
+    it('should forget messages and cancellations once expired', async () => {
+      const store = new InMemoryScheduledMessageStore({
+        expireAfterMs: 60000,
+      });
+      const dueNow = { ...abandonCart, scheduledAt: new Date() };
+
+      await store.add(reminder);
+      await store.add(dueNow);
+      await store.add({ ...abandonCart, id: 'schedule-3' });
+      await store.cancel('schedule-1');
+      await store.cancel('schedule-3');
+
+      expect(await store.load()).toEqual([dueNow]);
+      expect(await store.isCancelled('schedule-1')).toBe(false);
+      expect(await store.isCancelled('schedule-3')).toBe(false);
+    });
+
+    it('should keep due messages without expiry', async () => {
+      const store = new InMemoryScheduledMessageStore();
+
+      await store.add(reminder);
+
+      expect(await store.load()).toEqual([reminder]);
+    });
+  });
+
+  describe('FileScheduledMessageStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(join(tmpdir(), 'emmett-scheduled-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should load nothing when the file does not exist', async () => {
+      const store = new FileScheduledMessageStore(
+        join(directory, 'missing.json'),
+      );
+
+      expect(await store.load()).toEqual([]);
+    });
+
+    it('should reload messages with dates from a new store instance', async () => {
+      const filePath = join(directory, 'nested', 'scheduled.json');
+
+      const store = new FileScheduledMessageStore(filePath);
+      await store.add(reminder);
+      await store.add(abandonCart);
+
+      const reloaded = await new FileScheduledMessageStore(filePath).load();
+
+      expect(reloaded).toEqual([reminder, abandonCart]);
+      expect(reloaded[0].scheduledAt).toBeInstanceOf(Date);
+      expect(reloaded[0].message.data).toEqual({
+        cartId: 'cart-1',
+        dueAt: new Date('2024-01-16T10:00:00.000Z'),
+      });
+    });
+
+    it('should persist removals', async () => {
+      const filePath = join(directory, 'scheduled.json');
+
+      const store = new FileScheduledMessageStore(filePath);
+      await store.add(reminder);
+      await store.add(abandonCart);
+      await store.remove(['schedule-2']);
+
+      const reloaded = await new FileScheduledMessageStore(filePath).load();
+
+      expect(reloaded.map((msg) => msg.id)).toEqual(['schedule-1']);
+    });
+
+    it('should persist cancellations', async () => {
+      const filePath = join(directory, 'scheduled.json');
+
+      const store = new FileScheduledMessageStore(filePath);
+      await store.add(reminder);
+      await store.cancel('schedule-1');
+      expect(await store.cancel('schedule-2')).toBe(false);
+
+      const reloaded = new FileScheduledMessageStore(filePath);
+
+      expect(await reloaded.load()).toEqual([]);
+      expect(await reloaded.isCancelled('schedule-1')).toBe(true);
+      expect(await reloaded.isCancelled('schedule-2')).toBe(false);
+    });
+
+    it('should drop expired messages and cancellations from the file', async () => {
+      const filePath = join(directory, 'scheduled.json');
+      const dueNow = { ...abandonCart, scheduledAt: new Date() };
+
+      await new FileScheduledMessageStore(filePath).add(reminder);
+      await new FileScheduledMessageStore(filePath).cancel('schedule-1');
+
+      const store = new FileScheduledMessageStore(filePath, {
+        expireAfterMs: 60000,
+      });
+      expect(await store.isCancelled('schedule-1')).toBe(false);
+      await store.add(dueNow);
+
+      const contents = JSON.parse(await fs.readFile(filePath, 'utf-8')) as {
+        messages: { id: string }[];
+        cancelled: { id: string }[];
+      };
+      expect(contents.messages.map((msg) => msg.id)).toEqual(['schedule-2']);
+      expect(contents.cancelled).toEqual([]);
+    });
+
+    it('should throw for unreadable files', async () => {
+      const filePath = join(directory, 'scheduled.json');
+      await fs.writeFile(filePath, 'not json', 'utf-8');
+
+      const store = new FileScheduledMessageStore(filePath);
+
+      await expect(store.load()).rejects.toThrow(
+        'Failed to read scheduled messages',
+      );
+    });
+  });
+});
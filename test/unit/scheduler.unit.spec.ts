@@ -1,10 +1,19 @@
 import type { PubSub } from '@google-cloud/pubsub';
 import type { Message } from '@event-driven-io/emmett';
+import { EmmettError } from '@event-driven-io/emmett';
 import {
   MessageScheduler,
   calculateScheduledTime,
   filterReadyMessages,
 } from '../../src/messageBus/scheduler';
+import { InMemoryScheduledMessageStore } from '../../src/messageBus/scheduledMessageStore';
+import { MAX_SCHEDULE_DELAY_MS } from '../../src/messageBus/scheduledMessageDispatcher';
+import { deserialize } from '../../src/messageBus/serialization';
+import {
+  LocalKeyProvider,
+  unwrapDataKey,
+} from '../../src/messageBus/encryption';
+import { HmacMessageSigner, verifyPayload } from '../../src/messageBus/signing';
 import type { ScheduledMessageInfo } from '../../src/messageBus/types';
 
 describe('Scheduler', () => {
@@ -119,6 +128,11 @@ describe('Scheduler', () => {
       close: jest.fn(),
     } as unknown as PubSub;
 
+    const createMockSubscription = (exists = true) => ({
+      exists: jest.fn().mockResolvedValue([exists]),
+      create: jest.fn().mockResolvedValue([]),
+    });
+
     beforeEach(() => {
       jest.clearAllMocks();
       jest.useFakeTimers();
@@ -221,6 +235,37 @@ describe('Scheduler', () => {
         expect(ready[0].message.type).toBe('TestCommand');
       });
 
+      it('should requeue messages whose delivery failed with their schedule ID', async () => {
+        const store = new InMemoryScheduledMessageStore();
+        const scheduler = new MessageScheduler({
+          useEmulator: true,
+          pubsub: mockPubSub,
+          store,
+        });
+        const options = { afterInMs: 1000 };
+        const id = await scheduler.schedule(
+          { type: 'SendReminder', data: {} },
+          options,
+        );
+        jest.advanceTimersByTime(2000);
+
+        const [scheduled] = scheduler.dequeueScheduled();
+        await scheduler.requeue(scheduled);
+
+        expect(await scheduler.list()).toEqual([
+          {
+            id,
+            message: { type: 'SendReminder', data: {} },
+            options,
+            scheduledAt: new Date('2024-01-15T10:00:01.000Z'),
+          },
+        ]);
+        expect(await store.load()).toHaveLength(1);
+        expect(await scheduler.cancel(id)).toBe(true);
+        expect(scheduler.dequeue()).toHaveLength(0);
+        expect(await store.load()).toHaveLength(0);
+      });
+
       it('should clear pending messages', async () => {
         const scheduler = new MessageScheduler({
           useEmulator: true,
@@ -248,6 +293,219 @@ describe('Scheduler', () => {
       });
     });
 
+    describe('scheduled message store', () => {
+      it('should not deliver messages that failed to persist', async () => {
+        const store = new InMemoryScheduledMessageStore();
+        jest.spyOn(store, 'add').mockRejectedValue(new Error('Disk full'));
+        const scheduler = new MessageScheduler({
+          useEmulator: true,
+          pubsub: mockPubSub,
+          store,
+        });
+
+        await expect(
+          scheduler.schedule({ type: 'SendReminder', data: {} }),
+        ).rejects.toThrow('Disk full');
+
+        expect(scheduler.getPendingCount()).toBe(0);
+        expect(scheduler.dequeue()).toEqual([]);
+      });
+
+      it('should dequeue background messages only once persisted', async () => {
+        const store = new InMemoryScheduledMessageStore();
+        let persist = () => {};
+        jest
+          .spyOn(store, 'add')
+          .mockImplementation(
+            () => new Promise<void>((resolve) => (persist = resolve)),
+          );
+        const scheduler = new MessageScheduler({
+          useEmulator: true,
+          pubsub: mockPubSub,
+          store,
+        });
+
+        const id = scheduler.scheduleInBackground({
+          type: 'SendReminder',
+          data: {},
+        });
+
+        expect(scheduler.dequeue()).toEqual([]);
+        expect((await scheduler.list()).map((msg) => msg.id)).toEqual([id]);
+
+        persist();
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(scheduler.dequeue()).toHaveLength(1);
+      });
+
+      it('should drop background messages that failed to persist', async () => {
+        const store = new InMemoryScheduledMessageStore();
+        jest.spyOn(store, 'add').mockRejectedValue(new Error('Disk full'));
+        const onScheduleError = jest.fn();
+        const scheduler = new MessageScheduler({
+          useEmulator: true,
+          pubsub: mockPubSub,
+          store,
+          onScheduleError,
+        });
+
+        scheduler.scheduleInBackground({ type: 'SendReminder', data: {} });
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(onScheduleError).toHaveBeenCalledWith(
+          expect.objectContaining({ message: 'Disk full' }),
+          expect.objectContaining({
+            message: { type: 'SendReminder', data: {} },
+          }),
+          1,
+        );
+        expect(scheduler.dequeue()).toEqual([]);
+        expect(await scheduler.list()).toEqual([]);
+      });
+
+      it('should cancel background messages while they are persisted', async () => {
+        const store = new InMemoryScheduledMessageStore();
+        const scheduler = new MessageScheduler({
+          useEmulator: true,
+          pubsub: mockPubSub,
+          store,
+        });
+
+        const id = scheduler.scheduleInBackground({
+          type: 'SendReminder',
+          data: {},
+        });
+
+        expect(await scheduler.cancel(id)).toBe(true);
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(scheduler.dequeue()).toEqual([]);
+        expect(await store.load()).toEqual([]);
+      });
+
+      it('should write scheduled messages through to the store', async () => {
+        const store = new InMemoryScheduledMessageStore();
+        const scheduler = new MessageScheduler({
+          useEmulator: true,
+          pubsub: mockPubSub,
+          store,
+        });
+
+        const message: Message = { type: 'TestCommand', data: { value: 'test' } };
+        const id = await scheduler.schedule(message, { afterInMs: 5000 });
+
+        expect(await store.load()).toEqual([
+          {
+            id,
+            message,
+            options: { afterInMs: 5000 },
+            scheduledAt: new Date('2024-01-15T10:00:05.000Z'),
+          },
+        ]);
+      });
+
+      it('should remove dequeued messages from the store', async () => {
+        const store = new InMemoryScheduledMessageStore();
+        const scheduler = new MessageScheduler({
+          useEmulator: true,
+          pubsub: mockPubSub,
+          store,
+        });
+
+        await scheduler.schedule({ type: 'TestCommand', data: {} });
+        scheduler.dequeue();
+        await Promise.resolve();
+
+        expect(await store.load()).toHaveLength(0);
+      });
+
+      it('should restore pending messages from the store', async () => {
+        const store = new InMemoryScheduledMessageStore();
+        await store.add({
+          id: 'schedule-1',
+          message: { type: 'TestCommand', data: { value: 'stored' } },
+          scheduledAt: new Date('2024-01-15T10:00:05.000Z'),
+        });
+
+        const scheduler = new MessageScheduler({
+          useEmulator: true,
+          pubsub: mockPubSub,
+          store,
+        });
+
+        expect(await scheduler.restore()).toBe(1);
+        // Restoring again does not duplicate pending messages
+        expect(await scheduler.restore()).toBe(0);
+        expect(scheduler.getPendingCount()).toBe(1);
+
+        jest.advanceTimersByTime(5000);
+
+        const ready = scheduler.dequeue();
+        expect(ready).toHaveLength(1);
+        expect(ready[0].message.data).toEqual({ value: 'stored' });
+      });
+
+      it('should list pending messages ordered by scheduled time', async () => {
+        const scheduler = new MessageScheduler({
+          useEmulator: true,
+          pubsub: mockPubSub,
+        });
+
+        await scheduler.schedule({ type: 'Later', data: {} }, { afterInMs: 9000 });
+        await scheduler.schedule({ type: 'Sooner', data: {} }, { afterInMs: 1000 });
+
+        const pending = await scheduler.list();
+        expect(pending.map((msg) => msg.message.type)).toEqual([
+          'Sooner',
+          'Later',
+        ]);
+      });
+
+      it('should filter listed messages by type and scheduled time', async () => {
+        const scheduler = new MessageScheduler({
+          useEmulator: true,
+          pubsub: mockPubSub,
+        });
+
+        await scheduler.schedule({ type: 'Reminder', data: {} }, { afterInMs: 1000 });
+        await scheduler.schedule({ type: 'Reminder', data: {} }, { afterInMs: 9000 });
+        await scheduler.schedule({ type: 'Other', data: {} }, { afterInMs: 1000 });
+
+        const pending = await scheduler.list({
+          messageType: 'Reminder',
+          scheduledBefore: new Date('2024-01-15T10:00:05.000Z'),
+        });
+
+        expect(pending).toHaveLength(1);
+        expect(pending[0].scheduledAt).toEqual(
+          new Date('2024-01-15T10:00:01.000Z'),
+        );
+      });
+
+      it('should cancel pending messages', async () => {
+        const store = new InMemoryScheduledMessageStore();
+        const scheduler = new MessageScheduler({
+          useEmulator: true,
+          pubsub: mockPubSub,
+          store,
+        });
+
+        const id = await scheduler.schedule(
+          { type: 'AbandonCart', data: {} },
+          { afterInMs: 1000 },
+        );
+
+        expect(await scheduler.cancel(id)).toBe(true);
+        expect(await scheduler.cancel(id)).toBe(false);
+        expect(scheduler.getPendingCount()).toBe(0);
+        expect(await store.load()).toHaveLength(0);
+
+        jest.advanceTimersByTime(2000);
+        expect(scheduler.dequeue()).toHaveLength(0);
+      });
+    });
+
     describe('production mode', () => {
       it('should publish to PubSub topic when scheduling', async () => {
         const mockPublishMessage = jest.fn().mockResolvedValue('message-id');
@@ -257,6 +515,7 @@ describe('Scheduler', () => {
           exists: mockExists,
           create: mockCreate,
           publishMessage: mockPublishMessage,
+          subscription: jest.fn().mockReturnValue(createMockSubscription()),
         };
 
         (mockPubSub.topic as jest.Mock).mockReturnValue(mockTopic);
@@ -291,6 +550,7 @@ describe('Scheduler', () => {
           exists: mockExists,
           create: mockCreate,
           publishMessage: mockPublishMessage,
+          subscription: jest.fn().mockReturnValue(createMockSubscription()),
         };
 
         (mockPubSub.topic as jest.Mock).mockReturnValue(mockTopic);
@@ -308,6 +568,374 @@ describe('Scheduler', () => {
         expect(mockPublishMessage).toHaveBeenCalled();
       });
 
+      it('should create the dispatcher subscription with a fixed redelivery backoff', async () => {
+        const mockSubscription = createMockSubscription(false);
+        const mockSubscriptionFactory = jest
+          .fn()
+          .mockReturnValue(mockSubscription);
+        const mockTopic = {
+          exists: jest.fn().mockResolvedValue([true]),
+          publishMessage: jest.fn().mockResolvedValue('message-id'),
+          subscription: mockSubscriptionFactory,
+        };
+
+        (mockPubSub.topic as jest.Mock).mockReturnValue(mockTopic);
+
+        const scheduler = new MessageScheduler({
+          useEmulator: false,
+          pubsub: mockPubSub,
+        });
+
+        const message: Message = { type: 'TestCommand', data: { value: 'test' } };
+        await scheduler.schedule(message, { afterInMs: 5000 });
+        await scheduler.schedule(message, { afterInMs: 5000 });
+
+        expect(mockSubscriptionFactory).toHaveBeenCalledTimes(1);
+        expect(mockSubscriptionFactory).toHaveBeenCalledWith(
+          'emmett-scheduled-messages-dispatcher',
+        );
+        expect(mockSubscription.create).toHaveBeenCalledWith({
+          retryPolicy: {
+            minimumBackoff: { seconds: 300 },
+            maximumBackoff: { seconds: 300 },
+          },
+          messageRetentionDuration: { seconds: 7 * 24 * 60 * 60 },
+        });
+      });
+
+      it('should reject messages due after the scheduled topic retention', async () => {
+        const mockPublishMessage = jest.fn().mockResolvedValue('message-id');
+        (mockPubSub.topic as jest.Mock).mockReturnValue({
+          exists: jest.fn().mockResolvedValue([true]),
+          publishMessage: mockPublishMessage,
+          subscription: jest.fn().mockReturnValue(createMockSubscription()),
+        });
+
+        const store = new InMemoryScheduledMessageStore();
+        const scheduler = new MessageScheduler({
+          useEmulator: false,
+          pubsub: mockPubSub,
+          store,
+        });
+        const message: Message = { type: 'RenewSubscription', data: {} };
+
+        await expect(
+          scheduler.schedule(message, { at: new Date('2024-01-23T10:00:00Z') }),
+        ).rejects.toThrow(
+          'Cannot schedule RenewSubscription for 2024-01-23T10:00:00.000Z',
+        );
+        expect(() =>
+          scheduler.scheduleInBackground(message, {
+            afterInMs: MAX_SCHEDULE_DELAY_MS + 1,
+          }),
+        ).toThrow(EmmettError);
+        expect(mockPublishMessage).not.toHaveBeenCalled();
+        expect(scheduler.getOutboxCount()).toBe(0);
+        expect(await store.load()).toHaveLength(0);
+
+        await scheduler.schedule(message, { afterInMs: MAX_SCHEDULE_DELAY_MS });
+        expect(mockPublishMessage).toHaveBeenCalledTimes(1);
+      });
+
+      it('should set messageKind attribute when a kind resolver is configured', async () => {
+        const mockPublishMessage = jest.fn().mockResolvedValue('message-id');
+        const mockTopic = {
+          exists: jest.fn().mockResolvedValue([true]),
+          publishMessage: mockPublishMessage,
+          subscription: jest.fn().mockReturnValue(createMockSubscription()),
+        };
+
+        (mockPubSub.topic as jest.Mock).mockReturnValue(mockTopic);
+
+        const scheduler = new MessageScheduler({
+          useEmulator: false,
+          pubsub: mockPubSub,
+          resolveMessageKind: () => 'command',
+        });
+
+        const message: Message = { type: 'AddProductItem', data: {} };
+        await scheduler.schedule(message, { afterInMs: 5000 });
+
+        const publishCall = mockPublishMessage.mock.calls[0][0];
+        expect(publishCall.attributes.messageKind).toBe('command');
+      });
+
+      it('should infer the messageKind attribute without a kind resolver', async () => {
+        const mockPublishMessage = jest.fn().mockResolvedValue('message-id');
+        const mockTopic = {
+          exists: jest.fn().mockResolvedValue([true]),
+          publishMessage: mockPublishMessage,
+          subscription: jest.fn().mockReturnValue(createMockSubscription()),
+        };
+
+        (mockPubSub.topic as jest.Mock).mockReturnValue(mockTopic);
+
+        const scheduler = new MessageScheduler({
+          useEmulator: false,
+          pubsub: mockPubSub,
+        });
+
+        await scheduler.schedule(
+          { type: 'RenewSubscriptionCommand', data: {} },
+          { afterInMs: 5000 },
+        );
+        await scheduler.schedule(
+          { type: 'SubscriptionRenewed', data: {} },
+          { afterInMs: 5000 },
+        );
+
+        expect(
+          mockPublishMessage.mock.calls.map(
+            ([{ attributes }]) => attributes.messageKind,
+          ),
+        ).toEqual(['command', 'event']);
+      });
+
+      it('should encode messages with the resolved codec and set the contentType attribute', async () => {
+        const mockPublishMessage = jest.fn().mockResolvedValue('message-id');
+        const mockTopic = {
+          exists: jest.fn().mockResolvedValue([true]),
+          publishMessage: mockPublishMessage,
+          subscription: jest.fn().mockReturnValue(createMockSubscription()),
+        };
+
+        (mockPubSub.topic as jest.Mock).mockReturnValue(mockTopic);
+
+        const codec = {
+          contentType: 'text/test',
+          encode: jest.fn().mockReturnValue(Buffer.from('encoded')),
+          decode: jest.fn(),
+        };
+        const scheduler = new MessageScheduler({
+          useEmulator: false,
+          pubsub: mockPubSub,
+          resolveEnvelopeCodec: () => codec,
+        });
+
+        const message: Message = { type: 'AddProductItem', data: {} };
+        await scheduler.schedule(message, { afterInMs: 5000 });
+
+        const publishCall = mockPublishMessage.mock.calls[0][0];
+        expect(publishCall.data.toString()).toBe('encoded');
+        expect(publishCall.attributes.contentType).toBe('text/test');
+      });
+
+      it('should compress large messages with the resolved compression', async () => {
+        const mockPublishMessage = jest.fn().mockResolvedValue('message-id');
+        const mockTopic = {
+          exists: jest.fn().mockResolvedValue([true]),
+          publishMessage: mockPublishMessage,
+          subscription: jest.fn().mockReturnValue(createMockSubscription()),
+        };
+
+        (mockPubSub.topic as jest.Mock).mockReturnValue(mockTopic);
+
+        const scheduler = new MessageScheduler({
+          useEmulator: false,
+          pubsub: mockPubSub,
+          resolveCompression: () => ({ thresholdBytes: 0 }),
+        });
+
+        const message: Message = {
+          type: 'CartSnapshotTaken',
+          data: { items: Array.from({ length: 100 }, () => 'product') },
+        };
+        await scheduler.schedule(message, { afterInMs: 5000 });
+
+        const publishCall = mockPublishMessage.mock.calls[0][0];
+        expect(publishCall.attributes.contentEncoding).toBe('gzip');
+        expect(
+          deserialize(publishCall.data, { contentEncoding: 'gzip' }),
+        ).toEqual(message);
+      });
+
+      it('should encrypt messages with the resolved encryption', async () => {
+        const mockPublishMessage = jest.fn().mockResolvedValue('message-id');
+        const mockTopic = {
+          exists: jest.fn().mockResolvedValue([true]),
+          publishMessage: mockPublishMessage,
+          subscription: jest.fn().mockReturnValue(createMockSubscription()),
+        };
+
+        (mockPubSub.topic as jest.Mock).mockReturnValue(mockTopic);
+
+        const keyProvider = new LocalKeyProvider(
+          { k1: Buffer.alloc(32, 1) },
+          'k1',
+        );
+        const scheduler = new MessageScheduler({
+          useEmulator: false,
+          pubsub: mockPubSub,
+          resolveEncryption: () => ({ keyProvider, paths: ['email'] }),
+        });
+
+        const message: Message = {
+          type: 'SendWelcomeEmail',
+          data: { email: 'jane@example.com' },
+        };
+        await scheduler.schedule(message, { afterInMs: 5000 });
+
+        const publishCall = mockPublishMessage.mock.calls[0][0];
+        expect(publishCall.data.toString()).not.toContain('jane@example.com');
+        expect(publishCall.attributes.encryptionKeyId).toBe('k1');
+        const decryptionKey = await unwrapDataKey(
+          publishCall.attributes,
+          keyProvider,
+        );
+        expect(deserialize(publishCall.data, { decryptionKey })).toEqual(
+          message,
+        );
+      });
+
+      it('should sign messages with the signer', async () => {
+        const mockPublishMessage = jest.fn().mockResolvedValue('message-id');
+        const mockTopic = {
+          exists: jest.fn().mockResolvedValue([true]),
+          publishMessage: mockPublishMessage,
+          subscription: jest.fn().mockReturnValue(createMockSubscription()),
+        };
+
+        (mockPubSub.topic as jest.Mock).mockReturnValue(mockTopic);
+
+        const signer = new HmacMessageSigner({ k1: Buffer.alloc(32, 1) }, 'k1');
+        const scheduler = new MessageScheduler({
+          useEmulator: false,
+          pubsub: mockPubSub,
+          signer,
+        });
+
+        await scheduler.schedule(
+          { type: 'ShipOrder', data: { orderId: 'o-1' } },
+          { afterInMs: 5000 },
+        );
+
+        const publishCall = mockPublishMessage.mock.calls[0][0];
+        expect(publishCall.attributes.signatureKeyId).toBe('k1');
+        await expect(
+          verifyPayload(
+            'ShipOrder',
+            publishCall.data,
+            publishCall.attributes,
+            signer,
+          ),
+        ).resolves.toBeUndefined();
+      });
+
+      it('should publish CloudEvents with the resolved options', async () => {
+        const mockPublishMessage = jest.fn().mockResolvedValue('message-id');
+        const mockTopic = {
+          exists: jest.fn().mockResolvedValue([true]),
+          publishMessage: mockPublishMessage,
+          subscription: jest.fn().mockReturnValue(createMockSubscription()),
+        };
+
+        (mockPubSub.topic as jest.Mock).mockReturnValue(mockTopic);
+
+        const scheduler = new MessageScheduler({
+          useEmulator: false,
+          pubsub: mockPubSub,
+          resolveCloudEvents: () => ({ source: '//orders.example.com' }),
+        });
+
+        const message: Message = {
+          type: 'ShipOrder',
+          data: { orderId: 'o-1' },
+        };
+        await scheduler.schedule(message, { afterInMs: 5000 });
+
+        const publishCall = mockPublishMessage.mock.calls[0][0];
+        expect(publishCall.attributes).toMatchObject({
+          messageType: 'ShipOrder',
+          'ce-type': 'ShipOrder',
+          'ce-source': '//orders.example.com',
+        });
+        expect(publishCall.attributes.contentType).toBeUndefined();
+        expect(
+          deserialize(publishCall.data, { attributes: publishCall.attributes }),
+        ).toEqual(message);
+      });
+
+      it('should track messages before publishing them, so a delivery right away is forgotten', async () => {
+        const store = new InMemoryScheduledMessageStore();
+        const mockPublishMessage = jest.fn(
+          async ({ attributes }: { attributes: Record<string, string> }) => {
+            // The dispatcher delivers the due message and forgets it
+            expect(await store.load()).toHaveLength(1);
+            await store.remove([attributes.scheduleId]);
+            return 'message-id';
+          },
+        );
+        (mockPubSub.topic as jest.Mock).mockReturnValue({
+          exists: jest.fn().mockResolvedValue([true]),
+          publishMessage: mockPublishMessage,
+          subscription: jest.fn().mockReturnValue(createMockSubscription()),
+        });
+
+        const scheduler = new MessageScheduler({
+          useEmulator: false,
+          pubsub: mockPubSub,
+          store,
+        });
+
+        await scheduler.schedule({ type: 'SendReminder', data: {} });
+
+        expect(mockPublishMessage).toHaveBeenCalledTimes(1);
+        expect(await scheduler.list()).toEqual([]);
+      });
+
+      it('should stop tracking messages whose publish failed', async () => {
+        (mockPubSub.topic as jest.Mock).mockReturnValue({
+          exists: jest.fn().mockResolvedValue([true]),
+          publishMessage: jest
+            .fn()
+            .mockRejectedValue(new Error('Publish failed')),
+          subscription: jest.fn().mockReturnValue(createMockSubscription()),
+        });
+
+        const store = new InMemoryScheduledMessageStore();
+        const scheduler = new MessageScheduler({
+          useEmulator: false,
+          pubsub: mockPubSub,
+          store,
+        });
+
+        await expect(
+          scheduler.schedule({ type: 'SendReminder', data: {} }),
+        ).rejects.toThrow('Failed to publish scheduled message SendReminder');
+        expect(await store.load()).toEqual([]);
+      });
+
+      it('should track scheduled messages and record cancellations in the store', async () => {
+        const mockPublishMessage = jest.fn().mockResolvedValue('message-id');
+        const mockTopic = {
+          exists: jest.fn().mockResolvedValue([true]),
+          publishMessage: mockPublishMessage,
+          subscription: jest.fn().mockReturnValue(createMockSubscription()),
+        };
+
+        (mockPubSub.topic as jest.Mock).mockReturnValue(mockTopic);
+
+        const store = new InMemoryScheduledMessageStore();
+        const scheduler = new MessageScheduler({
+          useEmulator: false,
+          pubsub: mockPubSub,
+          store,
+        });
+
+        const id = await scheduler.schedule(
+          { type: 'AbandonCart', data: {} },
+          { afterInMs: 5000 },
+        );
+
+        const publishCall = mockPublishMessage.mock.calls[0][0];
+        expect(publishCall.attributes.scheduleId).toBe(id);
+        expect(await scheduler.list()).toHaveLength(1);
+
+        expect(await scheduler.cancel(id)).toBe(true);
+        expect(await scheduler.list()).toHaveLength(0);
+        expect(await store.isCancelled(id)).toBe(true);
+      });
+
       it('should handle publishing errors', async () => {
         const mockPublishMessage = jest
           .fn()
@@ -316,6 +944,7 @@ describe('Scheduler', () => {
         const mockTopic = {
           exists: mockExists,
           publishMessage: mockPublishMessage,
+          subscription: jest.fn().mockReturnValue(createMockSubscription()),
         };
 
         (mockPubSub.topic as jest.Mock).mockReturnValue(mockTopic);
@@ -332,6 +961,130 @@ describe('Scheduler', () => {
         ).rejects.toThrow('Failed to publish scheduled message TestCommand');
       });
 
+      describe('scheduling in the background', () => {
+        function createFlakyTopic(failures: number) {
+          let remaining = failures;
+          const mockPublishMessage = jest.fn(async () => {
+            if (remaining > 0) {
+              remaining--;
+              throw new Error('Publish failed');
+            }
+            return 'message-id';
+          });
+          (mockPubSub.topic as jest.Mock).mockReturnValue({
+            exists: jest.fn().mockResolvedValue([true]),
+            publishMessage: mockPublishMessage,
+            subscription: jest.fn().mockReturnValue(createMockSubscription()),
+          });
+          return mockPublishMessage;
+        }
+
+        it('should retry failed publishes from the outbox with backoff', async () => {
+          const mockPublishMessage = createFlakyTopic(2);
+          const onScheduleError = jest.fn();
+          const store = new InMemoryScheduledMessageStore();
+          const scheduler = new MessageScheduler({
+            useEmulator: false,
+            pubsub: mockPubSub,
+            store,
+            onScheduleError,
+          });
+
+          const id = scheduler.scheduleInBackground(
+            { type: 'TestCommand', data: {} },
+            { afterInMs: 60000 },
+          );
+          await jest.advanceTimersByTimeAsync(0);
+
+          expect(onScheduleError).toHaveBeenCalledTimes(1);
+          expect(onScheduleError).toHaveBeenCalledWith(
+            expect.any(Error),
+            expect.objectContaining({ id }),
+            1,
+          );
+          expect(scheduler.getOutboxCount()).toBe(1);
+          expect((await scheduler.list()).map((msg) => msg.id)).toEqual([id]);
+
+          await jest.advanceTimersByTimeAsync(1000);
+          expect(onScheduleError).toHaveBeenCalledTimes(2);
+          expect(onScheduleError).toHaveBeenLastCalledWith(
+            expect.any(Error),
+            expect.objectContaining({ id }),
+            2,
+          );
+
+          // Second retry after a doubled delay
+          await jest.advanceTimersByTimeAsync(1999);
+          expect(mockPublishMessage).toHaveBeenCalledTimes(2);
+          await jest.advanceTimersByTimeAsync(1);
+
+          expect(mockPublishMessage).toHaveBeenCalledTimes(3);
+          expect(scheduler.getOutboxCount()).toBe(0);
+          expect((await store.load()).map((msg) => msg.id)).toEqual([id]);
+        });
+
+        it('should not retry messages cancelled while in the outbox', async () => {
+          const mockPublishMessage = createFlakyTopic(1);
+          const scheduler = new MessageScheduler({
+            useEmulator: false,
+            pubsub: mockPubSub,
+            onScheduleError: jest.fn(),
+          });
+
+          const id = scheduler.scheduleInBackground(
+            { type: 'TestCommand', data: {} },
+            { afterInMs: 60000 },
+          );
+          await jest.advanceTimersByTimeAsync(0);
+
+          expect(await scheduler.cancel(id)).toBe(true);
+          await jest.advanceTimersByTimeAsync(60000);
+
+          expect(mockPublishMessage).toHaveBeenCalledTimes(1);
+          expect(scheduler.getOutboxCount()).toBe(0);
+        });
+
+        it('should drop unpublished messages when discarding the outbox', async () => {
+          const mockPublishMessage = createFlakyTopic(2);
+          const scheduler = new MessageScheduler({
+            useEmulator: false,
+            pubsub: mockPubSub,
+            onScheduleError: jest.fn(),
+          });
+
+          scheduler.scheduleInBackground({ type: 'TestCommand', data: {} });
+          await jest.advanceTimersByTimeAsync(0);
+          await scheduler.flushOutbox();
+
+          expect(scheduler.discardOutbox()).toBe(1);
+          await jest.advanceTimersByTimeAsync(60000);
+          await scheduler.flushOutbox();
+
+          expect(mockPublishMessage).toHaveBeenCalledTimes(2);
+          expect(scheduler.getOutboxCount()).toBe(0);
+          expect(await scheduler.list()).toEqual([]);
+        });
+
+        it('should log failures without onScheduleError', async () => {
+          createFlakyTopic(1);
+          const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+          const scheduler = new MessageScheduler({
+            useEmulator: false,
+            pubsub: mockPubSub,
+          });
+
+          scheduler.scheduleInBackground({ type: 'TestCommand', data: {} });
+          await jest.advanceTimersByTimeAsync(0);
+
+          expect(consoleSpy).toHaveBeenCalledWith(
+            'Failed to schedule message TestCommand (attempt 1):',
+            expect.stringContaining('Publish failed'),
+          );
+          consoleSpy.mockRestore();
+          scheduler.discardOutbox();
+        });
+      });
+
       it('should return 0 pending count in production mode', () => {
         const scheduler = new MessageScheduler({
           useEmulator: false,
@@ -363,6 +1116,7 @@ describe('Scheduler', () => {
           exists: mockExists,
           create: mockCreate,
           publishMessage: mockPublishMessage,
+          subscription: jest.fn().mockReturnValue(createMockSubscription()),
         };
 
         (mockPubSub.topic as jest.Mock).mockReturnValue(mockTopic);
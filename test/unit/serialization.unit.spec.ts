@@ -1,10 +1,19 @@
 import type { Command, Event } from '@event-driven-io/emmett';
+import { EmmettError } from '@event-driven-io/emmett';
+import { gzipSync } from 'zlib';
 import {
   serialize,
+  serializeCloudEvent,
   deserialize,
+  deserializeWithMessageId,
   attachMessageId,
   extractMessageId,
+  jsonMessageCodec,
+  registerTypeMarker,
+  createDecimalTypeMarker,
 } from '../../src/messageBus/serialization';
+import { jsonEnvelopeCodec } from '../../src/messageBus/topicSchema';
+import type { PubSubMessageEnvelope } from '../../src/messageBus/types';
 
 describe('Serialization', () => {
   describe('serialize and deserialize', () => {
@@ -277,6 +286,468 @@ describe('Serialization', () => {
     });
   });
 
+  describe('type markers', () => {
+    const roundTrip = (data: Record<string, unknown>) =>
+      deserialize<Event>(serialize({ type: 'InventoryAdjusted', data })).data;
+
+    it('should preserve BigInt values', () => {
+      const data = roundTrip({ amount: 9007199254740993n });
+
+      expect(data.amount).toBe(9007199254740993n);
+    });
+
+    it('should preserve Map values with nested markers', () => {
+      const restockedAt = new Date('2024-01-15T10:30:00.000Z');
+      const stock = new Map<string, unknown>([
+        ['sku-1', { quantity: 5n, restockedAt }],
+        ['sku-2', { quantity: 0n, restockedAt: null }],
+      ]);
+
+      const data = roundTrip({ stock });
+
+      expect(data.stock).toBeInstanceOf(Map);
+      expect(data.stock).toEqual(stock);
+      expect(
+        (data.stock as Map<string, { restockedAt: Date }>).get('sku-1')
+          ?.restockedAt,
+      ).toBeInstanceOf(Date);
+    });
+
+    it('should preserve Set values', () => {
+      const data = roundTrip({ tags: new Set(['sale', 'new']) });
+
+      expect(data.tags).toBeInstanceOf(Set);
+      expect(data.tags).toEqual(new Set(['sale', 'new']));
+    });
+
+    it('should preserve Buffer values', () => {
+      const data = roundTrip({ checksum: Buffer.from([0, 1, 254, 255]) });
+
+      expect(Buffer.isBuffer(data.checksum)).toBe(true);
+      expect(data.checksum).toEqual(Buffer.from([0, 1, 254, 255]));
+    });
+
+    it('should write type markers with the type name', () => {
+      const buffer = serialize({
+        type: 'InventoryAdjusted',
+        data: { amount: 10n },
+      });
+
+      expect(JSON.parse(buffer.toString()).data).toEqual({
+        amount: { __type: 'BigInt', value: '10' },
+      });
+    });
+
+    it('should keep markers of unregistered types as-is', () => {
+      const marker = { __type: 'Unregistered', value: 'x' };
+
+      expect(roundTrip({ marker }).marker).toEqual(marker);
+    });
+
+    it('should preserve values of registered custom types', () => {
+      class Money {
+        constructor(
+          readonly amount: bigint,
+          readonly currency: string,
+        ) {}
+      }
+      registerTypeMarker<Money>({
+        name: 'TestMoney',
+        is: (value): value is Money => value instanceof Money,
+        toJSON: (money) => ({
+          amount: money.amount,
+          currency: money.currency,
+        }),
+        fromJSON: (json) => {
+          const { amount, currency } = json as {
+            amount: bigint;
+            currency: string;
+          };
+          return new Money(amount, currency);
+        },
+      });
+
+      const data = roundTrip({ price: new Money(1999n, 'EUR') });
+
+      expect(data.price).toBeInstanceOf(Money);
+      expect(data.price).toEqual(new Money(1999n, 'EUR'));
+    });
+
+    it('should preserve decimals without losing precision', () => {
+      // Minimal stand-in for decimal.js
+      class Decimal {
+        constructor(private readonly digits: string) {}
+        toString() {
+          return this.digits;
+        }
+      }
+      registerTypeMarker(createDecimalTypeMarker(Decimal, 'TestDecimal'));
+
+      const data = roundTrip({ rate: new Decimal('0.1000000000000000055') });
+
+      expect(data.rate).toBeInstanceOf(Decimal);
+      expect(String(data.rate)).toBe('0.1000000000000000055');
+    });
+  });
+
+  describe('serialize options', () => {
+    it('should use the supplied message ID and correlation/causation IDs', () => {
+      const buffer = serialize(
+        { type: 'TestCommand', data: {} },
+        {
+          messageId: 'confirm-cart-1',
+          correlationId: 'request-1',
+          causationId: 'event-1',
+        },
+      );
+
+      expect(deserializeWithMessageId(buffer)).toEqual({
+        message: { type: 'TestCommand', data: {} },
+        messageId: 'confirm-cart-1',
+        correlationId: 'request-1',
+        causationId: 'event-1',
+      });
+    });
+
+    it('should use the supplied kind over the type name', () => {
+      const buffer = serialize(
+        { type: 'AddProductItem', data: {} },
+        { kind: 'command' },
+      );
+
+      const envelope = JSON.parse(buffer.toString()) as { kind: string };
+      expect(envelope.kind).toBe('command');
+    });
+
+    it('should write the supplied version, 1 by default', () => {
+      const event = { type: 'ProductItemAdded', data: {} };
+
+      expect(JSON.parse(serialize(event).toString()).version).toBe(1);
+      expect(
+        JSON.parse(serialize(event, { version: 3 }).toString()).version,
+      ).toBe(3);
+    });
+
+    it('should infer the kind from the type name by default', () => {
+      const envelope = JSON.parse(
+        serialize({ type: 'AddProductItem', data: {} }).toString(),
+      ) as { kind: string };
+
+      expect(envelope.kind).toBe('event');
+    });
+  });
+
+  describe('envelope codecs', () => {
+    it('should encode and decode envelopes with a codec', () => {
+      const codec = {
+        encode: jest.fn((envelope: PubSubMessageEnvelope) =>
+          Buffer.from(`custom:${JSON.stringify(envelope)}`),
+        ),
+        decode: jest.fn(
+          (data: Buffer) =>
+            JSON.parse(
+              data.toString().slice('custom:'.length),
+            ) as PubSubMessageEnvelope,
+        ),
+      };
+      const event = {
+        type: 'ProductItemAdded',
+        data: { productId: 'p-1', quantity: 2 },
+      };
+
+      const buffer = serialize(event, { kind: 'event', codec });
+
+      expect(buffer.toString().startsWith('custom:')).toBe(true);
+      expect(deserialize(buffer, { codec })).toEqual(event);
+    });
+
+    it('should pass data to the codec without Date markers', () => {
+      const addedAt = new Date('2024-01-15T10:30:00.000Z');
+
+      const buffer = serialize(
+        { type: 'ProductItemAdded', data: { addedAt } },
+        { codec: jsonEnvelopeCodec },
+      );
+
+      expect(deserialize(buffer, { codec: jsonEnvelopeCodec }).data).toEqual({
+        addedAt: '2024-01-15T10:30:00.000Z',
+      });
+    });
+
+    it('should write BigInts as strings', () => {
+      // Without the BigInt.prototype.toJSON patch of the test setup
+      const bigIntPrototype = BigInt.prototype as { toJSON?: unknown };
+      const { toJSON } = bigIntPrototype;
+      delete bigIntPrototype.toJSON;
+
+      try {
+        const event: Event<
+          'ProductItemAdded',
+          { quantity: bigint },
+          { streamPosition: bigint }
+        > = {
+          type: 'ProductItemAdded',
+          data: { quantity: 2n },
+          metadata: { streamPosition: 9007199254740993n },
+        };
+        const buffer = serialize(event, { codec: jsonEnvelopeCodec });
+
+        const envelope = jsonEnvelopeCodec.decode(buffer);
+        expect(envelope.data).toEqual({ quantity: '2' });
+        expect(envelope.metadata).toMatchObject({
+          streamPosition: '9007199254740993',
+        });
+      } finally {
+        bigIntPrototype.toJSON = toJSON;
+      }
+    });
+  });
+
+  describe('jsonMessageCodec', () => {
+    it('should use the JSON content type', () => {
+      expect(jsonMessageCodec.contentType).toBe('application/json');
+    });
+
+    it('should be the default codec', () => {
+      const addedAt = new Date('2024-01-15T10:30:00.000Z');
+      const event = { type: 'ProductItemAdded', data: { addedAt } };
+
+      const buffer = serialize(event, { messageId: 'msg-1' });
+
+      expect(jsonMessageCodec.decode(buffer).data).toEqual({ addedAt });
+      expect(
+        deserialize(serialize(event, { codec: jsonMessageCodec })),
+      ).toEqual(event);
+    });
+  });
+
+  describe('upcasting', () => {
+    const upcasters = [
+      (data: unknown) => ({ ...(data as object), currency: 'EUR' }),
+    ];
+
+    it('should upcast data of older versions', () => {
+      const buffer = serialize({ type: 'PriceSet', data: { price: 10 } });
+
+      expect(deserialize(buffer, { upcasters }).data).toEqual({
+        price: 10,
+        currency: 'EUR',
+      });
+    });
+
+    it('should treat envelopes without version as version 1', () => {
+      const buffer = Buffer.from(
+        JSON.stringify({
+          type: 'PriceSet',
+          kind: 'event',
+          data: { price: 10 },
+          timestamp: '2024-01-15T10:30:00.000Z',
+          messageId: 'msg-1',
+        }),
+      );
+
+      expect(deserialize(buffer, { upcasters }).data).toEqual({
+        price: 10,
+        currency: 'EUR',
+      });
+    });
+
+    it('should not upcast data of the latest version', () => {
+      const buffer = serialize(
+        { type: 'PriceSet', data: { price: 10, currency: 'USD' } },
+        { version: 2 },
+      );
+
+      expect(deserialize(buffer, { upcasters }).data).toEqual({
+        price: 10,
+        currency: 'USD',
+      });
+    });
+
+    it('should fail for versions newer than the upcasters know', () => {
+      const buffer = serialize({ type: 'PriceSet', data: {} }, { version: 3 });
+
+      expect(() => deserialize(buffer, { upcasters })).toThrow(
+        'Failed to deserialize message: Cannot read PriceSet version 3, the latest known version is 2',
+      );
+    });
+  });
+
+  describe('compressed messages', () => {
+    it('should decompress messages with a content encoding', () => {
+      const event = { type: 'CartSnapshotTaken', data: { cartId: 'cart-1' } };
+
+      expect(
+        deserialize(gzipSync(serialize(event)), { contentEncoding: 'gzip' }),
+      ).toEqual(event);
+    });
+
+    it('should throw EmmettError for unsupported content encodings', () => {
+      const buffer = serialize({ type: 'CartSnapshotTaken', data: {} });
+
+      expect(() => deserialize(buffer, { contentEncoding: 'zstd' })).toThrow(
+        EmmettError,
+      );
+    });
+  });
+
+  describe('encrypted messages', () => {
+    const key = Buffer.alloc(32, 7);
+    const event = {
+      type: 'UserRegistered',
+      data: {
+        userId: 'u-1',
+        email: 'jane@example.com',
+        registeredAt: new Date('2024-01-15T10:30:00.000Z'),
+        addresses: [{ street: 'Main St 1' }, { street: 'Side St 2' }],
+      },
+    };
+
+    it('should encrypt the whole data', () => {
+      const buffer = serialize(event, { encryption: { key } });
+      const envelope = JSON.parse(buffer.toString()) as PubSubMessageEnvelope;
+
+      expect(buffer.toString()).not.toContain('jane@example.com');
+      expect(envelope.data).toEqual({
+        __type: 'Encrypted',
+        value: expect.any(String),
+      });
+      expect(deserialize(buffer, { decryptionKey: key })).toEqual(event);
+    });
+
+    it('should encrypt only the data paths', () => {
+      const buffer = serialize(event, {
+        encryption: {
+          key,
+          paths: ['email', 'addresses.*.street', 'missing.x'],
+        },
+      });
+      const envelope = JSON.parse(buffer.toString()) as PubSubMessageEnvelope;
+
+      expect(buffer.toString()).not.toContain('jane@example.com');
+      expect(buffer.toString()).not.toContain('Main St 1');
+      expect(envelope.data).toEqual({
+        userId: 'u-1',
+        email: { __type: 'Encrypted', value: expect.any(String) },
+        registeredAt: { __type: 'Date', value: '2024-01-15T10:30:00.000Z' },
+        addresses: [
+          { street: { __type: 'Encrypted', value: expect.any(String) } },
+          { street: { __type: 'Encrypted', value: expect.any(String) } },
+        ],
+      });
+      expect(deserialize(buffer, { decryptionKey: key })).toEqual(event);
+    });
+
+    it('should restore typed values of encrypted data', () => {
+      const buffer = serialize(event, {
+        encryption: { key, paths: ['registeredAt'] },
+      });
+
+      const { data } = deserialize<typeof event & Event>(buffer, {
+        decryptionKey: key,
+      });
+
+      expect(data.registeredAt).toBeInstanceOf(Date);
+    });
+
+    it('should decrypt data before upcasting', () => {
+      const buffer = serialize(event, { encryption: { key } });
+
+      const { data } = deserialize(buffer, {
+        decryptionKey: key,
+        upcasters: [(data) => ({ ...(data as object), upcast: true })],
+      });
+
+      expect(data).toEqual({ ...event.data, upcast: true });
+    });
+
+    it('should fail with the wrong key', () => {
+      const buffer = serialize(event, { encryption: { key } });
+
+      expect(() =>
+        deserialize(buffer, { decryptionKey: Buffer.alloc(32, 8) }),
+      ).toThrow('Failed to deserialize message');
+    });
+  });
+
+  describe('CloudEvents', () => {
+    const event = {
+      type: 'OrderPlaced',
+      data: { orderId: 'o-1', placedAt: new Date('2024-01-15T10:30:00.000Z') },
+    };
+    const source = '//orders.example.com';
+
+    it('should serialize binary CloudEvents with plain JSON data', () => {
+      const { data, attributes } = serializeCloudEvent(
+        event,
+        { source },
+        { messageId: 'msg-1', correlationId: 'corr-1' },
+      );
+
+      expect(JSON.parse(data.toString())).toEqual({
+        orderId: 'o-1',
+        placedAt: '2024-01-15T10:30:00.000Z',
+      });
+      expect(attributes).toMatchObject({
+        'ce-specversion': '1.0',
+        'ce-id': 'msg-1',
+        'ce-source': source,
+        'ce-type': 'OrderPlaced',
+        'ce-emmettkind': 'event',
+        'ce-correlationid': 'corr-1',
+      });
+    });
+
+    it('should deserialize CloudEvents according to the message attributes', () => {
+      for (const mode of ['binary', 'structured'] as const) {
+        const { data, attributes } = serializeCloudEvent(event, {
+          source,
+          mode,
+        });
+
+        expect(deserialize(data, { attributes })).toEqual({
+          type: 'OrderPlaced',
+          data: { orderId: 'o-1', placedAt: '2024-01-15T10:30:00.000Z' },
+        });
+      }
+    });
+
+    it('should decrypt encrypted CloudEvent data', () => {
+      const key = Buffer.alloc(32, 7);
+      const { data, attributes } = serializeCloudEvent(
+        event,
+        { source },
+        { encryption: { key } },
+      );
+
+      expect(data.toString()).not.toContain('o-1');
+      expect(deserialize(data, { attributes, decryptionKey: key })).toEqual(
+        event,
+      );
+    });
+  });
+
+  describe('deserializeWithMessageId', () => {
+    it('should return the envelope message ID', () => {
+      const command: Command = { type: 'TestCommand', data: { value: 'test' } };
+      const buffer = serialize(command);
+      const envelope = JSON.parse(buffer.toString()) as { messageId: string };
+
+      const { message, messageId } = deserializeWithMessageId(buffer);
+
+      expect(message).toEqual(command);
+      expect(messageId).toBe(envelope.messageId);
+    });
+
+    it('should return undefined for envelopes without message ID', () => {
+      const buffer = Buffer.from(
+        JSON.stringify({ type: 'TestEvent', kind: 'event', data: {} }),
+      );
+
+      expect(deserializeWithMessageId(buffer).messageId).toBeUndefined();
+    });
+  });
+
   describe('attachMessageId and extractMessageId', () => {
     it('should attach and extract message ID', () => {
       type TestCommand = Command<'TestCommand', { value: string }>;
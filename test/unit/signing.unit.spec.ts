@@ -0,0 +1,219 @@
+import { generateKeyPairSync, randomBytes } from 'crypto';
+import { EmmettError } from '@event-driven-io/emmett';
+import {
+  AsymmetricMessageSigner,
+  AsymmetricMessageVerifier,
+  HmacMessageSigner,
+  MessageSignatureError,
+  signPayload,
+  verifyPayload,
+} from '../../src/messageBus/signing';
+
+describe('Signing', () => {
+  const payload = Buffer.from('{"type":"ShipOrder"}');
+
+  describe('HmacMessageSigner', () => {
+    it('should sign with the current key and verify', async () => {
+      const signer = new HmacMessageSigner(
+        { old: randomBytes(32), current: randomBytes(32) },
+        'current',
+      );
+
+      const { keyId, signature } = await signer.sign(payload);
+
+      expect(keyId).toBe('current');
+      await expect(signer.verify(payload, signature, 'current')).resolves.toBe(
+        true,
+      );
+      await expect(signer.verify(payload, signature, 'old')).resolves.toBe(
+        false,
+      );
+    });
+
+    it('should verify messages signed with a rotated key', async () => {
+      const keys = { old: randomBytes(32), current: randomBytes(32) };
+      const { signature } = await new HmacMessageSigner(keys, 'old').sign(
+        payload,
+      );
+
+      await expect(
+        new HmacMessageSigner(keys, 'current').verify(
+          payload,
+          signature,
+          'old',
+        ),
+      ).resolves.toBe(true);
+    });
+
+    it('should reject tampered data, short signatures and unknown keys', async () => {
+      const signer = new HmacMessageSigner({ k1: randomBytes(32) }, 'k1');
+      const { signature } = await signer.sign(payload);
+
+      await expect(
+        signer.verify(Buffer.from('tampered'), signature, 'k1'),
+      ).resolves.toBe(false);
+      await expect(
+        signer.verify(payload, signature.subarray(1), 'k1'),
+      ).resolves.toBe(false);
+      await expect(signer.verify(payload, signature, 'k2')).resolves.toBe(
+        false,
+      );
+    });
+
+    it('should reject a missing current key', () => {
+      expect(
+        () => new HmacMessageSigner({ k1: randomBytes(32) }, 'k2'),
+      ).toThrow(EmmettError);
+    });
+  });
+
+  describe('AsymmetricMessageSigner', () => {
+    it.each(['ed25519', 'ec', 'rsa'] as const)(
+      'should sign with %s keys verified by the public key',
+      async (type) => {
+        const { privateKey, publicKey } =
+          type === 'ed25519'
+            ? generateKeyPairSync('ed25519')
+            : type === 'ec'
+              ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+              : generateKeyPairSync('rsa', { modulusLength: 2048 });
+        const signer = new AsymmetricMessageSigner(privateKey, 'orders-1');
+        const verifier = new AsymmetricMessageVerifier({
+          'orders-1': publicKey,
+        });
+
+        const { keyId, signature } = await signer.sign(payload);
+
+        expect(keyId).toBe('orders-1');
+        await expect(
+          verifier.verify(payload, signature, 'orders-1'),
+        ).resolves.toBe(true);
+        await expect(
+          verifier.verify(Buffer.from('tampered'), signature, 'orders-1'),
+        ).resolves.toBe(false);
+      },
+    );
+
+    it('should accept PEM keys', async () => {
+      const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+      const signer = new AsymmetricMessageSigner(
+        privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+        'k1',
+      );
+      const verifier = new AsymmetricMessageVerifier({
+        k1: publicKey.export({ type: 'spki', format: 'pem' }) as string,
+      });
+
+      const { signature } = await signer.sign(payload);
+
+      await expect(verifier.verify(payload, signature, 'k1')).resolves.toBe(
+        true,
+      );
+    });
+
+    it('should reject unknown keys and malformed signatures', async () => {
+      const { publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      const verifier = new AsymmetricMessageVerifier({ k1: publicKey });
+
+      await expect(
+        verifier.verify(payload, Buffer.from('sig'), 'k2'),
+      ).resolves.toBe(false);
+      await expect(
+        verifier.verify(payload, Buffer.from('sig'), 'k1'),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('signPayload and verifyPayload', () => {
+    const signer = new HmacMessageSigner({ k1: randomBytes(32) }, 'k1');
+
+    it('should return attributes that verify', async () => {
+      const attributes = await signPayload('ShipOrder', payload, {}, signer);
+
+      expect(attributes.signatureKeyId).toBe('k1');
+      await expect(
+        verifyPayload('ShipOrder', payload, attributes, signer),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject unsigned messages', async () => {
+      await expect(
+        verifyPayload(
+          'ShipOrder',
+          payload,
+          { messageType: 'ShipOrder' },
+          signer,
+        ),
+      ).rejects.toThrow(
+        new MessageSignatureError('ShipOrder', 'message is not signed'),
+      );
+    });
+
+    it('should reject messages signed for another type', async () => {
+      const attributes = await signPayload('ShipOrder', payload, {}, signer);
+
+      await expect(
+        verifyPayload('CancelOrder', payload, attributes, signer),
+      ).rejects.toThrow(MessageSignatureError);
+    });
+
+    it('should reject tampered payloads', async () => {
+      const attributes = await signPayload('ShipOrder', payload, {}, signer);
+
+      await expect(
+        verifyPayload('ShipOrder', Buffer.from('{}'), attributes, signer),
+      ).rejects.toThrow('signature does not match key k1');
+    });
+
+    it('should reject tampered attributes', async () => {
+      const attributes = {
+        messageType: 'ShipOrder',
+        messageId: 'msg-1',
+        correlationId: 'corr-1',
+        'ce-source': '/orders',
+        tenant: 'acme',
+      };
+      const signed = {
+        ...attributes,
+        ...(await signPayload('ShipOrder', payload, attributes, signer)),
+      };
+
+      await expect(
+        verifyPayload('ShipOrder', payload, signed, signer),
+      ).resolves.toBeUndefined();
+      for (const tampered of [
+        { ...signed, tenant: 'other' },
+        { ...signed, messageId: 'msg-2' },
+        { ...signed, 'ce-source': '/payments' },
+        { ...signed, causationId: 'msg-0' },
+      ]) {
+        await expect(
+          verifyPayload('ShipOrder', payload, tampered, signer),
+        ).rejects.toThrow('signature does not match key k1');
+      }
+    });
+
+    it('should not sign the attributes added in transit', async () => {
+      const attributes = { messageType: 'ShipOrder' };
+      const signed = {
+        ...attributes,
+        ...(await signPayload('ShipOrder', payload, attributes, signer)),
+      };
+
+      await expect(
+        verifyPayload(
+          'ShipOrder',
+          payload,
+          {
+            ...signed,
+            publishTime: '2024-06-01T00:00:00.000Z',
+            scheduleId: 'schedule-1',
+            claimCheck: 'payloads/1',
+            googclient_OpenTelemetrySpanContext: 'span',
+          },
+          signer,
+        ),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -3,11 +3,17 @@ import {
   getCommandTopicName,
   getEventTopicName,
   getCommandSubscriptionName,
+  getSharedCommandSubscriptionName,
   getEventSubscriptionName,
+  getDeadLetterTopicName,
+  getSharedDeadLetterTopicName,
+  getDeadLetterSubscriptionName,
   getOrCreateTopic,
+  getOrCreateTopicSchemaSettings,
   getOrCreateSubscription,
   deleteSubscription,
   deleteSubscriptions,
+  grantDeadLetterPermissions,
 } from '../../src/messageBus/topicManager';
 
 describe('TopicManager', () => {
@@ -40,6 +46,20 @@ describe('TopicManager', () => {
       });
     });
 
+    describe('getSharedCommandSubscriptionName', () => {
+      it('should generate shared command subscription name with default prefix', () => {
+        expect(getSharedCommandSubscriptionName('AddProductItem')).toBe(
+          'emmett-cmd-AddProductItem',
+        );
+      });
+
+      it('should generate shared command subscription name with custom prefix', () => {
+        expect(getSharedCommandSubscriptionName('AddProductItem', 'myapp')).toBe(
+          'myapp-cmd-AddProductItem',
+        );
+      });
+    });
+
     describe('getCommandSubscriptionName', () => {
       it('should generate command subscription name with default prefix', () => {
         expect(
@@ -67,6 +87,42 @@ describe('TopicManager', () => {
         ).toBe('myapp-evt-ProductItemAdded-sub-456');
       });
     });
+
+    describe('getDeadLetterTopicName', () => {
+      it('should generate dead-letter topic names by message kind', () => {
+        expect(getDeadLetterTopicName('AddProductItem', 'command')).toBe(
+          'emmett-dlq-cmd-AddProductItem',
+        );
+        expect(
+          getDeadLetterTopicName('ProductItemAdded', 'event', 'myapp'),
+        ).toBe('myapp-dlq-evt-ProductItemAdded');
+      });
+    });
+
+    describe('getSharedDeadLetterTopicName', () => {
+      it('should generate shared dead-letter topic name', () => {
+        expect(getSharedDeadLetterTopicName()).toBe('emmett-dead-letters');
+        expect(getSharedDeadLetterTopicName('myapp')).toBe(
+          'myapp-dead-letters',
+        );
+      });
+    });
+
+    describe('getDeadLetterSubscriptionName', () => {
+      it('should name dead-letter subscriptions after their topic', () => {
+        expect(getDeadLetterSubscriptionName('myapp-dead-letters')).toBe(
+          'myapp-dead-letters',
+        );
+      });
+
+      it('should name them after the last segment of full topic names', () => {
+        expect(
+          getDeadLetterSubscriptionName(
+            'projects/my-project/topics/myapp-dead-letters',
+          ),
+        ).toBe('myapp-dead-letters');
+      });
+    });
   });
 
   describe('Topic operations', () => {
@@ -121,6 +177,94 @@ describe('TopicManager', () => {
           getOrCreateTopic(mockPubSub, 'test-topic'),
         ).rejects.toThrow('Failed to get or create topic test-topic');
       });
+
+      it('should create new topic with its schema', async () => {
+        const mockTopic = {
+          exists: jest.fn().mockResolvedValue([false]),
+          create: jest.fn(),
+        } as unknown as Topic;
+
+        const mockPubSub = {
+          topic: jest.fn().mockReturnValue(mockTopic),
+          createSchema: jest.fn().mockResolvedValue(undefined),
+          schema: jest.fn().mockReturnValue({
+            getName: jest
+              .fn()
+              .mockResolvedValue('projects/test/schemas/test-topic-schema'),
+          }),
+          createTopic: jest.fn().mockResolvedValue([mockTopic]),
+        } as unknown as PubSub;
+
+        const topic = await getOrCreateTopic(mockPubSub, 'test-topic', {
+          type: 'AVRO',
+          definition: '{"type":"record"}',
+          encoding: 'BINARY',
+          codec: { encode: jest.fn(), decode: jest.fn() },
+        });
+
+        expect(mockPubSub.createSchema).toHaveBeenCalledWith(
+          'test-topic-schema',
+          'AVRO',
+          '{"type":"record"}',
+        );
+        expect(mockPubSub.createTopic).toHaveBeenCalledWith({
+          name: 'test-topic',
+          schemaSettings: {
+            schema: 'projects/test/schemas/test-topic-schema',
+            encoding: 'BINARY',
+          },
+        });
+        expect(mockTopic.create).not.toHaveBeenCalled();
+        expect(topic).toBe(mockTopic);
+      });
+    });
+
+    describe('getOrCreateTopicSchemaSettings', () => {
+      it('should reuse an existing schema with JSON encoding by default', async () => {
+        const mockPubSub = {
+          createSchema: jest
+            .fn()
+            .mockRejectedValue(
+              Object.assign(new Error('Already exists'), { code: 6 }),
+            ),
+          schema: jest.fn().mockReturnValue({
+            getName: jest
+              .fn()
+              .mockResolvedValue('projects/test/schemas/cart-events'),
+          }),
+        } as unknown as PubSub;
+
+        const settings = await getOrCreateTopicSchemaSettings(
+          mockPubSub,
+          'test-topic',
+          {
+            type: 'PROTOCOL_BUFFER',
+            definition: 'syntax = "proto3";',
+            schemaId: 'cart-events',
+          },
+        );
+
+        expect(mockPubSub.schema).toHaveBeenCalledWith('cart-events');
+        expect(settings).toEqual({
+          schema: 'projects/test/schemas/cart-events',
+          encoding: 'JSON',
+        });
+      });
+
+      it('should throw other schema creation errors', async () => {
+        const mockPubSub = {
+          createSchema: jest
+            .fn()
+            .mockRejectedValue(new Error('Invalid definition')),
+        } as unknown as PubSub;
+
+        await expect(
+          getOrCreateTopicSchemaSettings(mockPubSub, 'test-topic', {
+            type: 'AVRO',
+            definition: 'not avro',
+          }),
+        ).rejects.toThrow('Invalid definition');
+      });
     });
   });
 
@@ -207,6 +351,111 @@ describe('TopicManager', () => {
         });
       });
 
+      it('should create subscription with message ordering enabled', async () => {
+        const mockSubscription: Partial<Subscription> = {
+          exists: jest.fn().mockResolvedValue([false]),
+          create: jest.fn().mockResolvedValue([]),
+        };
+
+        const mockTopic = {
+          subscription: jest.fn().mockReturnValue(mockSubscription),
+        } as unknown as Topic;
+
+        await getOrCreateSubscription(mockTopic, 'test-subscription', {
+          enableMessageOrdering: true,
+        });
+
+        expect(mockSubscription.create).toHaveBeenCalledWith({
+          enableMessageOrdering: true,
+        });
+      });
+
+      describe('existing subscriptions', () => {
+        const createExistingSubscription = (metadata: object) =>
+          ({
+            exists: jest.fn().mockResolvedValue([true]),
+            create: jest.fn(),
+            getMetadata: jest.fn().mockResolvedValue([metadata]),
+            setMetadata: jest.fn().mockResolvedValue([metadata]),
+          }) as unknown as Subscription;
+        const createTopic = (subscription: Subscription) =>
+          ({
+            subscription: jest.fn().mockReturnValue(subscription),
+          }) as unknown as Topic;
+
+        it('should update a different dead-letter policy', async () => {
+          const subscription = createExistingSubscription({
+            deadLetterPolicy: null,
+            enableMessageOrdering: false,
+          });
+
+          await getOrCreateSubscription(
+            createTopic(subscription),
+            'test-subscription',
+            {
+              deadLetterPolicy: {
+                deadLetterTopic: 'emmett-dlq',
+                maxDeliveryAttempts: 10,
+              },
+            },
+          );
+
+          expect(subscription.create).not.toHaveBeenCalled();
+          expect(subscription.setMetadata).toHaveBeenCalledWith({
+            deadLetterPolicy: {
+              deadLetterTopic: 'emmett-dlq',
+              maxDeliveryAttempts: 10,
+            },
+          });
+        });
+
+        it('should keep a matching dead-letter policy', async () => {
+          const subscription = createExistingSubscription({
+            deadLetterPolicy: {
+              deadLetterTopic: 'projects/test-project/topics/emmett-dlq',
+              maxDeliveryAttempts: 5,
+            },
+          });
+
+          await getOrCreateSubscription(
+            createTopic(subscription),
+            'test-subscription',
+            { deadLetterPolicy: { deadLetterTopic: 'emmett-dlq' } },
+          );
+
+          expect(subscription.setMetadata).not.toHaveBeenCalled();
+        });
+
+        it('should not read the metadata without policy or ordering options', async () => {
+          const subscription = createExistingSubscription({});
+
+          await getOrCreateSubscription(
+            createTopic(subscription),
+            'test-subscription',
+            { ackDeadlineSeconds: 60 },
+          );
+
+          expect(subscription.getMetadata).not.toHaveBeenCalled();
+        });
+
+        it('should reject a different message ordering', async () => {
+          const subscription = createExistingSubscription({
+            enableMessageOrdering: false,
+          });
+
+          await expect(
+            getOrCreateSubscription(
+              createTopic(subscription),
+              'test-subscription',
+              { enableMessageOrdering: true },
+            ),
+          ).rejects.toThrow(
+            'Subscription test-subscription exists with message ordering disabled, which cannot be changed; delete it or set enableMessageOrdering to false',
+          );
+          expect(subscription.setMetadata).not.toHaveBeenCalled();
+        });
+      });
+
       it('should throw error if subscription operations fail', async () => {
         const mockSubscription = {
           exists: jest.fn().mockRejectedValue(new Error('Network error')),
@@ -291,5 +540,98 @@ describe('TopicManager', () => {
         await expect(deleteSubscriptions([])).resolves.toBeUndefined();
       });
     });
+
+    describe('grantDeadLetterPermissions', () => {
+      const serviceAccount =
+        'service-123@gcp-sa-pubsub.iam.gserviceaccount.com';
+
+      const createMockIam = (bindings?: unknown[]) => ({
+        getPolicy: jest.fn().mockResolvedValue([{ bindings, etag: 'etag' }]),
+        setPolicy: jest.fn().mockResolvedValue([{}]),
+      });
+
+      it('should grant publisher on the topic and subscriber on the subscription', async () => {
+        const topicIam = createMockIam([
+          { role: 'roles/pubsub.publisher', members: ['user:admin@acme.com'] },
+        ]);
+        const subscriptionIam = createMockIam();
+
+        await grantDeadLetterPermissions(
+          { iam: topicIam } as unknown as Topic,
+          { iam: subscriptionIam } as unknown as Subscription,
+          serviceAccount,
+        );
+
+        expect(topicIam.setPolicy).toHaveBeenCalledWith({
+          etag: 'etag',
+          bindings: [
+            {
+              role: 'roles/pubsub.publisher',
+              members: [
+                'user:admin@acme.com',
+                `serviceAccount:${serviceAccount}`,
+              ],
+            },
+          ],
+        });
+        expect(subscriptionIam.setPolicy).toHaveBeenCalledWith({
+          etag: 'etag',
+          bindings: [
+            {
+              role: 'roles/pubsub.subscriber',
+              members: [`serviceAccount:${serviceAccount}`],
+            },
+          ],
+        });
+      });
+
+      it('should not update policies that already grant the role', async () => {
+        const topicIam = createMockIam([
+          {
+            role: 'roles/pubsub.publisher',
+            members: [`serviceAccount:${serviceAccount}`],
+          },
+        ]);
+        const subscriptionIam = createMockIam([
+          {
+            role: 'roles/pubsub.subscriber',
+            members: [`serviceAccount:${serviceAccount}`],
+          },
+        ]);
+
+        await grantDeadLetterPermissions(
+          { iam: topicIam } as unknown as Topic,
+          { iam: subscriptionIam } as unknown as Subscription,
+          serviceAccount,
+        );
+
+        expect(topicIam.setPolicy).not.toHaveBeenCalled();
+        expect(subscriptionIam.setPolicy).not.toHaveBeenCalled();
+      });
+
+      it('should not throw when policies cannot be updated', async () => {
+        const consoleWarnSpy = jest
+          .spyOn(console, 'warn')
+          .mockImplementation(() => {});
+        const topicIam = {
+          getPolicy: jest.fn().mockRejectedValue(new Error('Not implemented')),
+          setPolicy: jest.fn(),
+        };
+
+        await expect(
+          grantDeadLetterPermissions(
+            { iam: topicIam } as unknown as Topic,
+            { iam: createMockIam() } as unknown as Subscription,
+            serviceAccount,
+          ),
+        ).resolves.toBeUndefined();
+
+        expect(consoleWarnSpy).toHaveBeenCalledWith(
+          expect.stringContaining('Not implemented'),
+        );
+
+        consoleWarnSpy.mockRestore();
+      });
+    });
   });
 });
@@ -0,0 +1,77 @@
+import {
+  getLatestVersion,
+  upcastMessageData,
+} from '../../src/messageBus/upcasting';
+import type { MessageUpcaster } from '../../src/messageBus/upcasting';
+
+describe('Upcasting', () => {
+  // v1: { price }, v2: { price, currency }, v3: { amount, currency }
+  const upcasters: MessageUpcaster[] = [
+    (data) => ({ ...(data as object), currency: 'EUR' }),
+    (data) => {
+      const { price, ...rest } = data as { price: number };
+      return { ...rest, amount: price };
+    },
+  ];
+
+  describe('getLatestVersion', () => {
+    it('should be 1 without upcasters', () => {
+      expect(getLatestVersion()).toBe(1);
+      expect(getLatestVersion([])).toBe(1);
+    });
+
+    it('should be the number of upcasters plus one', () => {
+      expect(getLatestVersion(upcasters)).toBe(3);
+    });
+  });
+
+  describe('upcastMessageData', () => {
+    it('should apply the upcaster chain from the published version', () => {
+      expect(
+        upcastMessageData('PriceSet', 1, { price: 10 }, undefined, upcasters),
+      ).toEqual({ amount: 10, currency: 'EUR' });
+      expect(
+        upcastMessageData(
+          'PriceSet',
+          2,
+          { price: 10, currency: 'USD' },
+          undefined,
+          upcasters,
+        ),
+      ).toEqual({ amount: 10, currency: 'USD' });
+    });
+
+    it('should return data of the latest version as-is', () => {
+      const data = { amount: 10, currency: 'EUR' };
+
+      expect(upcastMessageData('PriceSet', 3, data, undefined, upcasters)).toBe(
+        data,
+      );
+    });
+
+    it('should pass the metadata to upcasters', () => {
+      const upcaster = jest.fn().mockReturnValue({});
+
+      upcastMessageData('PriceSet', 1, {}, { tenant: 'acme' }, [upcaster]);
+
+      expect(upcaster).toHaveBeenCalledWith({}, { tenant: 'acme' });
+    });
+
+    it('should reject versions newer than the latest version', () => {
+      expect(() =>
+        upcastMessageData('PriceSet', 4, {}, undefined, upcasters),
+      ).toThrow(
+        'Cannot read PriceSet version 4, the latest known version is 3',
+      );
+    });
+
+    it('should reject invalid versions', () => {
+      expect(() =>
+        upcastMessageData('PriceSet', 0, {}, undefined, upcasters),
+      ).toThrow('Invalid PriceSet version: 0');
+      expect(() =>
+        upcastMessageData('PriceSet', 1.5, {}, undefined, upcasters),
+      ).toThrow('Invalid PriceSet version: 1.5');
+    });
+  });
+});
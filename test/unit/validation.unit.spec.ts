@@ -0,0 +1,114 @@
+import { EmmettError, ValidationError } from '@event-driven-io/emmett';
+import {
+  MessageValidationError,
+  validateMessageData,
+} from '../../src/messageBus/validation';
+import type { MessageValidator } from '../../src/messageBus/validation';
+import { MessageTypeRegistry } from '../../src/messageBus/messageTypeRegistry';
+
+describe('Validation', () => {
+  describe('validateMessageData', () => {
+    it('should accept data passing a validator function', () => {
+      const validator = (data: unknown) => typeof data === 'object';
+
+      expect(() =>
+        validateMessageData('ItemAdded', validator, { id: '1' }),
+      ).not.toThrow();
+    });
+
+    it('should report the errors of a failed validator function', () => {
+      // Shaped like a validator compiled by Ajv
+      const validator: MessageValidator = Object.assign(() => false, {
+        errors: [
+          { instancePath: '/quantity', message: 'must be integer' },
+          { instancePath: '', message: "must have required property 'id'" },
+        ],
+      });
+
+      expect(() => validateMessageData('ItemAdded', validator, {})).toThrow(
+        "Invalid ItemAdded message: /quantity must be integer; must have required property 'id'",
+      );
+    });
+
+    it('should report validator functions without errors', () => {
+      expect(() => validateMessageData('ItemAdded', () => false, {})).toThrow(
+        'Invalid ItemAdded message: data is invalid',
+      );
+    });
+
+    it('should accept data passing a schema', () => {
+      const schema = { parse: (data: unknown) => data };
+
+      expect(() => validateMessageData('ItemAdded', schema, {})).not.toThrow();
+    });
+
+    it('should report the issues of zod-like schema errors', () => {
+      const schema = {
+        parse: () => {
+          throw Object.assign(new Error('validation failed'), {
+            issues: [
+              { path: ['items', 0, 'price'], message: 'Expected number' },
+              { path: [], message: 'Unrecognized key' },
+            ],
+          });
+        },
+      };
+
+      expect(() => validateMessageData('ItemAdded', schema, {})).toThrow(
+        'Invalid ItemAdded message: /items/0/price Expected number; Unrecognized key',
+      );
+    });
+
+    it('should report the message of other schema errors', () => {
+      const schema = {
+        parse: () => {
+          throw new Error('id is required');
+        },
+      };
+
+      expect(() => validateMessageData('ItemAdded', schema, {})).toThrow(
+        'Invalid ItemAdded message: id is required',
+      );
+    });
+  });
+
+  describe('MessageValidationError', () => {
+    it('should be a validation error with type and errors', () => {
+      const error = new MessageValidationError('ItemAdded', ['id is required']);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error).toBeInstanceOf(EmmettError);
+      expect(error.messageType).toBe('ItemAdded');
+      expect(error.errors).toEqual(['id is required']);
+    });
+  });
+
+  describe('MessageTypeRegistry.validate', () => {
+    const registry = new MessageTypeRegistry({
+      ItemAdded: {
+        kind: 'event',
+        schema: (data: unknown) =>
+          typeof (data as { id?: unknown }).id === 'string',
+      },
+      ItemRemoved: 'event',
+    });
+
+    it('should validate messages of types with a schema', () => {
+      expect(() =>
+        registry.validate({ type: 'ItemAdded', data: { id: '1' } }),
+      ).not.toThrow();
+      expect(() => registry.validate({ type: 'ItemAdded', data: {} })).toThrow(
+        MessageValidationError,
+      );
+    });
+
+    it('should accept messages of types without a schema', () => {
+      expect(() =>
+        registry.validate({ type: 'ItemRemoved', data: {} }),
+      ).not.toThrow();
+      expect(() =>
+        registry.validate({ type: 'Unknown', data: {} }),
+      ).not.toThrow();
+    });
+  });
+});